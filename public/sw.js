@@ -0,0 +1,172 @@
+/**
+ * FIFA Tracker service worker
+ *
+ * - App shell: pages are network-first with the last cached copy as the
+ *   offline fallback; hashed Next.js assets are cache-first.
+ * - Read-only tournament data: GET requests for tournaments, standings,
+ *   match history and profile stats are network-first. Every successful
+ *   response is stored with the time it was fetched; when the API is
+ *   unreachable the stored copy is served with an `X-SW-Cached-At` header
+ *   so the app can show a "last updated" banner.
+ *
+ * Bump CACHE_VERSION when the caching strategy changes.
+ */
+
+const CACHE_VERSION = 'v1';
+const SHELL_CACHE = `fifa-tracker-shell-${CACHE_VERSION}`;
+const DATA_CACHE = `fifa-tracker-data-${CACHE_VERSION}`;
+
+const SHELL_URLS = ['/', '/manifest.webmanifest', '/icons/icon.svg'];
+
+// API reads that are kept for offline use (paths under /api/v1)
+const CACHED_API_PATHS = [
+  /\/api\/v1\/tournaments\/?$/,
+  /\/api\/v1\/tournaments\/[^/]+\/?$/,
+  /\/api\/v1\/tournaments\/[^/]+\/(players|stats|matches)\/?$/,
+  /\/api\/v1\/user\/[^/]+\/stats\/?$/,
+];
+
+const CACHED_AT_HEADER = 'X-SW-Cached-At';
+
+self.addEventListener('install', event => {
+  event.waitUntil(
+    caches
+      .open(SHELL_CACHE)
+      .then(cache => cache.addAll(SHELL_URLS))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then(keys =>
+        Promise.all(
+          keys
+            .filter(key => key !== SHELL_CACHE && key !== DATA_CACHE)
+            .map(key => caches.delete(key))
+        )
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+const isCachedApiRequest = url =>
+  CACHED_API_PATHS.some(pattern => pattern.test(url.pathname));
+
+// getCurrentUserStats adds a `_t` timestamp for cache busting; drop it so
+// every call shares one cache entry
+const dataCacheKey = url => {
+  const key = new URL(url.href);
+  key.searchParams.delete('_t');
+  return key.href;
+};
+
+// The ngrok tunnel answers with its own error page when the backend is down
+const isUnavailable = response =>
+  response.status >= 500 || response.headers.has('ngrok-error-code');
+
+const withCachedAt = async (response, cachedAt) => {
+  const headers = new Headers(response.headers);
+  headers.set(CACHED_AT_HEADER, cachedAt);
+  // The API is cross-origin; expose the header to the page
+  const exposed = headers.get('Access-Control-Expose-Headers');
+  headers.set(
+    'Access-Control-Expose-Headers',
+    exposed ? `${exposed}, ${CACHED_AT_HEADER}` : CACHED_AT_HEADER
+  );
+  return new Response(await response.blob(), {
+    status: response.status,
+    statusText: response.statusText,
+    headers,
+  });
+};
+
+const networkFirstData = async request => {
+  const cache = await caches.open(DATA_CACHE);
+  const key = dataCacheKey(new URL(request.url));
+
+  try {
+    const response = await fetch(request);
+    if (isUnavailable(response)) {
+      throw new Error(`API unavailable (${response.status})`);
+    }
+    if (response.ok) {
+      const stored = await withCachedAt(
+        response.clone(),
+        new Date().toISOString()
+      );
+      await cache.put(key, stored);
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match(key);
+    if (cached) {
+      return cached;
+    }
+    throw error;
+  }
+};
+
+const networkFirstPage = async request => {
+  const cache = await caches.open(SHELL_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      await cache.put(request, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached =
+      (await cache.match(request, { ignoreSearch: true })) ||
+      (await cache.match('/'));
+    if (cached) {
+      return cached;
+    }
+    throw error;
+  }
+};
+
+const cacheFirstAsset = async request => {
+  const cache = await caches.open(SHELL_CACHE);
+  const cached = await cache.match(request);
+  if (cached) {
+    return cached;
+  }
+  const response = await fetch(request);
+  if (response.ok) {
+    await cache.put(request, response.clone());
+  }
+  return response;
+};
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') {
+    return;
+  }
+
+  const url = new URL(request.url);
+
+  if (isCachedApiRequest(url)) {
+    event.respondWith(networkFirstData(request));
+    return;
+  }
+
+  if (url.origin !== self.location.origin) {
+    return;
+  }
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirstPage(request));
+    return;
+  }
+
+  if (
+    url.pathname.startsWith('/_next/static/') ||
+    url.pathname.startsWith('/icons/')
+  ) {
+    event.respondWith(cacheFirstAsset(request));
+  }
+});
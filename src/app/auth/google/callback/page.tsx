@@ -22,16 +22,11 @@ function GoogleCallbackContent() {
           // Use the API function to handle the callback
           const userData = await handleGoogleCallback(token);
 
-          if (userData) {
-            // Update the auth context with the user data
-            updateUser(userData);
+          // Update the auth context with the user data
+          updateUser(userData);
 
-            // Redirect to home page
-            router.push('/');
-          } else {
-            setError('Failed to authenticate with Google. Please try again.');
-            setIsProcessing(false);
-          }
+          // Redirect to home page
+          router.push('/');
         } else {
           setError('Authentication failed. Please try again.');
           setIsProcessing(false);
@@ -4,7 +4,7 @@ import { TrophyIcon } from '@/components/Icons';
 import LoginForm from '@/components/LoginForm';
 import RegisterForm from '@/components/RegisterForm';
 import { useAuth } from '@/contexts/auth';
-import { onGoogleSignInClick } from '@/lib/api';
+import { getErrorMessage, onGoogleSignInClick } from '@/lib/api';
 import { useRouter } from 'next/navigation';
 import { useEffect, useState } from 'react';
 
@@ -67,8 +67,8 @@ export default function AuthPage() {
       } else {
         setError('Invalid username or password');
       }
-    } catch {
-      setError('An error occurred during sign in');
+    } catch (error) {
+      setError(getErrorMessage(error, 'An error occurred during sign in'));
     } finally {
       setIsLoading(false);
     }
@@ -99,13 +99,27 @@ export default function AuthPage() {
       } else {
         setError('Failed to create account');
       }
-    } catch {
-      setError('An error occurred during sign up');
+    } catch (error) {
+      setError(getErrorMessage(error, 'An error occurred during sign up'));
     } finally {
       setIsLoading(false);
     }
   };
 
+  const handleGoogleSignIn = async () => {
+    setError('');
+    try {
+      await onGoogleSignInClick();
+    } catch (error) {
+      setError(
+        getErrorMessage(
+          error,
+          'Failed to initiate Google Sign-In. Please try again.'
+        )
+      );
+    }
+  };
+
   return (
     <div className="min-h-screen bg-[#0f1419] text-white flex flex-col">
       {/* Header */}
@@ -200,7 +214,7 @@ export default function AuthPage() {
             {/* Social Login */}
             <div className="flex justify-center">
               <button
-                onClick={onGoogleSignInClick}
+                onClick={handleGoogleSignIn}
                 className="w-full flex items-center justify-center gap-3 bg-[#2d3748] border border-gray-600 rounded-lg py-4 px-6 text-white hover:bg-[#374151] transition-colors font-medium"
               >
                 <svg className="w-5 h-5" viewBox="0 0 24 24">
@@ -0,0 +1,229 @@
+'use client';
+
+import ComparisonChart, { ChartSeries } from '@/components/ComparisonChart';
+import { ArrowLeftIcon, TrophyIcon } from '@/components/Icons';
+import PlayerComparison from '@/components/PlayerComparison';
+import ProtectedRoute from '@/components/ProtectedRoute';
+import PlayerSelection from '@/components/PlayerSelection';
+import RadarChart from '@/components/RadarChart';
+import { useEloReplay } from '@/hooks/useEloReplay';
+import {
+  getDisplayName,
+  MAX_COMPARED_PLAYERS,
+  usePlayerSelection,
+} from '@/hooks/usePlayerSelection';
+import {
+  ATTRIBUTE_NAMES,
+  getEloSeries,
+  getFormSeries,
+  getGoalsSeries,
+  getPlayerAttributes,
+  getRatingTimeline,
+  getWinRateSeries,
+  normalizeAttributes,
+  ROLLING_WINDOW,
+  SeriesPoint,
+} from '@/lib/api';
+import { UserDetailedStats } from '@/types';
+import { useRouter } from 'next/navigation';
+import { Suspense } from 'react';
+
+const MIN_PLAYERS = 2;
+
+// One colour per compared player, in the order they were added
+const PLAYER_COLORS = ['#60a5fa', '#c084fc', '#4ade80', '#fb923c'];
+
+const ATTRIBUTE_LABELS = {
+  attack: 'Attack',
+  defence: 'Defence',
+  consistency: 'Consistency',
+  clutch: 'Clutch',
+};
+
+function CompareDashboardContent() {
+  const router = useRouter();
+  const {
+    playerIds,
+    setPlayerIds,
+    stats,
+    isLoading: isLoadingStats,
+  } = usePlayerSelection('/compare', MAX_COMPARED_PLAYERS);
+  // Elo, goals and form are all replayed from the match history
+  const elo = useEloReplay(playerIds.length >= MIN_PLAYERS);
+
+  const comparedPlayers = playerIds.flatMap(id =>
+    stats[id] ? [stats[id]] : []
+  );
+  const toSeries = (
+    getPoints: (player: UserDetailedStats) => SeriesPoint[]
+  ): ChartSeries[] =>
+    comparedPlayers.map(player => ({
+      id: player.id,
+      label: getDisplayName(player),
+      color: PLAYER_COLORS[playerIds.indexOf(player.id)],
+      points: getPoints(player),
+    }));
+
+  // The radar only compares players who have played
+  const rankedPlayers = comparedPlayers.filter(
+    player =>
+      player.total_matches > 0 &&
+      getGoalsSeries(elo.matches, player.id).length > 0
+  );
+  const attributes = normalizeAttributes(
+    rankedPlayers.map(player => getPlayerAttributes(player, elo.matches))
+  );
+
+  return (
+    <ProtectedRoute>
+      <div className="min-h-screen bg-[#0f1419] text-white">
+        {/* Header */}
+        <header className="py-4 sm:py-6 px-4 border-b border-gray-700">
+          <div className="max-w-6xl mx-auto flex items-center justify-between">
+            <div className="flex items-center gap-2 sm:gap-3">
+              <button
+                onClick={() => router.back()}
+                className="flex items-center gap-2 hover:opacity-80 transition-opacity"
+              >
+                <ArrowLeftIcon className="w-5 h-5 text-gray-400" />
+                <TrophyIcon size={32} />
+                <h1 className="text-xl sm:text-2xl font-bold">Compare Stats</h1>
+              </button>
+            </div>
+          </div>
+        </header>
+
+        {/* Content */}
+        <div className="max-w-4xl mx-auto px-4 py-8 space-y-4">
+          {/* Player selection */}
+          <PlayerSelection
+            playerIds={playerIds}
+            stats={stats}
+            max={MAX_COMPARED_PLAYERS}
+            onChange={setPlayerIds}
+            colors={PLAYER_COLORS}
+          />
+
+          {playerIds.length < MIN_PLAYERS ? (
+            <div className="text-center py-12">
+              <p className="text-gray-400 text-lg">
+                Choose {MIN_PLAYERS} to {MAX_COMPARED_PLAYERS} players to
+                compare
+              </p>
+            </div>
+          ) : isLoadingStats ? (
+            <div className="text-center py-12">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500 mx-auto"></div>
+              <p className="text-gray-400 mt-4">Loading stats...</p>
+            </div>
+          ) : (
+            <>
+              <PlayerComparison players={comparedPlayers} />
+
+              <ComparisonChart
+                title="Win Rate Over Time"
+                series={toSeries(getWinRateSeries)}
+                formatValue={value => `${Math.round(value * 100)}%`}
+              />
+
+              {elo.isLoading ? (
+                <div className="bg-[#1a1f2e] rounded-lg p-4 sm:p-6">
+                  <p className="text-gray-400 text-center py-8">
+                    Loading match history...
+                  </p>
+                </div>
+              ) : (
+                <>
+                  <ComparisonChart
+                    title="Elo Rating"
+                    series={toSeries(player =>
+                      elo.replay
+                        ? getEloSeries(getRatingTimeline(elo.replay, player.id))
+                        : []
+                    )}
+                    formatValue={value => `${Math.round(value)}`}
+                  />
+                  <ComparisonChart
+                    title={`Goals per Match (last ${ROLLING_WINDOW})`}
+                    series={toSeries(player =>
+                      getGoalsSeries(elo.matches, player.id)
+                    )}
+                  />
+                  <ComparisonChart
+                    title={`Form: Points per Match (last ${ROLLING_WINDOW})`}
+                    series={toSeries(player =>
+                      getFormSeries(elo.matches, player.id)
+                    )}
+                  />
+
+                  {/* Attributes relative to the best in the group */}
+                  <div className="bg-[#1a1f2e] rounded-lg p-4 sm:p-6">
+                    <h3 className="text-lg font-bold mb-1">Attributes</h3>
+                    <p className="text-xs text-gray-400 mb-3">
+                      Attack is goals scored and defence goals conceded per
+                      match, consistency how little the goal difference varies
+                      and clutch the points taken from one-goal games and draws.
+                      Each is scaled against the best player here.
+                    </p>
+                    {rankedPlayers.length === 0 ? (
+                      <p className="text-gray-400 text-center py-8">
+                        No matches to compare yet
+                      </p>
+                    ) : (
+                      <>
+                        <RadarChart
+                          axes={ATTRIBUTE_NAMES.map(
+                            name => ATTRIBUTE_LABELS[name]
+                          )}
+                          series={rankedPlayers.map((player, index) => ({
+                            id: player.id,
+                            label: getDisplayName(player),
+                            color: PLAYER_COLORS[playerIds.indexOf(player.id)],
+                            values: ATTRIBUTE_NAMES.map(
+                              name => attributes[index][name]
+                            ),
+                          }))}
+                        />
+                        <div className="flex flex-wrap justify-center gap-4 mt-2 text-xs">
+                          {rankedPlayers.map(player => (
+                            <span
+                              key={player.id}
+                              className="flex items-center gap-1 text-gray-400"
+                            >
+                              <span
+                                className="w-2 h-2 rounded-full inline-block"
+                                style={{
+                                  backgroundColor:
+                                    PLAYER_COLORS[playerIds.indexOf(player.id)],
+                                }}
+                              />
+                              {getDisplayName(player)}
+                            </span>
+                          ))}
+                        </div>
+                      </>
+                    )}
+                  </div>
+                </>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </ProtectedRoute>
+  );
+}
+
+export default function CompareDashboardPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="min-h-screen bg-[#0f1419] text-white flex items-center justify-center">
+          Loading...
+        </div>
+      }
+    >
+      <CompareDashboardContent />
+    </Suspense>
+  );
+}
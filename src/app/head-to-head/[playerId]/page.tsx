@@ -2,8 +2,15 @@
 
 import { ArrowLeftIcon, TrophyIcon } from '@/components/Icons';
 import ProtectedRoute from '@/components/ProtectedRoute';
+import RivalryDetails from '@/components/RivalryDetails';
 import { useAuth } from '@/contexts/auth';
-import { getHeadToHead } from '@/lib/api';
+import { useQuery } from '@/hooks/useQuery';
+import {
+  getHeadToHead,
+  getHeadToHeadMatches,
+  isCancelledError,
+  queryKeys,
+} from '@/lib/api';
 import { useRouter } from 'next/navigation';
 import { useEffect, useState } from 'react';
 
@@ -42,6 +49,12 @@ function HeadToHeadContent({
   const [stats, setStats] = useState<HeadToHeadStats | null>(null);
   const [loading, setLoading] = useState(true);
   const [playerId, setPlayerId] = useState<string>('');
+  // The totals come from the backend, the meetings are gathered from the
+  // tournaments and match history
+  const matchesQuery = useQuery(
+    user?.id && playerId ? queryKeys.headToHead(user.id, playerId) : null,
+    options => getHeadToHeadMatches(user?.id ?? '', playerId, options)
+  );
 
   useEffect(() => {
     const resolveParams = async () => {
@@ -52,6 +65,8 @@ function HeadToHeadContent({
   }, [params]);
 
   useEffect(() => {
+    const controller = new AbortController();
+
     const fetchHeadToHead = async () => {
       if (!user?.id || !playerId) {
         return;
@@ -59,9 +74,12 @@ function HeadToHeadContent({
 
       try {
         setLoading(true);
-        const data = await getHeadToHead(user.id, playerId);
+        const data = await getHeadToHead(user.id, playerId, {
+          signal: controller.signal,
+        });
         setStats(data);
       } catch (error) {
+        if (isCancelledError(error)) return;
         console.error('Error fetching head-to-head stats:', error);
       } finally {
         setLoading(false);
@@ -69,6 +87,8 @@ function HeadToHeadContent({
     };
 
     fetchHeadToHead();
+
+    return () => controller.abort();
   }, [user?.id, playerId]);
 
   return (
@@ -89,6 +109,16 @@ function HeadToHeadContent({
                 </h1>
               </button>
             </div>
+            {user?.id && playerId && (
+              <button
+                onClick={() =>
+                  router.push(`/head-to-head?players=${user.id},${playerId}`)
+                }
+                className="px-3 py-2 border border-gray-600 rounded-lg text-sm text-gray-300 hover:bg-[#1a1f2e] transition-colors"
+              >
+                Compare more players
+              </button>
+            )}
           </div>
         </header>
 
@@ -355,6 +385,16 @@ function HeadToHeadContent({
                   </div>
                 </div>
               )}
+
+              {/* Every meeting, streaks, teams and competitions */}
+              <RivalryDetails
+                player1Id={stats.player1_id}
+                player2Id={stats.player2_id}
+                player1Name={stats.player1_name}
+                player2Name={stats.player2_name}
+                matches={matchesQuery.data ?? []}
+                isLoading={matchesQuery.isLoading}
+              />
             </div>
           ) : (
             <div className="text-center py-12">
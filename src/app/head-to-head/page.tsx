@@ -0,0 +1,167 @@
+'use client';
+
+import { ArrowLeftIcon, TrophyIcon } from '@/components/Icons';
+import PlayerComparison from '@/components/PlayerComparison';
+import PlayerSelection from '@/components/PlayerSelection';
+import ProtectedRoute from '@/components/ProtectedRoute';
+import RivalryDetails from '@/components/RivalryDetails';
+import {
+  getDisplayName,
+  MAX_COMPARED_PLAYERS,
+  usePlayerSelection,
+} from '@/hooks/usePlayerSelection';
+import { useQuery } from '@/hooks/useQuery';
+import { getHeadToHeadMatches, queryKeys } from '@/lib/api';
+import { useRouter } from 'next/navigation';
+import { Suspense, useState } from 'react';
+
+function CompareContent() {
+  const router = useRouter();
+  const {
+    playerIds,
+    setPlayerIds,
+    stats,
+    isLoading: isLoadingStats,
+  } = usePlayerSelection('/head-to-head', MAX_COMPARED_PLAYERS);
+  const [pair, setPair] = useState<[string, string] | null>(null);
+
+  // Fall back to the first two players when the chosen pair was removed
+  const activePair: [string, string] | null =
+    pair && playerIds.includes(pair[0]) && playerIds.includes(pair[1])
+      ? pair
+      : playerIds.length >= 2
+        ? [playerIds[0], playerIds[1]]
+        : null;
+  const matchesQuery = useQuery(
+    activePair ? queryKeys.headToHead(activePair[0], activePair[1]) : null,
+    options =>
+      activePair
+        ? getHeadToHeadMatches(activePair[0], activePair[1], options)
+        : Promise.resolve([])
+  );
+
+  const pairs = playerIds.flatMap((player1, index) =>
+    playerIds
+      .slice(index + 1)
+      .map(player2 => [player1, player2] as [string, string])
+  );
+
+  const comparedPlayers = playerIds.flatMap(id =>
+    stats[id] ? [stats[id]] : []
+  );
+
+  return (
+    <ProtectedRoute>
+      <div className="min-h-screen bg-[#0f1419] text-white">
+        {/* Header */}
+        <header className="py-4 sm:py-6 px-4 border-b border-gray-700">
+          <div className="max-w-6xl mx-auto flex items-center justify-between">
+            <div className="flex items-center gap-2 sm:gap-3">
+              <button
+                onClick={() => router.back()}
+                className="flex items-center gap-2 hover:opacity-80 transition-opacity"
+              >
+                <ArrowLeftIcon className="w-5 h-5 text-gray-400" />
+                <TrophyIcon size={32} />
+                <h1 className="text-xl sm:text-2xl font-bold">
+                  Compare Players
+                </h1>
+              </button>
+            </div>
+            {playerIds.length >= 2 && (
+              <button
+                onClick={() =>
+                  router.push(`/compare?players=${playerIds.join(',')}`)
+                }
+                className="px-3 py-2 border border-gray-600 rounded-lg text-sm text-gray-300 hover:bg-[#1a1f2e] transition-colors"
+              >
+                Charts
+              </button>
+            )}
+          </div>
+        </header>
+
+        {/* Content */}
+        <div className="max-w-4xl mx-auto px-4 py-8 space-y-4">
+          {/* Player selection */}
+          <PlayerSelection
+            playerIds={playerIds}
+            stats={stats}
+            max={MAX_COMPARED_PLAYERS}
+            onChange={setPlayerIds}
+          />
+
+          {playerIds.length < 2 ? (
+            <div className="text-center py-12">
+              <p className="text-gray-400 text-lg">
+                Choose at least two players to compare
+              </p>
+            </div>
+          ) : (
+            <>
+              {isLoadingStats ? (
+                <div className="text-center py-12">
+                  <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500 mx-auto"></div>
+                  <p className="text-gray-400 mt-4">Loading stats...</p>
+                </div>
+              ) : (
+                <PlayerComparison players={comparedPlayers} />
+              )}
+
+              {/* Pick the rivalry to show when more than two are compared */}
+              {pairs.length > 1 && (
+                <div className="flex flex-wrap gap-2">
+                  {pairs.map(([player1, player2]) => {
+                    const isActive =
+                      activePair?.[0] === player1 &&
+                      activePair?.[1] === player2;
+                    return (
+                      <button
+                        key={`${player1}-${player2}`}
+                        onClick={() => setPair([player1, player2])}
+                        className={`px-3 py-1 rounded-full text-sm transition-colors ${
+                          isActive
+                            ? 'bg-blue-600 text-white'
+                            : 'bg-[#1a1f2e] text-gray-300 hover:bg-[#2d3748]'
+                        }`}
+                      >
+                        {getDisplayName(stats[player1])} vs{' '}
+                        {getDisplayName(stats[player2])}
+                      </button>
+                    );
+                  })}
+                </div>
+              )}
+
+              {activePair && (
+                <RivalryDetails
+                  key={activePair.join('-')}
+                  player1Id={activePair[0]}
+                  player2Id={activePair[1]}
+                  player1Name={getDisplayName(stats[activePair[0]])}
+                  player2Name={getDisplayName(stats[activePair[1]])}
+                  matches={matchesQuery.data ?? []}
+                  isLoading={matchesQuery.isLoading}
+                />
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </ProtectedRoute>
+  );
+}
+
+export default function ComparePage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="min-h-screen bg-[#0f1419] text-white flex items-center justify-center">
+          Loading...
+        </div>
+      }
+    >
+      <CompareContent />
+    </Suspense>
+  );
+}
@@ -1,6 +1,7 @@
+import ServiceWorkerRegistration from '@/components/ServiceWorkerRegistration';
 import { ToastProvider } from '@/components/ToastProvider';
 import { AuthProvider } from '@/contexts/auth';
-import type { Metadata } from 'next';
+import type { Metadata, Viewport } from 'next';
 import { Geist, Geist_Mono } from 'next/font/google';
 import { SpeedInsights } from '@vercel/speed-insights/next';
 import './globals.css';
@@ -18,6 +19,19 @@ const geistMono = Geist_Mono({
 export const metadata: Metadata = {
   title: 'FIFA Tracker',
   description: 'Track your FIFA matches and tournaments with friends',
+  appleWebApp: {
+    capable: true,
+    title: 'FIFA Tracker',
+    statusBarStyle: 'black-translucent',
+  },
+  icons: {
+    icon: '/icons/icon.svg',
+    apple: '/icons/icon.svg',
+  },
+};
+
+export const viewport: Viewport = {
+  themeColor: '#0f1419',
 };
 
 export default function RootLayout({
@@ -34,6 +48,7 @@ export default function RootLayout({
         <AuthProvider>
           <ToastProvider>{children}</ToastProvider>
         </AuthProvider>
+        <ServiceWorkerRegistration />
         <SpeedInsights />
       </body>
     </html>
@@ -0,0 +1,30 @@
+import type { MetadataRoute } from 'next';
+
+// Web app manifest so FIFA Tracker can be installed on a phone
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: 'FIFA Tracker',
+    short_name: 'FIFA Tracker',
+    description: 'Track your FIFA matches and tournaments with friends',
+    start_url: '/?tab=tournament',
+    scope: '/',
+    display: 'standalone',
+    orientation: 'portrait',
+    background_color: '#0f1419',
+    theme_color: '#0f1419',
+    icons: [
+      {
+        src: '/icons/icon.svg',
+        sizes: 'any',
+        type: 'image/svg+xml',
+        purpose: 'any',
+      },
+      {
+        src: '/icons/icon.svg',
+        sizes: 'any',
+        type: 'image/svg+xml',
+        purpose: 'maskable',
+      },
+    ],
+  };
+}
@@ -1,33 +1,63 @@
 'use client';
 
 import CustomDropdown from '@/components/CustomDropdown';
+import DraftBoard from '@/components/DraftBoard';
+import Fixtures from '@/components/Fixtures';
 import Friends from '@/components/Friends';
+import GroupStandings from '@/components/GroupStandings';
 import {
   Bars3Icon,
+  BracketIcon,
   CalendarIcon,
+  FixturesIcon,
   HierarchyIcon,
   PlusIcon,
   TableIcon,
   TrophyIcon,
   UserIcon,
 } from '@/components/Icons';
+import KnockoutBracket from '@/components/KnockoutBracket';
 import LogMatch from '@/components/LogMatch';
 import MatchHistory from '@/components/MatchHistory';
+import OfflineBanner from '@/components/OfflineBanner';
 import ProtectedRoute from '@/components/ProtectedRoute';
 import Settings from '@/components/Settings';
+import SwissRounds from '@/components/SwissRounds';
+import { useToast } from '@/components/ToastProvider';
+import TitleOdds from '@/components/TitleOdds';
 import TournamentStandings from '@/components/TournamentStandings';
+import WhatIfSimulator from '@/components/WhatIfSimulator';
 import { useAuth } from '@/contexts/auth';
+import { useEloReplay } from '@/hooks/useEloReplay';
+import { useOutbox } from '@/hooks/useOutbox';
+import { useQuery } from '@/hooks/useQuery';
 import {
+  applyRules,
+  buildGroupTables,
+  buildSwiss,
+  computeStandings,
+  computeStandingsFromResults,
+  diffStandings,
+  discardPendingMatch,
+  getAllTournamentMatches,
+  getFixtureFormat,
   getFriends,
   getTournamentMatches,
   getTournamentPlayers,
   getTournaments,
   getTournamentStandings,
+  hasHeadStart,
+  isCancelledError,
+  NextTieMatch,
+  queryKeys,
+  resolveMatchPlayers,
+  resolvePendingMatches,
+  retryPendingMatchAsStandalone,
 } from '@/lib/api';
 import {
+  Fixture,
   Friend,
   MatchResult,
-  PaginatedResponse,
   PlayerStats,
   Tournament,
   User,
@@ -35,6 +65,10 @@ import {
 import { useRouter, useSearchParams } from 'next/navigation';
 import { Suspense, useEffect, useState } from 'react';
 
+const NO_PLAYERS: User[] = [];
+const NO_STANDINGS: PlayerStats[] = [];
+const NO_MATCHES: MatchResult[] = [];
+
 function HomeContent() {
   const { user, signOut } = useAuth();
   const router = useRouter();
@@ -42,15 +76,10 @@ function HomeContent() {
   const [activeTab, setActiveTab] = useState('tournament');
   const [selectedTournament, setSelectedTournament] = useState<string>('');
   const [tournament, setTournament] = useState<Tournament | null>(null);
-  const [table, setTable] = useState<PlayerStats[]>([]);
-  const [players, setPlayers] = useState<User[]>([]);
   const [tournaments, setTournaments] = useState<Tournament[]>([]);
   const [_userCreatedTournaments, setUserCreatedTournaments] = useState<
     Tournament[]
   >([]);
-  const [matches, setMatches] = useState<MatchResult[]>([]);
-  const [matchesPagination, setMatchesPagination] =
-    useState<PaginatedResponse<MatchResult> | null>(null);
   const [currentPage, setCurrentPage] = useState(1);
   const [pageSize] = useState(20); // Show 20 matches per page
   const [isMenuOpen, setIsMenuOpen] = useState(false);
@@ -64,9 +93,143 @@ function HomeContent() {
     player2_goals: number;
     half_length: number;
     completed: boolean;
+    bracket_slot?: string;
   } | null>(null);
   const [friends, setFriends] = useState<Friend[]>([]);
   const [isLoadingFriends, setIsLoadingFriends] = useState(false);
+  const [showWhatIf, setShowWhatIf] = useState(false);
+
+  // Tournament data comes from the query cache: switching tabs or back to a
+  // tournament shows cached data at once and revalidates it in the
+  // background. Changing the tournament cancels the previous requests.
+  const playersQuery = useQuery(
+    selectedTournament ? queryKeys.tournamentPlayers(selectedTournament) : null,
+    options => getTournamentPlayers(selectedTournament, options)
+  );
+  const standingsQuery = useQuery(
+    selectedTournament
+      ? queryKeys.tournamentStandings(selectedTournament)
+      : null,
+    options => getTournamentStandings(selectedTournament, options)
+  );
+  const matchesQuery = useQuery(
+    selectedTournament && activeTab === 'history'
+      ? queryKeys.tournamentMatches(selectedTournament, currentPage, pageSize)
+      : null,
+    options =>
+      getTournamentMatches(selectedTournament, currentPage, pageSize, options)
+  );
+  const currentTournament = tournaments.find(t => t.id === selectedTournament);
+  // Knockout and group stage tournaments show their bracket in place of the
+  // fixture list
+  const hasBracket =
+    currentTournament?.format === 'knockout' ||
+    currentTournament?.format === 'groups';
+  const groupStage =
+    currentTournament?.format === 'groups'
+      ? currentTournament.group_stage
+      : undefined;
+  const swissSettings =
+    currentTournament?.format === 'swiss' ? currentTournament.swiss : undefined;
+  // Tournaments with their own rules are re-ranked on the client
+  const rules = currentTournament?.rules;
+
+  const { showToast } = useToast();
+  // Matches logged while offline are replayed in the background
+  const { pendingMatches, syncNow } = useOutbox({
+    onSynced: result => {
+      if (result.synced > 0) {
+        showToast(
+          `${result.synced} offline ${
+            result.synced === 1 ? 'match' : 'matches'
+          } synced`,
+          'success'
+        );
+      }
+      result.conflicts.forEach(match => {
+        showToast(
+          `${match.player1_name} vs ${match.player2_name} could not be synced: ${match.error}`,
+          'error',
+          8000
+        );
+      });
+      result.failed.forEach(match => {
+        showToast(
+          `${match.player1_name} vs ${match.player2_name} was rejected: ${match.error}`,
+          'error',
+          8000
+        );
+      });
+    },
+  });
+  const tournamentPendingMatches = pendingMatches.filter(
+    match => match.tournament_id === selectedTournament
+  );
+  // Matches waiting to sync are added to the league table on the client
+  const pendingLeagueMatches = resolvePendingMatches(
+    tournamentPendingMatches
+  ).filter(match => !match.match.bracket_slot);
+
+  // The fixture list, bracket, group tables and Swiss rounds need every
+  // match, not just the current page. So do the league table's pending
+  // matches, title odds and what-if simulator; a knockout's table only needs
+  // them to apply its rules.
+  const allMatchesQuery = useQuery(
+    selectedTournament &&
+      (activeTab === 'fixtures' ||
+        (activeTab === 'tournament' &&
+          (currentTournament?.format !== 'knockout' ||
+            rules ||
+            currentTournament.handicap?.mode === 'head_start')))
+      ? queryKeys.tournamentAllMatches(selectedTournament)
+      : null,
+    options => getAllTournamentMatches(selectedTournament, options)
+  );
+  const players = playersQuery.data ?? NO_PLAYERS;
+  const table = standingsQuery.data ?? NO_STANDINGS;
+  const matchesPagination = matchesQuery.data ?? null;
+  const matches = matchesPagination?.items ?? NO_MATCHES;
+  const allMatches = allMatchesQuery.data ?? NO_MATCHES;
+  const resolvedMatches = resolveMatchPlayers(allMatches, players);
+  // Elo changes next to each match in the history
+  const { replay: eloReplay } = useEloReplay(activeTab === 'history');
+  const swiss = swissSettings
+    ? buildSwiss(swissSettings, players, resolvedMatches, rules)
+    : null;
+  // Only once the full history is loaded, otherwise the pending matches
+  // would be the whole table
+  const includesPending =
+    pendingLeagueMatches.length > 0 && !!allMatchesQuery.data;
+  // The backend's table only counts the goals scored
+  const countsHeadStarts = allMatches.some(hasHeadStart);
+  const leagueTable =
+    includesPending || countsHeadStarts
+      ? computeStandings(
+          players.map(player => player.id),
+          players,
+          [...resolvedMatches, ...pendingLeagueMatches],
+          rules,
+          selectedTournament
+        )
+      : rules
+        ? applyRules(table, resolvedMatches, rules, selectedTournament)
+        : table;
+
+  // Cross-check the backend's standings against the match history whenever
+  // both are loaded. Head starts are expected to make them differ.
+  const standingsMismatches =
+    standingsQuery.data &&
+    allMatchesQuery.data &&
+    !swissSettings &&
+    !countsHeadStarts
+      ? diffStandings(
+          standingsQuery.data,
+          computeStandingsFromResults(allMatchesQuery.data, players)
+        )
+      : [];
+  const mismatchedPlayers = Array.from(
+    new Set(standingsMismatches.map(mismatch => mismatch.username))
+  );
 
   // Sync activeTab with URL parameter
   useEffect(() => {
@@ -74,6 +237,7 @@ function HomeContent() {
     const validTabs = [
       'tournament',
       'history',
+      'fixtures',
       'log-match',
       'friends',
       'settings',
@@ -108,61 +272,54 @@ function HomeContent() {
   }, [isMenuOpen]);
 
   useEffect(() => {
-    const initializeData = async () => {
-      const tournaments = await getTournaments();
+    const controller = new AbortController();
 
-      // Sort tournaments by start_date in descending order (most recent first)
-      const sortedTournaments = tournaments.sort(
-        (a, b) =>
-          new Date(b.start_date).getTime() - new Date(a.start_date).getTime()
-      );
+    const initializeData = async () => {
+      try {
+        const tournaments = await getTournaments({
+          signal: controller.signal,
+        });
+
+        // Sort tournaments by start_date in descending order (most recent first)
+        const sortedTournaments = tournaments.sort(
+          (a, b) =>
+            new Date(b.start_date).getTime() - new Date(a.start_date).getTime()
+        );
 
-      setTournaments(sortedTournaments);
+        setTournaments(sortedTournaments);
 
-      // For now, we'll assume all tournaments are user-created
-      // In a real implementation, the backend would provide a way to distinguish
-      // between tournaments created by the current user vs all tournaments
-      setUserCreatedTournaments(sortedTournaments);
+        // For now, we'll assume all tournaments are user-created
+        // In a real implementation, the backend would provide a way to distinguish
+        // between tournaments created by the current user vs all tournaments
+        setUserCreatedTournaments(sortedTournaments);
 
-      if (sortedTournaments.length > 0) {
-        // Select the most recent tournament (first in sorted array)
-        const mostRecentTournament = sortedTournaments[0];
-        setSelectedTournament(mostRecentTournament.id);
-        setTournament(mostRecentTournament);
+        if (sortedTournaments.length > 0) {
+          // Select the most recent tournament (first in sorted array)
+          const mostRecentTournament = sortedTournaments[0];
+          setSelectedTournament(mostRecentTournament.id);
+          setTournament(mostRecentTournament);
+        }
+      } catch (error) {
+        if (isCancelledError(error)) return;
+        console.error('Error fetching tournaments:', error);
       }
     };
 
     initializeData();
-  }, []);
-
-  // Separate useEffect for when selectedTournament changes
-  useEffect(() => {
-    if (selectedTournament) {
-      const fetchTournamentData = async () => {
-        try {
-          // Fetch players for the selected tournament
-          const players = await getTournamentPlayers(selectedTournament);
-          setPlayers(players);
-        } catch (error) {
-          console.error('Error fetching tournament players:', error);
-        }
-
-        try {
-          // Fetch standings for the selected tournament
-          const standings = await getTournamentStandings(selectedTournament);
-          setTable(standings);
-        } catch (error) {
-          console.error('Error fetching tournament standings:', error);
-        }
-      };
 
-      fetchTournamentData();
-    }
-  }, [selectedTournament]);
+    return () => controller.abort();
+  }, []);
 
   const tabs = [
     { id: 'tournament', label: 'Table', icon: TableIcon },
     { id: 'history', label: 'Matches', icon: CalendarIcon },
+    hasBracket
+      ? { id: 'fixtures', label: 'Bracket', icon: BracketIcon }
+      : {
+          id: 'fixtures',
+          label: swiss ? 'Rounds' : 'Fixtures',
+          icon: FixturesIcon,
+        },
     { id: 'log-match', label: 'Log Match', icon: PlusIcon },
     { id: 'friends', label: 'Friends', icon: UserIcon },
     { id: 'settings', label: 'Tournament', icon: HierarchyIcon },
@@ -181,29 +338,6 @@ function HomeContent() {
       setPrePopulatedMatch(null);
     }
 
-    if (tabId === 'tournament' && selectedTournament) {
-      try {
-        const standings = await getTournamentStandings(selectedTournament);
-        setTable(standings);
-      } catch (error) {
-        console.error('Error fetching tournament standings:', error);
-      }
-    }
-
-    if (tabId === 'history' && selectedTournament) {
-      try {
-        const paginatedMatches = await getTournamentMatches(
-          selectedTournament,
-          currentPage,
-          pageSize
-        );
-        setMatchesPagination(paginatedMatches);
-        setMatches(paginatedMatches.items);
-      } catch (error) {
-        console.error('Error fetching match history:', error);
-      }
-    }
-
     if (tabId === 'friends' && friends.length === 0 && !isLoadingFriends) {
       try {
         setIsLoadingFriends(true);
@@ -217,23 +351,13 @@ function HomeContent() {
     }
   };
 
-  const refreshMatches = async () => {
-    if (selectedTournament) {
-      try {
-        const paginatedMatches = await getTournamentMatches(
-          selectedTournament,
-          currentPage,
-          pageSize
-        );
-        setMatchesPagination(paginatedMatches);
-        setMatches(paginatedMatches.items);
-
-        // Also refresh standings since match results affect the table
-        const standings = await getTournamentStandings(selectedTournament);
-        setTable(standings);
-      } catch (error) {
-        console.error('Error refreshing matches:', error);
-      }
+  // Swap in a tournament changed from this page, e.g. by a draft pick
+  const handleTournamentUpdated = (updated: Tournament) => {
+    setTournaments(prev =>
+      prev.map(other => (other.id === updated.id ? updated : other))
+    );
+    if (tournament?.id === updated.id) {
+      setTournament(updated);
     }
   };
 
@@ -284,20 +408,65 @@ function HomeContent() {
     }
   };
 
-  const handlePageChange = async (newPage: number) => {
-    if (selectedTournament) {
-      setCurrentPage(newPage);
-      try {
-        const paginatedMatches = await getTournamentMatches(
-          selectedTournament,
-          newPage,
-          pageSize
-        );
-        setMatchesPagination(paginatedMatches);
-        setMatches(paginatedMatches.items);
-      } catch (error) {
-        console.error('Error fetching matches for page:', error);
-      }
+  const handlePageChange = (newPage: number) => {
+    // The matches query follows the page number
+    setCurrentPage(newPage);
+  };
+
+  // Open LogMatch with the fixture's players; the home player is player 1
+  const handleFixtureClick = (fixture: Fixture) => {
+    setPrePopulatedMatch({
+      player1_id: fixture.home_id,
+      player2_id: fixture.away_id,
+      team1: '',
+      team2: '',
+      player1_goals: 0,
+      player2_goals: 0,
+      half_length: 3,
+      completed: true,
+    });
+
+    const params = new URLSearchParams(searchParams.toString());
+    params.set('tab', 'log-match');
+    router.push(`/?${params.toString()}`, { scroll: false });
+    setActiveTab('log-match');
+  };
+
+  // Open LogMatch for the next match of a knockout tie; the slot is sent
+  // with the result so the bracket can advance the winner
+  const handleTieMatchClick = (slot: string, next: NextTieMatch) => {
+    setPrePopulatedMatch({
+      player1_id: next.host_id,
+      player2_id: next.visitor_id,
+      team1: '',
+      team2: '',
+      player1_goals: 0,
+      player2_goals: 0,
+      half_length: 3,
+      completed: true,
+      bracket_slot: slot,
+    });
+
+    const params = new URLSearchParams(searchParams.toString());
+    params.set('tab', 'log-match');
+    router.push(`/?${params.toString()}`, { scroll: false });
+    setActiveTab('log-match');
+  };
+
+  const handleDiscardPending = async (idempotencyKey: string) => {
+    try {
+      await discardPendingMatch(idempotencyKey);
+    } catch (error) {
+      console.error('Error discarding queued match:', error);
+    }
+  };
+
+  const handleLogPendingAsStandalone = async (idempotencyKey: string) => {
+    try {
+      await retryPendingMatchAsStandalone(idempotencyKey);
+      syncNow();
+    } catch (error) {
+      console.error('Error re-queueing match:', error);
     }
   };
 
@@ -390,6 +559,15 @@ function HomeContent() {
                       >
                         View Profile
                       </button>
+                      <button
+                        onClick={() => {
+                          router.push(`/compare?players=${user?.id ?? ''}`);
+                          setIsMenuOpen(false);
+                        }}
+                        className="w-full text-left px-4 py-2 text-sm text-gray-300 hover:bg-[#2d3748] hover:text-white transition-colors"
+                      >
+                        Compare Players
+                      </button>
                       <button
                         onClick={() => {
                           signOut();
@@ -474,13 +652,127 @@ function HomeContent() {
 
         {/* Main Content */}
         <div className="max-w-6xl mx-auto px-4 pb-6">
-          {activeTab === 'tournament' && (
-            <TournamentStandings standings={table} />
+          <OfflineBanner />
+
+          {activeTab === 'tournament' && currentTournament?.draft && (
+            <DraftBoard
+              tournament={currentTournament}
+              draft={currentTournament.draft}
+              players={players}
+              canPick={
+                (currentTournament.owner_id || null) === (user?.id || null)
+              }
+              onPicked={handleTournamentUpdated}
+            />
+          )}
+
+          {activeTab === 'tournament' && groupStage && (
+            <GroupStandings
+              settings={groupStage}
+              tables={buildGroupTables(
+                groupStage,
+                players,
+                resolvedMatches,
+                rules,
+                selectedTournament
+              )}
+              isLoading={allMatchesQuery.isLoading}
+            />
           )}
 
+          {activeTab === 'tournament' && swiss && (
+            <TournamentStandings
+              standings={swiss.standings}
+              subtitle="Ties are broken by Buchholz, then Sonneborn-Berger"
+              extraColumns={[
+                {
+                  label: 'BH',
+                  title: "Buchholz: sum of the opponents' points",
+                  value: row => row.buchholz,
+                },
+                {
+                  label: 'SB',
+                  title:
+                    'Sonneborn-Berger: points of opponents beaten plus half the points of opponents drawn',
+                  value: row => row.sonneborn_berger,
+                },
+              ]}
+            />
+          )}
+
+          {activeTab === 'tournament' &&
+            !groupStage &&
+            !swiss &&
+            mismatchedPlayers.length > 0 && (
+              <div className="mb-4 p-3 bg-yellow-500/20 border border-yellow-500/30 rounded-lg">
+                <p className="text-yellow-300 text-sm">
+                  The server&apos;s table does not match the match history for{' '}
+                  {mismatchedPlayers.join(', ')}. Showing{' '}
+                  {includesPending
+                    ? 'the table rebuilt from the match history'
+                    : "the server's table"}
+                  .
+                </p>
+              </div>
+            )}
+
+          {activeTab === 'tournament' && !groupStage && !swiss && (
+            <TournamentStandings
+              standings={leagueTable}
+              subtitle={
+                includesPending
+                  ? `Includes ${pendingLeagueMatches.length} ${
+                      pendingLeagueMatches.length === 1 ? 'match' : 'matches'
+                    } waiting to sync`
+                  : undefined
+              }
+            />
+          )}
+
+          {activeTab === 'tournament' &&
+            currentTournament &&
+            !groupStage &&
+            !swiss &&
+            !hasBracket && (
+              <div className="mt-4 space-y-4">
+                <TitleOdds
+                  key={selectedTournament}
+                  tournamentId={selectedTournament}
+                  playerIds={currentTournament.player_ids}
+                  format={getFixtureFormat(currentTournament)}
+                  players={players}
+                  matches={[...resolvedMatches, ...pendingLeagueMatches]}
+                  rules={rules}
+                  isLoading={allMatchesQuery.isLoading}
+                />
+                <button
+                  type="button"
+                  onClick={() => setShowWhatIf(!showWhatIf)}
+                  className="w-full px-4 py-3 rounded-lg text-sm font-medium bg-[#1a1f2e] text-gray-300 hover:bg-[#2d3748] hover:text-white transition-colors"
+                >
+                  {showWhatIf ? 'Hide the what-if simulator' : 'What if...?'}
+                </button>
+                {showWhatIf && (
+                  <WhatIfSimulator
+                    key={selectedTournament}
+                    tournamentId={selectedTournament}
+                    playerIds={currentTournament.player_ids}
+                    format={getFixtureFormat(currentTournament)}
+                    players={players}
+                    matches={[...resolvedMatches, ...pendingLeagueMatches]}
+                    rules={rules}
+                    isLoading={allMatchesQuery.isLoading}
+                  />
+                )}
+              </div>
+            )}
+
           {activeTab === 'history' && (
             <MatchHistory
               matches={matches}
+              pendingMatches={tournamentPendingMatches}
+              onDiscardPending={handleDiscardPending}
+              onLogPendingAsStandalone={handleLogPendingAsStandalone}
               tournamentId={selectedTournament}
               isTournamentCreator={
                 (tournaments.find(t => t.id === selectedTournament)?.owner_id ||
@@ -490,11 +782,57 @@ function HomeContent() {
                 tournaments.find(t => t.id === selectedTournament)?.completed ||
                 false
               }
-              onMatchUpdated={refreshMatches}
               onPageChange={handlePageChange}
               currentPage={currentPage}
               totalPages={matchesPagination?.total_pages || 1}
               onMatchClick={handleMatchClick}
+              ratingChanges={eloReplay?.changes}
+              customTeams={players.flatMap(player => player.custom_teams ?? [])}
+            />
+          )}
+
+          {activeTab === 'fixtures' && currentTournament && hasBracket && (
+            <KnockoutBracket
+              tournament={currentTournament}
+              players={players}
+              matches={allMatches}
+              isLoading={allMatchesQuery.isLoading}
+              onLogTieMatch={handleTieMatchClick}
+            />
+          )}
+
+          {activeTab === 'fixtures' && swiss && swissSettings && (
+            <SwissRounds
+              swiss={swiss}
+              totalRounds={swissSettings.rounds}
+              players={players}
+              isLoading={allMatchesQuery.isLoading}
+              isTournamentCompleted={currentTournament?.completed || false}
+              onPairingClick={handleFixtureClick}
+            />
+          )}
+
+          {activeTab === 'fixtures' && !hasBracket && !swiss && (
+            <Fixtures
+              key={selectedTournament}
+              tournamentId={selectedTournament}
+              playerIds={
+                tournaments.find(t => t.id === selectedTournament)
+                  ?.player_ids || []
+              }
+              format={getFixtureFormat(currentTournament)}
+              canChangeFormat={
+                (currentTournament?.owner_id || null) === (user?.id || null)
+              }
+              onTournamentUpdated={handleTournamentUpdated}
+              players={players}
+              matches={allMatches}
+              isLoading={allMatchesQuery.isLoading}
+              isTournamentCompleted={
+                tournaments.find(t => t.id === selectedTournament)?.completed ||
+                false
+              }
+              onFixtureClick={handleFixtureClick}
             />
           )}
 
@@ -1,10 +1,22 @@
 'use client';
 
+import HeadStartStatsNote from '@/components/HeadStartStatsNote';
 import { ArrowLeftIcon, TrophyIcon, UserIcon } from '@/components/Icons';
+import OfflineBanner from '@/components/OfflineBanner';
 import ProtectedRoute from '@/components/ProtectedRoute';
+import RatingHistory from '@/components/RatingHistory';
+import TeamStats from '@/components/TeamStats';
 import { useAuth } from '@/contexts/auth';
-import { getPlayerStats } from '@/lib/api';
-import { UserDetailedStats } from '@/types';
+import { useEloReplay } from '@/hooks/useEloReplay';
+import { useQuery } from '@/hooks/useQuery';
+import {
+  formatRatingDelta,
+  getPlayerStats,
+  getRatingTimeline,
+  getTeamAnalytics,
+  NotFoundError,
+  queryKeys,
+} from '@/lib/api';
 import { useRouter } from 'next/navigation';
 import { useEffect, useState } from 'react';
 
@@ -18,12 +30,6 @@ export default function PlayerProfilePage({ params }: PlayerProfilePageProps) {
   const [id, setId] = useState<string>('');
   const { isLoading: authLoading } = useAuth();
   const router = useRouter();
-  const [playerStats, setPlayerStats] = useState<UserDetailedStats | null>(
-    null
-  );
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
   // Resolve params
   useEffect(() => {
     const resolveParams = async () => {
@@ -33,31 +39,27 @@ export default function PlayerProfilePage({ params }: PlayerProfilePageProps) {
     resolveParams();
   }, [params]);
 
-  useEffect(() => {
-    const fetchPlayerStats = async () => {
-      if (authLoading || !id) {
-        return;
-      }
-
-      try {
-        setLoading(true);
-        setError(null);
-        const stats = await getPlayerStats(id);
-        if (stats) {
-          setPlayerStats(stats);
-        } else {
-          setError('Player not found');
-        }
-      } catch (error) {
-        console.error('Error fetching player stats:', error);
-        setError('Failed to load player data');
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    fetchPlayerStats();
-  }, [id, authLoading]);
+  // Cached per player; revisiting a profile renders immediately
+  const statsQuery = useQuery(
+    !authLoading && id ? queryKeys.userStats(id) : null,
+    options => getPlayerStats(id, options)
+  );
+  const playerStats = statsQuery.data ?? null;
+  const loading = !id || statsQuery.isLoading;
+  // The rating history is replayed from every match on the client
+  const elo = useEloReplay(!authLoading && !!id);
+  const timeline = elo.replay ? getRatingTimeline(elo.replay, id) : [];
+  const getRatingChange = (date: string, opponentId: string) =>
+    timeline.find(
+      point =>
+        point.opponent_id === opponentId &&
+        new Date(point.date).getTime() === new Date(date).getTime()
+    );
+  const error = statsQuery.error
+    ? statsQuery.error instanceof NotFoundError
+      ? 'Player not found'
+      : 'Failed to load player data'
+    : null;
 
   if (authLoading || loading) {
     return (
@@ -141,6 +143,8 @@ export default function PlayerProfilePage({ params }: PlayerProfilePageProps) {
 
         {/* Player Profile Content */}
         <div className="max-w-4xl mx-auto px-4 py-8">
+          <OfflineBanner />
+
           <div className="bg-[#1a1f2e] rounded-lg p-6">
             {/* Player Header */}
             <div className="flex items-center gap-4 mb-6">
@@ -226,6 +230,17 @@ export default function PlayerProfilePage({ params }: PlayerProfilePageProps) {
                 </div>
               </div>
 
+              <HeadStartStatsNote playerId={id} />
+
+              {/* Rating History */}
+              <RatingHistory
+                timeline={timeline}
+                players={elo.players}
+                settings={elo.settings}
+                onSettingsChange={elo.updateSettings}
+                isLoading={elo.isLoading}
+              />
+
               {/* Goals Stats */}
               <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                 <div className="bg-[#2d3748] rounded-lg p-4 text-center">
@@ -354,6 +369,16 @@ export default function PlayerProfilePage({ params }: PlayerProfilePageProps) {
                   </div>
                 )}
 
+              {/* Team Usage */}
+              <TeamStats
+                analytics={getTeamAnalytics(
+                  elo.matches,
+                  id,
+                  elo.players.find(player => player.id === id)?.custom_teams
+                )}
+                isLoading={elo.isLoading}
+              />
+
               {/* Last 5 Matches */}
               {playerStats.last_5_matches &&
                 playerStats.last_5_matches.length > 0 && (
@@ -411,6 +436,10 @@ export default function PlayerProfilePage({ params }: PlayerProfilePageProps) {
                         const resultStyling = getResultStyling(
                           match.match_result
                         );
+                        const ratingChange = getRatingChange(
+                          match.date,
+                          match.opponent_id
+                        );
 
                         return (
                           <div
@@ -437,7 +466,21 @@ export default function PlayerProfilePage({ params }: PlayerProfilePageProps) {
                                         {match.current_player_goals} -{' '}
                                         {match.opponent_goals}
                                       </span>
-                                      <div className="md:hidden">
+                                      <div className="md:hidden flex items-center gap-2">
+                                        {ratingChange && (
+                                          <span
+                                            className={`text-xs ${
+                                              ratingChange.delta >= 0
+                                                ? 'text-green-400'
+                                                : 'text-red-400'
+                                            }`}
+                                            title="Elo change"
+                                          >
+                                            {formatRatingDelta(
+                                              ratingChange.delta
+                                            )}
+                                          </span>
+                                        )}
                                         <span
                                           className={`px-2 py-1 rounded-full text-sm font-medium ${resultStyling.badge}`}
                                         >
@@ -449,7 +492,19 @@ export default function PlayerProfilePage({ params }: PlayerProfilePageProps) {
                                       {match.opponent_username} ({match.team2})
                                     </span>
                                   </div>
-                                  <div className="hidden md:block text-xs">
+                                  <div className="hidden md:flex items-center gap-2 text-xs">
+                                    {ratingChange && (
+                                      <span
+                                        className={
+                                          ratingChange.delta >= 0
+                                            ? 'text-green-400'
+                                            : 'text-red-400'
+                                        }
+                                        title="Elo change"
+                                      >
+                                        {formatRatingDelta(ratingChange.delta)}
+                                      </span>
+                                    )}
                                     <span
                                       className={`px-2 py-1 rounded-full ${resultStyling.badge}`}
                                     >
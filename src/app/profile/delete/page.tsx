@@ -7,7 +7,7 @@ import {
 } from '@/components/Icons';
 import ProtectedRoute from '@/components/ProtectedRoute';
 import { useAuth } from '@/contexts/auth';
-import { deleteUserAccount } from '@/lib/api';
+import { deleteUserAccount, getErrorMessage } from '@/lib/api';
 import { useRouter } from 'next/navigation';
 import { useState } from 'react';
 
@@ -38,15 +38,13 @@ export default function DeleteAccountPage() {
     setError('');
 
     try {
-      const success = await deleteUserAccount(confirmationText);
-      if (success) {
-        signOut();
-        router.push('/auth');
-      } else {
-        setError('Failed to delete account. Please try again.');
-      }
-    } catch {
-      setError('An error occurred while deleting your account.');
+      await deleteUserAccount(confirmationText);
+      signOut();
+      router.push('/auth');
+    } catch (error) {
+      setError(
+        getErrorMessage(error, 'An error occurred while deleting your account.')
+      );
     } finally {
       setIsLoading(false);
     }
@@ -3,7 +3,11 @@
 import { ArrowLeftIcon, TrophyIcon, UserIcon } from '@/components/Icons';
 import ProtectedRoute from '@/components/ProtectedRoute';
 import { useAuth } from '@/contexts/auth';
-import { checkUsernameAvailability, updateUserProfile } from '@/lib/api';
+import {
+  checkUsernameAvailability,
+  getErrorMessage,
+  updateUserProfile,
+} from '@/lib/api';
 import { useRouter } from 'next/navigation';
 import { useCallback, useEffect, useRef, useState } from 'react';
 
@@ -102,7 +106,8 @@ export default function EditProfilePage() {
         formData.first_name,
         formData.last_name,
         formData.email,
-        formData.username
+        formData.username,
+        user?.custom_teams
       );
       if (updatedUser) {
         updateUser(updatedUser);
@@ -113,8 +118,10 @@ export default function EditProfilePage() {
       } else {
         setError('Failed to update profile. Please try again.');
       }
-    } catch {
-      setError('An error occurred while updating your profile.');
+    } catch (error) {
+      setError(
+        getErrorMessage(error, 'An error occurred while updating your profile.')
+      );
     } finally {
       setIsLoading(false);
     }
@@ -4,9 +4,11 @@ import FriendRequestsTab from '@/components/FriendRequestsTab';
 import FriendsTab from '@/components/FriendsTab';
 import { ArrowLeftIcon, TrophyIcon, UserIcon } from '@/components/Icons';
 import ProfileTab from '@/components/ProfileTab';
+import OfflineBanner from '@/components/OfflineBanner';
 import ProtectedRoute from '@/components/ProtectedRoute';
 import SuggestedPlayersTab from '@/components/SuggestedPlayersTab';
 import { useAuth } from '@/contexts/auth';
+import { useQuery } from '@/hooks/useQuery';
 import {
   acceptFriendRequest,
   getCurrentUserStats,
@@ -15,13 +17,9 @@ import {
   getRecentNonFriendOpponents,
   rejectFriendRequest,
   sendFriendRequest,
+  queryKeys,
 } from '@/lib/api';
-import {
-  Friend,
-  FriendRequestsResponse,
-  NonFriendPlayer,
-  UserDetailedStats,
-} from '@/types';
+import { Friend, FriendRequestsResponse, NonFriendPlayer } from '@/types';
 import { useRouter } from 'next/navigation';
 import { useEffect, useState } from 'react';
 
@@ -29,7 +27,6 @@ export default function ProfilePage() {
   const { user, signOut, isLoading: authLoading } = useAuth();
   const router = useRouter();
   const [isMenuOpen, setIsMenuOpen] = useState(false);
-  const [userStats, setUserStats] = useState<UserDetailedStats | null>(null);
   const [suggestedPlayers, setSuggestedPlayers] = useState<NonFriendPlayer[]>(
     []
   );
@@ -44,7 +41,6 @@ export default function ProfilePage() {
   const [sentFriendRequests, setSentFriendRequests] = useState<Set<string>>(
     new Set()
   );
-  const [loading, setLoading] = useState(true);
   const [activeTab, setActiveTab] = useState<
     'profile' | 'friends' | 'players-you-might-know' | 'friend-requests'
   >('profile');
@@ -66,26 +62,13 @@ export default function ProfilePage() {
     };
   }, [isMenuOpen]);
 
-  useEffect(() => {
-    const fetchUserStats = async () => {
-      // Don't fetch stats if auth is still loading or user is not available
-      if (authLoading || !user?.id) {
-        return;
-      }
-
-      try {
-        setLoading(true);
-        const stats = await getCurrentUserStats(user.id);
-        setUserStats(stats);
-      } catch (error) {
-        console.error('Error fetching user stats:', error);
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    fetchUserStats();
-  }, [user, authLoading]);
+  // Shares the user/:id/stats cache entry with the public profile page
+  const statsQuery = useQuery(
+    !authLoading && user?.id ? queryKeys.userStats(user.id) : null,
+    options => getCurrentUserStats(user?.id ?? '', options)
+  );
+  const userStats = statsQuery.data ?? null;
+  const loading = !user?.id || statsQuery.isLoading;
 
   // Fetch friends and suggested players on page load
   useEffect(() => {
@@ -258,6 +241,8 @@ export default function ProfilePage() {
 
         {/* Profile Content */}
         <div className="max-w-4xl mx-auto px-4 py-8">
+          <OfflineBanner />
+
           <div className="bg-[#1a1f2e] rounded-lg p-6">
             <div className="flex items-center gap-4 mb-6">
               <div className="w-16 h-16 bg-blue-500 rounded-full flex items-center justify-center">
@@ -0,0 +1,145 @@
+import { SeriesPoint } from '@/lib/api';
+
+export interface ChartSeries {
+  id: string;
+  label: string;
+  color: string;
+  points: SeriesPoint[];
+}
+
+interface ComparisonChartProps {
+  title: string;
+  series: ChartSeries[];
+  formatValue?: (value: number) => string;
+  emptyMessage?: string;
+}
+
+const WIDTH = 600;
+const HEIGHT = 200;
+const PADDING_X = 44;
+const PADDING_Y = 16;
+
+const formatDate = (time: number) =>
+  new Date(time).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+  });
+
+// Several players' series on one time axis
+export default function ComparisonChart({
+  title,
+  series,
+  formatValue = value => value.toFixed(2),
+  emptyMessage = 'No matches to chart yet',
+}: ComparisonChartProps) {
+  const points = series.flatMap(({ points }) => points);
+  const times = points.map(({ date }) => new Date(date).getTime());
+  const values = points.map(({ value }) => value);
+  const first = Math.min(...times);
+  const last = Math.max(...times);
+  const highest = Math.max(...values);
+  const lowest = Math.min(...values);
+
+  const x = (date: string) =>
+    PADDING_X +
+    ((new Date(date).getTime() - first) * (WIDTH - 2 * PADDING_X)) /
+      Math.max(last - first, 1);
+  const y = (value: number) =>
+    PADDING_Y +
+    ((highest - value) * (HEIGHT - 2 * PADDING_Y)) /
+      Math.max(highest - lowest, Number.EPSILON);
+
+  return (
+    <div className="bg-[#1a1f2e] rounded-lg p-4 sm:p-6">
+      <h3 className="text-lg font-bold mb-3">{title}</h3>
+      {points.length === 0 ? (
+        <p className="text-gray-400 text-center py-8">{emptyMessage}</p>
+      ) : (
+        <>
+          <svg
+            viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+            className="w-full h-auto"
+            role="img"
+            aria-label={title}
+          >
+            {Array.from(new Set([highest, lowest])).map(value => (
+              <g key={value}>
+                <line
+                  x1={PADDING_X}
+                  x2={WIDTH - PADDING_X}
+                  y1={y(value)}
+                  y2={y(value)}
+                  stroke="#4b5563"
+                  strokeDasharray="4 4"
+                />
+                <text
+                  x={PADDING_X - 6}
+                  y={y(value) + 4}
+                  textAnchor="end"
+                  fontSize="11"
+                  fill="#9ca3af"
+                >
+                  {formatValue(value)}
+                </text>
+              </g>
+            ))}
+            {[first, last].map((time, index) => (
+              <text
+                key={index}
+                x={index === 0 ? PADDING_X : WIDTH - PADDING_X}
+                y={HEIGHT - 2}
+                textAnchor={index === 0 ? 'start' : 'end'}
+                fontSize="11"
+                fill="#9ca3af"
+              >
+                {formatDate(time)}
+              </text>
+            ))}
+            {series.map(({ id, label, color, points }) =>
+              points.length === 1 ? (
+                <circle
+                  key={id}
+                  cx={x(points[0].date)}
+                  cy={y(points[0].value)}
+                  r="3"
+                  fill={color}
+                >
+                  <title>{`${label}: ${formatValue(points[0].value)}`}</title>
+                </circle>
+              ) : (
+                <polyline
+                  key={id}
+                  points={points
+                    .map(
+                      ({ date, value }) =>
+                        `${x(date).toFixed(1)},${y(value).toFixed(1)}`
+                    )
+                    .join(' ')}
+                  fill="none"
+                  stroke={color}
+                  strokeWidth="2"
+                  vectorEffect="non-scaling-stroke"
+                >
+                  <title>{`${label}: ${formatValue(
+                    points[points.length - 1].value
+                  )}`}</title>
+                </polyline>
+              )
+            )}
+          </svg>
+          <div className="flex flex-wrap justify-center gap-4 mt-2 text-xs">
+            {series.map(({ id, label, color }) => (
+              <span key={id} className="flex items-center gap-1 text-gray-400">
+                <span
+                  className="w-3 h-0.5 inline-block"
+                  style={{ backgroundColor: color }}
+                />
+                {label}
+              </span>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -6,6 +6,8 @@ import { useEffect, useRef, useState } from 'react';
 interface OptionItem {
   value: string;
   label: string;
+  // Consecutive options with the same group are listed under its heading
+  group?: string;
 }
 
 interface CustomDropdownProps {
@@ -47,6 +49,10 @@ export default function CustomDropdown({
     return isOptionItem(option) ? option.label : option;
   };
 
+  const getOptionGroup = (option: string | OptionItem): string | undefined => {
+    return isOptionItem(option) ? option.group : undefined;
+  };
+
   const getDisplayValue = (): string => {
     if (!value) return '';
     const option = options.find(opt => getOptionValue(opt) === value);
@@ -252,26 +258,39 @@ export default function CustomDropdown({
           {filteredOptions.length > 0 ? (
             <div role="listbox">
               {filteredOptions.map((option, index) => (
-                <button
-                  key={index}
-                  type="button"
-                  onClick={() => handleSelect(option)}
-                  onMouseEnter={() => setHighlightedIndex(index)}
-                  className={`w-full px-3 py-2 text-left text-sm sm:text-base hover:bg-[#374151] transition-colors ${
-                    getOptionValue(option) === value
-                      ? 'bg-blue-500 text-white'
-                      : index === highlightedIndex
-                        ? 'bg-[#374151] text-white'
-                        : 'text-white'
-                  } ${index === 0 && !searchable ? 'rounded-t-lg' : ''} ${index === filteredOptions.length - 1 ? 'rounded-b-lg' : ''}`}
-                  role="option"
-                  aria-selected={getOptionValue(option) === value}
-                >
-                  {getOptionValue(option) === value && (
-                    <span className="inline-block w-4 h-4 mr-2">✓</span>
-                  )}
-                  {getOptionLabel(option)}
-                </button>
+                <div key={index}>
+                  {getOptionGroup(option) &&
+                    getOptionGroup(option) !==
+                      (index > 0
+                        ? getOptionGroup(filteredOptions[index - 1])
+                        : undefined) && (
+                      <div
+                        role="presentation"
+                        className="px-3 pt-2 pb-1 text-xs font-medium uppercase tracking-wide text-gray-400"
+                      >
+                        {getOptionGroup(option)}
+                      </div>
+                    )}
+                  <button
+                    type="button"
+                    onClick={() => handleSelect(option)}
+                    onMouseEnter={() => setHighlightedIndex(index)}
+                    className={`w-full px-3 py-2 text-left text-sm sm:text-base hover:bg-[#374151] transition-colors ${
+                      getOptionValue(option) === value
+                        ? 'bg-blue-500 text-white'
+                        : index === highlightedIndex
+                          ? 'bg-[#374151] text-white'
+                          : 'text-white'
+                    } ${index === 0 && !searchable ? 'rounded-t-lg' : ''} ${index === filteredOptions.length - 1 ? 'rounded-b-lg' : ''}`}
+                    role="option"
+                    aria-selected={getOptionValue(option) === value}
+                  >
+                    {getOptionValue(option) === value && (
+                      <span className="inline-block w-4 h-4 mr-2">✓</span>
+                    )}
+                    {getOptionLabel(option)}
+                  </button>
+                </div>
               ))}
             </div>
           ) : (
@@ -0,0 +1,278 @@
+'use client';
+
+import { getStarRating } from '@/constants/teams';
+import { useAuth } from '@/contexts/auth';
+import {
+  getCustomTeamError,
+  getErrorMessage,
+  updateCustomTeams,
+} from '@/lib/api';
+import { CustomTeam } from '@/types';
+import { useState } from 'react';
+import { useToast } from './ToastProvider';
+
+const EMPTY_TEAM: CustomTeam = {
+  id: '',
+  name: '',
+  code: '',
+  color: '#1e40af',
+  secondary_color: '#ffffff',
+};
+
+const isSameTeam = (team: CustomTeam, other: CustomTeam) =>
+  team.id === other.id &&
+  team.name === other.name &&
+  team.code === other.code &&
+  team.color === other.color &&
+  team.secondary_color === other.secondary_color &&
+  team.overall === other.overall;
+
+const inputClassName =
+  'w-full bg-[#1a1f2e] border border-gray-600 rounded-lg px-3 py-2 text-white text-sm';
+
+export default function CustomTeamsEditor() {
+  const { user, updateUser } = useAuth();
+  const { showToast } = useToast();
+  // The team being added or edited; null while the form is closed
+  const [draft, setDraft] = useState<CustomTeam | null>(null);
+  // Delete takes a second click to confirm
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const customTeams = user?.custom_teams ?? [];
+
+  const saveTeams = async (teams: CustomTeam[], successMessage: string) => {
+    if (!user) return false;
+    setIsSaving(true);
+    try {
+      const updated = await updateCustomTeams(user, teams);
+      const saved = updated.custom_teams ?? [];
+      updateUser({ ...user, ...updated, custom_teams: saved });
+      // Show what the server kept, and say so when it differs from the edit
+      if (
+        saved.length !== teams.length ||
+        !teams.every((team, index) => isSameTeam(team, saved[index]))
+      ) {
+        showToast(
+          'Your teams were not saved as entered. Check them and try again.',
+          'error'
+        );
+        return false;
+      }
+      showToast(successMessage, 'success');
+      return true;
+    } catch (error) {
+      console.error('Error saving custom teams:', error);
+      showToast(getErrorMessage(error, 'Failed to save your teams'), 'error');
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    const team = {
+      ...draft,
+      name: draft.name.trim(),
+      id:
+        draft.id ||
+        `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`,
+    };
+    const error = getCustomTeamError(team, customTeams);
+    if (error) {
+      showToast(error, 'error');
+      return;
+    }
+    const isNew = !customTeams.some(other => other.id === team.id);
+    const saved = await saveTeams(
+      isNew
+        ? [...customTeams, team]
+        : customTeams.map(other => (other.id === team.id ? team : other)),
+      isNew ? `${team.name} added` : `${team.name} updated`
+    );
+    if (saved) {
+      setDraft(null);
+    }
+  };
+
+  // Matches played with a deleted team keep its name
+  const handleDelete = (team: CustomTeam) => {
+    if (deletingId !== team.id) {
+      setDeletingId(team.id);
+      return;
+    }
+    setDeletingId(null);
+    saveTeams(
+      customTeams.filter(other => other.id !== team.id),
+      `${team.name} deleted`
+    );
+  };
+
+  return (
+    <div className="border-b border-gray-700 pb-6">
+      <div className="flex items-center justify-between mb-1">
+        <h3 className="text-lg font-semibold">My Teams</h3>
+        {!draft && (
+          <button
+            type="button"
+            onClick={() => setDraft(EMPTY_TEAM)}
+            className="text-sm text-blue-400 hover:text-blue-300"
+          >
+            + Add team
+          </button>
+        )}
+      </div>
+      <p className="text-sm text-gray-400 mb-4">
+        Ultimate Team, Pro Clubs or any other squad that is not in the team
+        list. They show up under &quot;My teams&quot; when logging a match.
+      </p>
+
+      {customTeams.length === 0 && !draft && (
+        <p className="text-gray-400 text-sm">No custom teams yet</p>
+      )}
+
+      {customTeams.length > 0 && (
+        <div className="space-y-2 mb-4">
+          {customTeams.map(team => (
+            <div
+              key={team.id}
+              className="flex items-center gap-3 bg-[#2d3748] rounded-lg px-3 py-2"
+            >
+              <span
+                className="w-6 h-6 rounded-full border border-gray-600 flex-shrink-0"
+                style={{
+                  background: `linear-gradient(135deg, ${team.color} 50%, ${team.secondary_color} 50%)`,
+                }}
+              />
+              <div className="flex-1 min-w-0">
+                <div className="text-white truncate">{team.name}</div>
+                <div className="text-xs text-gray-400">
+                  {team.code}
+                  {team.overall
+                    ? ` · ${team.overall} overall · ${getStarRating(team.overall)}★`
+                    : ' · unrated'}
+                </div>
+              </div>
+              <button
+                type="button"
+                onClick={() => {
+                  setDeletingId(null);
+                  setDraft(team);
+                }}
+                disabled={isSaving}
+                className="text-sm text-blue-400 hover:text-blue-300 disabled:opacity-50"
+              >
+                Edit
+              </button>
+              <button
+                type="button"
+                onClick={() => handleDelete(team)}
+                disabled={isSaving}
+                className="text-sm text-red-400 hover:text-red-300 disabled:opacity-50"
+              >
+                {deletingId === team.id ? 'Confirm delete' : 'Delete'}
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {draft && (
+        <div className="bg-[#2d3748] border border-gray-600 rounded-lg p-4 space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">Name</label>
+              <input
+                type="text"
+                value={draft.name}
+                onChange={e => setDraft({ ...draft, name: e.target.value })}
+                placeholder="e.g. Sunday League FC"
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">
+                Short code
+              </label>
+              <input
+                type="text"
+                value={draft.code}
+                maxLength={4}
+                onChange={e =>
+                  setDraft({ ...draft, code: e.target.value.toUpperCase() })
+                }
+                placeholder="e.g. SLFC"
+                className={inputClassName}
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-3 gap-3">
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">
+                Primary colour
+              </label>
+              <input
+                type="color"
+                value={draft.color}
+                onChange={e => setDraft({ ...draft, color: e.target.value })}
+                className="w-full h-10 bg-[#1a1f2e] border border-gray-600 rounded-lg"
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">
+                Secondary colour
+              </label>
+              <input
+                type="color"
+                value={draft.secondary_color}
+                onChange={e =>
+                  setDraft({ ...draft, secondary_color: e.target.value })
+                }
+                className="w-full h-10 bg-[#1a1f2e] border border-gray-600 rounded-lg"
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">
+                Overall (optional)
+              </label>
+              <input
+                type="number"
+                min={1}
+                max={99}
+                value={draft.overall ?? ''}
+                onChange={e =>
+                  setDraft({
+                    ...draft,
+                    overall:
+                      e.target.value === ''
+                        ? undefined
+                        : Number(e.target.value),
+                  })
+                }
+                className={inputClassName}
+              />
+            </div>
+          </div>
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => setDraft(null)}
+              disabled={isSaving}
+              className="px-4 py-2 rounded-lg text-sm text-gray-300 hover:bg-[#374151] transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={isSaving}
+              className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg text-sm transition-colors disabled:bg-gray-500 disabled:cursor-not-allowed"
+            >
+              {isSaving ? 'Saving...' : 'Save team'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,176 @@
+import {
+  ConflictError,
+  draftTeam,
+  findTeam,
+  getDraftSlots,
+  getEditionTeams,
+  getErrorMessage,
+  getNextDraftSlot,
+  getTournament,
+  getTournamentEdition,
+} from '@/lib/api';
+import { TeamDraft, Tournament, User } from '@/types';
+import { useState } from 'react';
+import CustomDropdown from './CustomDropdown';
+import { useToast } from './ToastProvider';
+
+interface DraftBoardProps {
+  tournament: Tournament;
+  draft: TeamDraft;
+  players: User[];
+  // Only the tournament owner can save picks
+  canPick: boolean;
+  onPicked: (tournament: Tournament) => void;
+}
+
+export default function DraftBoard({
+  tournament,
+  draft,
+  players,
+  canPick,
+  onPicked,
+}: DraftBoardProps) {
+  const { showToast } = useToast();
+  const [team, setTeam] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const edition = getTournamentEdition(tournament);
+  const slots = getDraftSlots(draft);
+  const nextSlot = getNextDraftSlot(draft);
+  const draftedTeams = draft.picks.map(pick => pick.team);
+  // Best teams first
+  const availableTeams = getEditionTeams(edition)
+    .filter(info => !draftedTeams.includes(info.name))
+    .sort((a, b) => b.overall - a.overall)
+    .map(info => ({
+      value: info.name,
+      label: `${info.name} · ${info.stars}★ (${info.overall})`,
+    }));
+
+  const getPlayerName = (playerId: string) => {
+    const player = players.find(p => p.id === playerId);
+    return player?.first_name || player?.username || 'Unknown player';
+  };
+
+  const getTeamLabel = (name: string) => {
+    const info = findTeam(name, edition);
+    return info ? `${info.stars}★` : '';
+  };
+
+  const handlePick = async () => {
+    if (!nextSlot || !team) return;
+    setIsSaving(true);
+    try {
+      const updated = await draftTeam(tournament.id, nextSlot.player_id, team);
+      setTeam('');
+      onPicked(updated);
+    } catch (error) {
+      console.error('Error saving draft pick:', error);
+      showToast(getErrorMessage(error, 'Failed to save the pick'), 'error');
+      // Someone else's pick got there first: show the board as it is now
+      if (error instanceof ConflictError) {
+        setTeam('');
+        getTournament(tournament.id)
+          .then(onPicked)
+          .catch(refreshError =>
+            console.error('Error reloading the draft:', refreshError)
+          );
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-[#1a1f2e] rounded-lg p-4 sm:p-6 mb-4">
+      <div className="flex items-center justify-between mb-1">
+        <h3 className="text-lg font-bold">Team Draft</h3>
+        <span className="text-xs text-gray-400">
+          {draft.picks.length}/{slots.length} picks
+        </span>
+      </div>
+      <p className="text-sm text-gray-400 mb-4">
+        {nextSlot
+          ? `Round ${nextSlot.round}, pick ${nextSlot.pick}: ${getPlayerName(nextSlot.player_id)} is on the clock`
+          : 'Draft complete. Every match is played with a drafted team.'}
+      </p>
+
+      {nextSlot &&
+        (canPick ? (
+          <div className="flex flex-col sm:flex-row gap-2 mb-4">
+            <CustomDropdown
+              options={availableTeams}
+              value={team}
+              onChange={setTeam}
+              placeholder={`Pick a team for ${getPlayerName(nextSlot.player_id)}`}
+              searchable={true}
+              className="flex-1"
+            />
+            <button
+              type="button"
+              onClick={handlePick}
+              disabled={!team || isSaving}
+              className="bg-blue-500 hover:bg-blue-600 text-white font-medium px-4 py-2 rounded-lg transition-colors text-sm disabled:bg-gray-500 disabled:text-gray-300 disabled:cursor-not-allowed"
+            >
+              {isSaving ? 'Saving...' : 'Draft'}
+            </button>
+          </div>
+        ) : (
+          <p className="text-xs text-gray-400 mb-4">
+            The tournament owner enters each pick.
+          </p>
+        ))}
+
+      {/* One column per player in first-round order, one row per round */}
+      <div className="bg-[#2d3748] rounded-lg p-4 overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-gray-400 text-left">
+              <th className="py-2 pr-2 font-medium">Round</th>
+              {draft.order.map(playerId => (
+                <th key={playerId} className="py-2 px-2 font-medium">
+                  {getPlayerName(playerId)}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {Array.from({ length: draft.rounds }, (_, index) => (
+              <tr key={index} className="border-t border-gray-600">
+                <td className="py-2 pr-2 text-gray-400">{index + 1}</td>
+                {draft.order.map(playerId => {
+                  const slot = slots.find(
+                    other =>
+                      other.round === index + 1 && other.player_id === playerId
+                  );
+                  const isNext = slot?.pick === nextSlot?.pick;
+                  return (
+                    <td
+                      key={playerId}
+                      className={`py-2 px-2 ${isNext ? 'text-yellow-400' : ''}`}
+                    >
+                      {slot?.team ? (
+                        <>
+                          <div className="truncate max-w-[10rem]">
+                            {slot.team}
+                          </div>
+                          <div className="text-xs text-gray-500">
+                            #{slot.pick} {getTeamLabel(slot.team)}
+                          </div>
+                        </>
+                      ) : (
+                        <span className="text-xs text-gray-500">
+                          {isNext ? 'On the clock' : `Pick ${slot?.pick}`}
+                        </span>
+                      )}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
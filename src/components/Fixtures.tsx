@@ -0,0 +1,209 @@
+import {
+  assignResultsToFixtures,
+  generateRoundRobin,
+  getErrorMessage,
+  groupFixturesByMatchday,
+  resolveMatchPlayers,
+  updateTournament,
+} from '@/lib/api';
+import {
+  Fixture,
+  MatchResult,
+  RoundRobinFormat,
+  Tournament,
+  User,
+} from '@/types';
+import { useState } from 'react';
+import { useToast } from './ToastProvider';
+
+interface FixturesProps {
+  tournamentId: string;
+  playerIds: string[];
+  // Saved on the tournament; only the owner can change it
+  format: RoundRobinFormat;
+  canChangeFormat?: boolean;
+  onTournamentUpdated?: (tournament: Tournament) => void;
+  players: User[];
+  // Every match logged in the tournament (not just the current page)
+  matches: MatchResult[];
+  isLoading?: boolean;
+  isTournamentCompleted?: boolean;
+  onFixtureClick?: (fixture: Fixture) => void;
+}
+
+export default function Fixtures({
+  tournamentId,
+  playerIds,
+  format,
+  canChangeFormat = false,
+  onTournamentUpdated,
+  players,
+  matches,
+  isLoading = false,
+  isTournamentCompleted = false,
+  onFixtureClick,
+}: FixturesProps) {
+  const { showToast } = useToast();
+  const [showPlayed, setShowPlayed] = useState(false);
+  const [isSavingFormat, setIsSavingFormat] = useState(false);
+
+  const handleFormatChange = async (newFormat: RoundRobinFormat) => {
+    if (newFormat === format) return;
+    setIsSavingFormat(true);
+    try {
+      const updated = await updateTournament(
+        tournamentId,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        { fixture_format: newFormat }
+      );
+      onTournamentUpdated?.(updated);
+    } catch (error) {
+      console.error('Error saving fixture format:', error);
+      showToast(
+        getErrorMessage(error, 'Failed to change the fixture format'),
+        'error'
+      );
+    } finally {
+      setIsSavingFormat(false);
+    }
+  };
+
+  const getPlayerName = (playerId: string) => {
+    const player = players.find(p => p.id === playerId);
+    return player?.first_name || player?.username || 'Unknown player';
+  };
+
+  const fixtures = assignResultsToFixtures(
+    generateRoundRobin(playerIds, format),
+    resolveMatchPlayers(matches, players)
+  );
+  // Score from the home player's point of view
+  const getFixtureScore = (fixture: (typeof fixtures)[number]) => {
+    if (!fixture.result) return 'vs';
+    const { player1_id, match } = fixture.result;
+    return player1_id === fixture.home_id
+      ? `${match.player1_goals} - ${match.player2_goals}`
+      : `${match.player2_goals} - ${match.player1_goals}`;
+  };
+
+  const playedCount = fixtures.filter(fixture => fixture.result).length;
+  const visibleFixtures = showPlayed
+    ? fixtures
+    : fixtures.filter(fixture => !fixture.result);
+  const matchdays = groupFixturesByMatchday(visibleFixtures);
+
+  return (
+    <div className="bg-[#1a1f2e] rounded-lg p-4 sm:p-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
+        <div>
+          <h2 className="text-xl sm:text-2xl font-bold">Fixtures</h2>
+          {fixtures.length > 0 && (
+            <p className="text-sm text-gray-400 mt-1">
+              {playedCount} of {fixtures.length} played
+            </p>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="flex bg-[#2d3748] rounded-lg p-1">
+            {(['single', 'double'] as RoundRobinFormat[]).map(option => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => handleFormatChange(option)}
+                disabled={!canChangeFormat || isSavingFormat}
+                title={
+                  canChangeFormat
+                    ? undefined
+                    : 'Only the tournament owner can change the format'
+                }
+                className={`px-3 py-1 rounded-md text-xs sm:text-sm font-medium transition-colors disabled:cursor-not-allowed ${
+                  format === option
+                    ? 'bg-blue-500 text-white'
+                    : 'text-gray-400 enabled:hover:text-white'
+                }`}
+              >
+                {option === 'single' ? 'Single' : 'Double'}
+              </button>
+            ))}
+          </div>
+          <button
+            type="button"
+            onClick={() => setShowPlayed(!showPlayed)}
+            className="px-3 py-2 rounded-lg text-xs sm:text-sm font-medium bg-[#2d3748] text-gray-300 hover:bg-[#374151] hover:text-white transition-colors"
+          >
+            {showPlayed ? 'Hide played' : 'Show played'}
+          </button>
+        </div>
+      </div>
+
+      {playerIds.length < 2 ? (
+        <div className="text-center py-8">
+          <p className="text-gray-400 text-lg">Not enough players</p>
+          <p className="text-gray-500 text-sm mt-2">
+            Add at least two players to the tournament to generate fixtures
+          </p>
+        </div>
+      ) : isLoading ? (
+        <div className="text-center py-8">
+          <p className="text-gray-400">Loading fixtures...</p>
+        </div>
+      ) : matchdays.length === 0 ? (
+        <div className="text-center py-8">
+          <p className="text-gray-400 text-lg">All fixtures played</p>
+          <p className="text-gray-500 text-sm mt-2">
+            Every player has met every other player
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {matchdays.map(({ matchday, fixtures: dayFixtures }) => (
+            <div key={matchday} className="space-y-3">
+              <h3 className="text-lg font-semibold text-gray-300 border-b border-gray-600 pb-2">
+                Matchday {matchday}
+              </h3>
+              {dayFixtures.map(fixture => (
+                <div
+                  key={fixture.id}
+                  className={`rounded-lg p-3 sm:p-4 flex items-center gap-3 ${
+                    fixture.result
+                      ? 'bg-[#1e293b] border border-green-600/40'
+                      : 'bg-[#2d3748] border border-gray-600'
+                  }`}
+                >
+                  <div className="font-semibold text-sm sm:text-base text-white flex-1 text-left">
+                    {getPlayerName(fixture.home_id)}
+                  </div>
+                  <div className="bg-gray-700 px-3 py-1 rounded-lg text-sm font-bold text-white min-w-[64px] text-center flex-shrink-0">
+                    {getFixtureScore(fixture)}
+                  </div>
+                  <div className="font-semibold text-sm sm:text-base text-white flex-1 text-right">
+                    {getPlayerName(fixture.away_id)}
+                  </div>
+                  {!fixture.result && onFixtureClick && (
+                    <button
+                      type="button"
+                      onClick={() => onFixtureClick(fixture)}
+                      disabled={isTournamentCompleted}
+                      className={`px-3 py-2 rounded-lg text-sm font-medium transition-all duration-200 ${
+                        isTournamentCompleted
+                          ? 'bg-gray-500 text-gray-300 cursor-not-allowed'
+                          : 'bg-blue-500 hover:bg-blue-600 text-white'
+                      }`}
+                    >
+                      Log
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
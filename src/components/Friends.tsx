@@ -1,7 +1,12 @@
 'use client';
 
 import { UserIcon } from '@/components/Icons';
-import { searchUsers, sendFriendRequest } from '@/lib/api';
+import {
+  getErrorMessage,
+  isCancelledError,
+  searchUsers,
+  sendFriendRequest,
+} from '@/lib/api';
 import { Friend, UserSearchResult } from '@/types';
 import { useRouter } from 'next/navigation';
 import { useEffect, useState } from 'react';
@@ -25,21 +30,34 @@ export default function Friends({ friends, isLoadingFriends }: FriendsProps) {
       return;
     }
 
+    // Abort the in-flight search when the query changes
+    const controller = new AbortController();
+
     const timeoutId = setTimeout(async () => {
       try {
         setIsSearching(true);
-        const results = await searchUsers(searchQuery, 20);
+        const results = await searchUsers(searchQuery, 20, {
+          signal: controller.signal,
+        });
         setSearchResults(results);
       } catch (error) {
+        if (isCancelledError(error)) return;
         console.error('Error searching users:', error);
-        setError('Failed to search users. Please try again.');
+        setError(
+          getErrorMessage(error, 'Failed to search users. Please try again.')
+        );
         setSearchResults([]);
       } finally {
-        setIsSearching(false);
+        if (!controller.signal.aborted) {
+          setIsSearching(false);
+        }
       }
     }, 300);
 
-    return () => clearTimeout(timeoutId);
+    return () => {
+      clearTimeout(timeoutId);
+      controller.abort();
+    };
   }, [searchQuery]);
 
   const handleSendFriendRequest = async (userId: string) => {
@@ -53,7 +71,12 @@ export default function Friends({ friends, isLoadingFriends }: FriendsProps) {
       );
     } catch (error) {
       console.error('Error sending friend request:', error);
-      setError('Failed to send friend request. Please try again.');
+      setError(
+        getErrorMessage(
+          error,
+          'Failed to send friend request. Please try again.'
+        )
+      );
     }
   };
 
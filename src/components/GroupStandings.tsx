@@ -0,0 +1,48 @@
+import TournamentStandings from '@/components/TournamentStandings';
+import { GroupTable } from '@/lib/api';
+import { GroupStageSettings } from '@/types';
+
+interface GroupStandingsProps {
+  settings: GroupStageSettings;
+  tables: GroupTable[];
+  isLoading?: boolean;
+}
+
+export default function GroupStandings({
+  settings,
+  tables,
+  isLoading = false,
+}: GroupStandingsProps) {
+  if (isLoading && tables.every(table => table.matches.length === 0)) {
+    return (
+      <div className="bg-[#1a1f2e] rounded-lg p-4 sm:p-6 text-center py-8">
+        <p className="text-gray-400">Loading groups...</p>
+      </div>
+    );
+  }
+
+  const groupsComplete = tables.filter(table => table.complete).length;
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-[#1a1f2e] rounded-lg p-4 sm:p-6">
+        <h2 className="text-xl sm:text-2xl font-bold">Group Stage</h2>
+        <p className="text-sm text-gray-400 mt-1">
+          Top {settings.qualifiers_per_group} of each group go through to the
+          knockout · {groupsComplete} of {tables.length} groups finished
+        </p>
+      </div>
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        {tables.map(table => (
+          <TournamentStandings
+            key={table.name}
+            title={`Group ${table.name}`}
+            subtitle={`${table.fixtures_played} of ${table.fixtures_total} played`}
+            standings={table.standings}
+            qualifyingPlaces={settings.qualifiers_per_group}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
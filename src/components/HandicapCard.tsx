@@ -0,0 +1,68 @@
+import { Handicap } from '@/lib/api';
+import { TeamInfo } from '@/types';
+
+interface HandicapCardProps {
+  handicap: Handicap;
+  strongerName: string;
+  weakerName: string;
+  // Only for 'team_rating' handicaps, once the teams are picked
+  strongerTeam?: TeamInfo;
+  weakerTeam?: TeamInfo;
+  maxStrongerStars?: number;
+  // The stronger player's team is rated too high
+  isBroken?: boolean;
+  // A custom team, which can't be checked against the handicap
+  unratedTeam?: string;
+}
+
+export default function HandicapCard({
+  handicap,
+  strongerName,
+  weakerName,
+  strongerTeam,
+  weakerTeam,
+  maxStrongerStars,
+  isBroken = false,
+  unratedTeam,
+}: HandicapCardProps) {
+  return (
+    <div className="mt-6 bg-[#2d3748] border border-gray-600 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-medium">Handicap</h3>
+        <span className="text-xs text-gray-400">
+          {strongerName} is rated {Math.round(handicap.elo_gap)} higher
+        </span>
+      </div>
+
+      {handicap.mode === 'head_start' ? (
+        <p className="text-sm text-gray-300">
+          {weakerName} starts {handicap.steps}{' '}
+          {handicap.steps === 1 ? 'goal' : 'goals'} up. Enter the goals actually
+          scored; the head start is added for the tournament table.
+        </p>
+      ) : (
+        <>
+          <p className="text-sm text-gray-300">
+            {strongerName}&apos;s team has to be rated at least{' '}
+            {handicap.steps * 0.5}★ below {weakerName}&apos;s
+            {weakerTeam && maxStrongerStars !== undefined
+              ? `: ${maxStrongerStars}★ or lower against ${weakerTeam.name}.`
+              : '.'}
+          </p>
+          {isBroken && strongerTeam && (
+            <p className="text-sm text-red-400 mt-2">
+              {strongerTeam.name} is rated {strongerTeam.stars}★. Pick a lower
+              rated team to log this match.
+            </p>
+          )}
+          {unratedTeam && (
+            <p className="text-sm text-red-400 mt-2">
+              {unratedTeam} has no star rating, so the handicap can&apos;t be
+              checked. Pick a team from the list to log this match.
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
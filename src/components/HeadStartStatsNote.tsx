@@ -0,0 +1,31 @@
+'use client';
+
+import { useEloReplay } from '@/hooks/useEloReplay';
+import { hasHeadStart } from '@/lib/api';
+
+interface HeadStartStatsNoteProps {
+  playerId: string;
+}
+
+// The backend's totals count the goals actually scored; everything worked
+// out from the match history counts the final score with any head start
+export default function HeadStartStatsNote({
+  playerId,
+}: HeadStartStatsNoteProps) {
+  const { matches } = useEloReplay(!!playerId);
+  const count = matches.filter(
+    ({ player1_id, player2_id, match }) =>
+      (player1_id === playerId || player2_id === playerId) &&
+      hasHeadStart(match)
+  ).length;
+  if (count === 0) return null;
+
+  return (
+    <p className="text-xs text-gray-400">
+      {count} {count === 1 ? 'match was' : 'matches were'} played with a
+      handicap head start. The totals above count the goals actually scored; the
+      rating history, team records, head-to-heads and tournament tables count
+      the final score.
+    </p>
+  );
+}
@@ -1,4 +1,4 @@
-import { Network, Table } from 'lucide-react';
+import { ListOrdered, Network, Swords, Table } from 'lucide-react';
 
 export function TrophyIcon({ size = 64 }: { size?: number }) {
   return (
@@ -294,3 +294,15 @@ export const HierarchyIcon = ({
 }: {
   className?: string;
 }) => <Network className={className} />;
+
+export const FixturesIcon = ({
+  className = 'w-5 h-5',
+}: {
+  className?: string;
+}) => <ListOrdered className={className} />;
+
+export const BracketIcon = ({
+  className = 'w-5 h-5',
+}: {
+  className?: string;
+}) => <Swords className={className} />;
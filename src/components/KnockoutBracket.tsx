@@ -0,0 +1,222 @@
+import {
+  Bracket,
+  BracketTie,
+  buildBracket,
+  buildGroupStageBracket,
+  buildGroupTables,
+  getNextTieMatch,
+  getQualifierLabels,
+  NextTieMatch,
+  resolveMatchPlayers,
+  roundName,
+} from '@/lib/api';
+import { MatchResult, Tournament, User } from '@/types';
+
+interface KnockoutBracketProps {
+  tournament: Tournament;
+  players: User[];
+  // Every match logged in the tournament (not just the current page)
+  matches: MatchResult[];
+  isLoading?: boolean;
+  onLogTieMatch?: (slot: string, next: NextTieMatch) => void;
+}
+
+const DECISION_LABELS: Record<string, string> = {
+  aggregate: 'on aggregate',
+  away_goals: 'on away goals',
+  decider: 'after a decider',
+};
+
+export default function KnockoutBracket({
+  tournament,
+  players,
+  matches,
+  isLoading = false,
+  onLogTieMatch,
+}: KnockoutBracketProps) {
+  const resolvedMatches = resolveMatchPlayers(matches, players);
+  const groupStage =
+    tournament.format === 'groups' ? tournament.group_stage : undefined;
+  const settings = groupStage ?? tournament.knockout;
+
+  // Entrants are labelled with their seed, or their group and finishing
+  // position after a group stage (e.g. A1)
+  let bracket: Bracket;
+  let entrantLabels: Record<string, string>;
+  let drawDescription: string;
+  if (groupStage) {
+    // Ranked the same way as the group tables on the Table tab
+    const tables = buildGroupTables(
+      groupStage,
+      players,
+      resolvedMatches,
+      tournament.rules,
+      tournament.id
+    );
+    bracket = buildGroupStageBracket(groupStage, tables, resolvedMatches);
+    entrantLabels = getQualifierLabels(groupStage, tables);
+    drawDescription = `Top ${groupStage.qualifiers_per_group} of each group`;
+  } else {
+    // Tournaments created without a stored draw fall back to the player order
+    const seeds = tournament.knockout?.seeds?.length
+      ? tournament.knockout.seeds
+      : tournament.player_ids;
+    bracket = buildBracket(
+      seeds,
+      {
+        two_legged: settings?.two_legged ?? false,
+        away_goals: settings?.away_goals ?? false,
+      },
+      resolvedMatches
+    );
+    entrantLabels = Object.fromEntries(
+      seeds.map((id, index) => [id, String(index + 1)])
+    );
+    drawDescription =
+      tournament.knockout?.seeding === 'elo' ? 'Seeded by ELO' : 'Random draw';
+  }
+
+  const getPlayerName = (playerId: string) => {
+    const player = players.find(p => p.id === playerId);
+    return player?.first_name || player?.username || 'Unknown player';
+  };
+
+  const renderEntrant = (
+    tie: BracketTie,
+    playerId: string | null | undefined,
+    aggregate: number
+  ) => {
+    const isWinner = !!playerId && tie.winner === playerId;
+    const isLoser = !!tie.winner && !!playerId && tie.winner !== playerId;
+    const showScore =
+      tie.matches.length > 0 && tie.status !== 'bye' && !!playerId;
+
+    return (
+      <div
+        className={`flex items-center gap-2 px-3 py-2 ${
+          isWinner ? 'text-green-400 font-semibold' : ''
+        } ${isLoser ? 'text-gray-500' : 'text-white'}`}
+      >
+        {playerId && (
+          <span className="text-xs text-gray-500 w-5 text-right">
+            {entrantLabels[playerId]}
+          </span>
+        )}
+        <span className="flex-1 truncate text-sm">
+          {playerId === null
+            ? 'Bye'
+            : playerId
+              ? getPlayerName(playerId)
+              : 'To be decided'}
+        </span>
+        {showScore && <span className="text-sm font-bold">{aggregate}</span>}
+      </div>
+    );
+  };
+
+  const renderTie = (tie: BracketTie) => {
+    const next = getNextTieMatch(tie);
+    const canLog = !!next && !!onLogTieMatch && !tournament.completed;
+
+    return (
+      <div
+        key={tie.slot}
+        className={`rounded-lg border ${
+          tie.status === 'decided' || tie.status === 'bye'
+            ? 'bg-[#1e293b] border-green-600/40'
+            : 'bg-[#2d3748] border-gray-600'
+        }`}
+      >
+        <div className="divide-y divide-gray-600">
+          {renderEntrant(tie, tie.home, tie.home_aggregate)}
+          {renderEntrant(tie, tie.away, tie.away_aggregate)}
+        </div>
+
+        {tie.matches.length > 0 && (
+          <div className="px-3 py-2 border-t border-gray-600 space-y-1">
+            {tie.matches.map(({ player1_id, player2_id, match }) => (
+              <p key={match.id} className="text-xs text-gray-400 truncate">
+                {getPlayerName(player1_id)} {match.player1_goals} -{' '}
+                {match.player2_goals} {getPlayerName(player2_id)}
+              </p>
+            ))}
+            {tie.winner &&
+              tie.decided_by &&
+              DECISION_LABELS[tie.decided_by] && (
+                <p className="text-xs text-green-400">
+                  {getPlayerName(tie.winner)} wins{' '}
+                  {DECISION_LABELS[tie.decided_by]}
+                </p>
+              )}
+            {tie.status === 'decider' && (
+              <p className="text-xs text-yellow-400">
+                Level after {tie.legs === 1 ? 'the match' : 'both legs'}
+              </p>
+            )}
+          </div>
+        )}
+
+        {canLog && (
+          <div className="px-3 pb-3 pt-1">
+            <button
+              type="button"
+              onClick={() => onLogTieMatch(tie.slot, next)}
+              className="w-full px-3 py-1.5 rounded-lg text-xs font-medium bg-blue-500 hover:bg-blue-600 text-white transition-all duration-200"
+            >
+              Log {next.label.toLowerCase()}
+            </button>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-[#1a1f2e] rounded-lg p-4 sm:p-6">
+      <div className="mb-4">
+        <h2 className="text-xl sm:text-2xl font-bold">Bracket</h2>
+        <p className="text-sm text-gray-400 mt-1">
+          {drawDescription}
+          {settings?.two_legged &&
+            ` · Two legs${settings.away_goals ? ', away goals' : ''}`}
+        </p>
+      </div>
+
+      {bracket.champion && (
+        <div className="mb-4 p-3 bg-green-500/20 border border-green-500/30 rounded-lg">
+          <p className="text-green-400 text-sm font-medium">
+            {getPlayerName(bracket.champion)} wins the tournament
+          </p>
+        </div>
+      )}
+
+      {bracket.rounds.length === 0 ? (
+        <div className="text-center py-8">
+          <p className="text-gray-400 text-lg">Not enough players</p>
+          <p className="text-gray-500 text-sm mt-2">
+            Add at least two players to the tournament to draw a bracket
+          </p>
+        </div>
+      ) : isLoading ? (
+        <div className="text-center py-8">
+          <p className="text-gray-400">Loading bracket...</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <div className="flex gap-4 min-w-max">
+            {bracket.rounds.map((ties, roundIndex) => (
+              <div key={roundIndex} className="w-56 flex flex-col">
+                <h3 className="text-sm font-semibold text-gray-300 border-b border-gray-600 pb-2 mb-3">
+                  {roundName(roundIndex + 1, bracket.rounds.length)}
+                </h3>
+                <div className="flex-1 flex flex-col justify-around gap-3">
+                  {ties.map(renderTie)}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
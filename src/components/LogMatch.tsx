@@ -1,10 +1,65 @@
-import { FIFA23AllTeams } from '@/constants/teams';
-import { getMatchById, recordMatch, updateMatch } from '@/lib/api';
-import { Match, Tournament, User } from '@/types';
+import { getStarRating, NATIONAL_TEAM_LEAGUE } from '@/constants/teams';
+import { useAuth } from '@/contexts/auth';
+import { useQuery } from '@/hooks/useQuery';
+import {
+  createIdempotencyKey,
+  enqueueMatch,
+  findTeam,
+  getComfortPicks,
+  getDraftedTeams,
+  getEditionLeagues,
+  getEditionTeams,
+  getErrorMessage,
+  getHandicap,
+  getHeadStarts,
+  getMatchById,
+  getMaxStrongerStars,
+  getMatchHistory,
+  getPlayerStats,
+  getPlayerStrength,
+  getSurpriseFactor,
+  getTeamRecords,
+  getTournamentEdition,
+  isDrafted,
+  isDraftComplete,
+  isOfflineError,
+  isTeamHandicapMet,
+  predictMatch,
+  queryKeys,
+  readTeamRollConstraints,
+  recordMatch,
+  rerollTeam,
+  resolveMatchPlayers,
+  RollHandicap,
+  rollTeams,
+  storeTeamRollConstraints,
+  updateMatch,
+  withHeadStart,
+} from '@/lib/api';
+import {
+  CustomTeam,
+  Match,
+  TeamRoll,
+  TeamRollConstraints,
+  Tournament,
+  User,
+} from '@/types';
 import { useEffect, useState } from 'react';
 import CustomDropdown from './CustomDropdown';
+import HandicapCard from './HandicapCard';
+import MatchPredictionCard from './MatchPredictionCard';
+import TeamRollSettings from './TeamRollSettings';
 import { useToast } from './ToastProvider';
 
+// A roll only counts while the form still holds the players and teams it
+// was made for
+interface RolledTeams extends TeamRoll {
+  player1_id: string;
+  player2_id: string;
+  team1: string;
+  team2: string;
+}
+
 interface LogMatchProps {
   players: User[];
   tournaments: Tournament[];
@@ -21,6 +76,8 @@ interface LogMatchProps {
     player2_goals: number;
     half_length: number;
     completed: boolean;
+    // Knockout tie the match is logged for (from the Bracket tab)
+    bracket_slot?: string;
   };
 }
 
@@ -33,25 +90,71 @@ export default function LogMatch({
   prePopulatedMatch,
 }: LogMatchProps) {
   const { showToast } = useToast();
+  const { user } = useAuth();
   const selectedTournament =
     tournaments.find(t => t.id === selectedTournamentId) || tournaments[0];
 
   // Check if the tournament is completed
   const isTournamentCompleted = selectedTournament?.completed || false;
 
-  const [formData, setFormData] = useState<Match>({
-    player1_id: prePopulatedMatch?.player1_id || '',
-    player2_id: prePopulatedMatch?.player2_id || '',
-    team1: prePopulatedMatch?.team1 || '',
-    team2: prePopulatedMatch?.team2 || '',
-    player1_goals: prePopulatedMatch?.player1_goals || 0,
-    player2_goals: prePopulatedMatch?.player2_goals || 0,
-    tournament_id: selectedTournament?.id || '',
-    half_length: prePopulatedMatch?.half_length || 3,
-    completed: true,
-  } as Match);
+  // New matches in a drafted tournament are played with drafted teams
+  const draft =
+    !prePopulatedMatch?.id && !isTournamentCompleted
+      ? selectedTournament?.draft
+      : undefined;
+  const isDraftPending = !!draft && !isDraftComplete(draft);
+  // Null for players who can pick any team
+  const getLockedTeams = (playerId: string) =>
+    draft && playerId && isDrafted(draft, playerId)
+      ? getDraftedTeams(draft, playerId)
+      : null;
+  const isTeamLocked = (playerId: string) =>
+    (getLockedTeams(playerId)?.length ?? 2) < 2;
+  // Fill in a drafted player's team whenever the players change
+  const withDraftedTeams = (data: Match): Match => {
+    const teams1 = getLockedTeams(data.player1_id);
+    const teams2 = getLockedTeams(data.player2_id);
+    return {
+      ...data,
+      team1:
+        teams1 && !teams1.includes(data.team1) ? teams1[0] || '' : data.team1,
+      team2:
+        teams2 && !teams2.includes(data.team2) ? teams2[0] || '' : data.team2,
+    };
+  };
+
+  const [formData, setFormData] = useState<Match>(() =>
+    withDraftedTeams({
+      player1_id: prePopulatedMatch?.player1_id || '',
+      player2_id: prePopulatedMatch?.player2_id || '',
+      team1: prePopulatedMatch?.team1 || '',
+      team2: prePopulatedMatch?.team2 || '',
+      player1_goals: prePopulatedMatch?.player1_goals || 0,
+      player2_goals: prePopulatedMatch?.player2_goals || 0,
+      tournament_id: selectedTournament?.id || '',
+      half_length: prePopulatedMatch?.half_length || 3,
+      completed: true,
+    } as Match)
+  );
 
-  const teams = FIFA23AllTeams.map(team => team.name);
+  // Only the teams of the edition the tournament is played on
+  const edition = getTournamentEdition(selectedTournament);
+  const editionTeams = getEditionTeams(edition);
+  const teams = editionTeams.map(team => team.name);
+  const getTeamLabel = (team: string) => {
+    const info = findTeam(team, edition);
+    return info ? `${team} · ${info.stars}★` : team;
+  };
+  const getCustomTeamLabel = (team: CustomTeam) =>
+    team.overall
+      ? `${team.name} (${team.code}) · ${getStarRating(team.overall)}★`
+      : `${team.name} (${team.code})`;
+  // Custom teams come with every edition. The signed-in user's own list is
+  // the most up to date.
+  const getCustomTeams = (playerId: string) =>
+    (playerId && playerId === user?.id
+      ? user.custom_teams
+      : players.find(player => player.id === playerId)?.custom_teams) ?? [];
 
   // Fetch match data when prePopulatedMatch.id exists (only once)
   useEffect(() => {
@@ -75,7 +178,10 @@ export default function LogMatch({
           }
         } catch (error) {
           console.error('Error fetching match data:', error);
-          showToast('Failed to load match data', 'error');
+          showToast(
+            getErrorMessage(error, 'Failed to load match data'),
+            'error'
+          );
         }
       }
     };
@@ -83,27 +189,383 @@ export default function LogMatch({
     fetchMatchData();
   }, [prePopulatedMatch?.id, selectedTournament?.id, showToast]);
 
-  // Function to get prioritized team options for a player
-  const getPrioritizedTeams = (playerId: string) => {
-    if (!playerId) return teams;
+  // Comfort picks come from every match the players have logged
+  const historyQuery = useQuery(queryKeys.matchHistory(), options =>
+    getMatchHistory(options)
+  );
+  const resolvedHistory = historyQuery.data
+    ? resolveMatchPlayers(historyQuery.data, players)
+    : [];
 
+  // Function to get prioritized team options for a player. A team from
+  // another edition stays selectable when an older match is being edited.
+  const getPrioritizedTeams = (playerId: string, currentTeam: string) => {
+    const lockedTeams = getLockedTeams(playerId);
+    if (lockedTeams) {
+      return lockedTeams.map(team => ({
+        value: team,
+        label: `${getTeamLabel(team)} · drafted`,
+      }));
+    }
     const selectedPlayer = players.find(player => player.id === playerId);
-    const recentTeams = selectedPlayer?.last_5_teams || [];
+    const recentTeams = (selectedPlayer?.last_5_teams || []).filter(team =>
+      teams.includes(team)
+    );
+    const comfortPicks = playerId
+      ? getComfortPicks(
+          getTeamRecords(resolvedHistory, playerId).filter(record =>
+            teams.includes(record.team)
+          )
+        )
+      : [];
+    const comfortTeams = comfortPicks.map(pick => pick.team);
+    const customTeams = getCustomTeams(playerId);
+    const customNames = customTeams.map(team => team.name);
+
+    // The player's own teams first, then the best performing teams, then
+    // recent teams, then the rest
+    const otherTeams = [
+      ...(currentTeam &&
+      !teams.includes(currentTeam) &&
+      !customNames.includes(currentTeam)
+        ? [currentTeam]
+        : []),
+      ...recentTeams,
+      ...teams,
+    ].filter(
+      (team, index, all) =>
+        !comfortTeams.includes(team) && all.indexOf(team) === index
+    );
+    // Only grouped when there is a custom team to set apart
+    const otherGroup = customTeams.length > 0 ? 'All teams' : undefined;
+    return [
+      ...customTeams.map(team => ({
+        value: team.name,
+        label: getCustomTeamLabel(team),
+        group:
+          playerId === user?.id
+            ? 'My teams'
+            : `${getPlayerName(playerId)}'s teams`,
+      })),
+      ...comfortPicks.map(pick => ({
+        value: pick.team,
+        label: `${getTeamLabel(pick.team)} · comfort pick (${pick.wins}W in ${pick.played})`,
+        group: otherGroup,
+      })),
+      ...otherTeams.map(team => ({
+        value: team,
+        label: getTeamLabel(team),
+        group: otherGroup,
+      })),
+    ];
+  };
+
+  // Random team picker; the constraints are remembered between matches
+  const [isRandomizing, setIsRandomizing] = useState(false);
+  const [rollConstraints, setRollConstraints] = useState(
+    readTeamRollConstraints
+  );
+  const [roll, setRoll] = useState<RolledTeams | null>(null);
+  const leagues = getEditionLeagues(edition).filter(
+    league =>
+      !rollConstraints.exclude_national_teams || league !== NATIONAL_TEAM_LEAGUE
+  );
+  // Leagues picked for another edition do not apply here
+  const activeConstraints = {
+    ...rollConstraints,
+    leagues: rollConstraints.leagues.filter(league => leagues.includes(league)),
+  };
+  const isRollForPlayers =
+    !!roll &&
+    roll.player1_id === formData.player1_id &&
+    roll.player2_id === formData.player2_id;
+  const currentRoll =
+    roll &&
+    isRollForPlayers &&
+    roll.team1 === formData.team1 &&
+    roll.team2 === formData.team2
+      ? roll
+      : null;
+  const teamRoll: TeamRoll | undefined = currentRoll
+    ? {
+        constraints: currentRoll.constraints,
+        player1_rerolls: currentRoll.player1_rerolls,
+        player2_rerolls: currentRoll.player2_rerolls,
+      }
+    : undefined;
 
-    if (recentTeams.length === 0) return teams;
+  const getRecentTeams = (playerId: string) =>
+    players.find(player => player.id === playerId)?.last_5_teams || [];
 
-    // Get teams that are not in recent teams
-    const otherTeams = teams.filter(team => !recentTeams.includes(team));
+  const handleRollConstraintsChange = (constraints: TeamRollConstraints) => {
+    setRollConstraints(constraints);
+    storeTeamRollConstraints(constraints);
+  };
 
-    // Return recent teams first, then other teams
-    return [...recentTeams, ...otherTeams];
+  // Each pairing is rolled once; after that only the reroll budget is left
+  const handleRollTeams = () => {
+    const pair = rollTeams(
+      editionTeams,
+      activeConstraints,
+      getRecentTeams(formData.player1_id),
+      getRecentTeams(formData.player2_id),
+      rollHandicap
+    );
+    if (!pair) {
+      showToast(
+        'No two teams fit these constraints. Loosen them and roll again.',
+        'warning'
+      );
+      return;
+    }
+    const [team1, team2] = pair;
+    setFormData(prev => ({ ...prev, team1: team1.name, team2: team2.name }));
+    setRoll({
+      constraints: activeConstraints,
+      player1_rerolls: 0,
+      player2_rerolls: 0,
+      player1_id: formData.player1_id,
+      player2_id: formData.player2_id,
+      team1: team1.name,
+      team2: team2.name,
+    });
   };
 
-  const handleInputChange = (field: string, value: string | number) => {
+  const handleReroll = (isPlayer1: boolean) => {
+    if (!currentRoll) return;
+    const opponent = findTeam(
+      isPlayer1 ? currentRoll.team2 : currentRoll.team1,
+      edition
+    );
+    const team =
+      opponent &&
+      rerollTeam(
+        editionTeams,
+        currentRoll.constraints,
+        isPlayer1 ? 1 : 2,
+        isPlayer1 ? currentRoll.team1 : currentRoll.team2,
+        opponent,
+        getRecentTeams(
+          isPlayer1 ? currentRoll.player1_id : currentRoll.player2_id
+        ),
+        rollHandicap
+      );
+    if (!team) {
+      showToast(
+        'No other team fits the constraints against this one.',
+        'warning'
+      );
+      return;
+    }
     setFormData(prev => ({
       ...prev,
-      [field]: value,
+      [isPlayer1 ? 'team1' : 'team2']: team.name,
     }));
+    setRoll(
+      isPlayer1
+        ? {
+            ...currentRoll,
+            team1: team.name,
+            player1_rerolls: currentRoll.player1_rerolls + 1,
+          }
+        : {
+            ...currentRoll,
+            team2: team.name,
+            player2_rerolls: currentRoll.player2_rerolls + 1,
+          }
+    );
+  };
+
+  const renderReroll = (isPlayer1: boolean) => {
+    if (!isRandomizing || !currentRoll) return null;
+    const left =
+      currentRoll.constraints.reroll_budget -
+      (isPlayer1 ? currentRoll.player1_rerolls : currentRoll.player2_rerolls);
+    return (
+      <button
+        type="button"
+        onClick={() => handleReroll(isPlayer1)}
+        disabled={left <= 0}
+        className="mt-2 w-full bg-[#2d3748] border border-gray-600 rounded-lg px-3 py-2 text-sm transition-colors hover:bg-[#374151] disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {left > 0 ? `Reroll (${left} left)` : 'No rerolls left'}
+      </button>
+    );
+  };
+
+  const handleInputChange = (field: string, value: string | number) => {
+    setFormData(prev =>
+      withDraftedTeams({
+        ...prev,
+        [field]: value,
+      })
+    );
+  };
+
+  const resetForm = () => {
+    setFormData(
+      withDraftedTeams({
+        player1_id: prePopulatedMatch?.player1_id || '',
+        player2_id: prePopulatedMatch?.player2_id || '',
+        team1: prePopulatedMatch?.team1 || '',
+        team2: prePopulatedMatch?.team2 || '',
+        player1_goals: prePopulatedMatch?.player1_goals || 0,
+        player2_goals: prePopulatedMatch?.player2_goals || 0,
+        tournament_id: selectedTournament?.id || '',
+        half_length: prePopulatedMatch?.half_length || 3,
+        completed: true,
+      } as Match)
+    );
+    setRoll(null);
+  };
+
+  const getPlayerName = (playerId: string) => {
+    const player = players.find(p => p.id === playerId);
+    return player?.first_name || player?.username || 'Unknown player';
+  };
+
+  // Only attach the knockout tie while the form still holds its two players
+  const isBracketPairing =
+    !!prePopulatedMatch?.bracket_slot &&
+    [formData.player1_id, formData.player2_id].sort().join() ===
+      [prePopulatedMatch.player1_id, prePopulatedMatch.player2_id]
+        .sort()
+        .join();
+  const bracketSlot = isBracketPairing
+    ? prePopulatedMatch?.bracket_slot
+    : undefined;
+
+  // Scoring averages for the pre-match prediction; shared with the profile
+  // pages' cache
+  const player1StatsQuery = useQuery(
+    formData.player1_id ? queryKeys.userStats(formData.player1_id) : null,
+    options => getPlayerStats(formData.player1_id, options)
+  );
+  const player2StatsQuery = useQuery(
+    formData.player2_id ? queryKeys.userStats(formData.player2_id) : null,
+    options => getPlayerStats(formData.player2_id, options)
+  );
+  const player1 = players.find(p => p.id === formData.player1_id);
+  const player2 = players.find(p => p.id === formData.player2_id);
+  // Only for new matches; players whose stats fail to load fall back to
+  // their rating alone
+  const prediction =
+    !prePopulatedMatch?.id &&
+    player1 &&
+    player2 &&
+    player1.id !== player2.id &&
+    !player1StatsQuery.isLoading &&
+    !player2StatsQuery.isLoading
+      ? predictMatch(
+          getPlayerStrength(player1, player1StatsQuery.data),
+          getPlayerStrength(player2, player2StatsQuery.data)
+        )
+      : null;
+  // Only new matches played in the tournament get its handicap. Drafted
+  // teams are fixed, so a drafted tournament only takes head starts.
+  const handicap =
+    !prePopulatedMatch?.id &&
+    !isTournamentCompleted &&
+    !(draft && selectedTournament?.handicap?.mode === 'team_rating') &&
+    player1 &&
+    player2 &&
+    player1.id !== player2.id
+      ? getHandicap(selectedTournament?.handicap, player1, player2)
+      : null;
+  const [player1HeadStart, player2HeadStart] = getHeadStarts(
+    handicap,
+    formData.player1_id
+  );
+  // Judged on the final score, so a head start that turns the result counts
+  const finalScore = withHeadStart({
+    player1_goals: formData.player1_goals,
+    player2_goals: formData.player2_goals,
+    player1_head_start: player1HeadStart,
+    player2_head_start: player2HeadStart,
+  });
+  const surpriseFactor = prediction
+    ? getSurpriseFactor(
+        prediction,
+        finalScore.player1_goals,
+        finalScore.player2_goals
+      )
+    : undefined;
+  const isPlayer1Stronger = handicap?.stronger_id === formData.player1_id;
+  const strongerTeam = findTeam(
+    isPlayer1Stronger ? formData.team1 : formData.team2,
+    edition
+  );
+  const weakerTeam = findTeam(
+    isPlayer1Stronger ? formData.team2 : formData.team1,
+    edition
+  );
+  const maxStrongerStars =
+    handicap?.mode === 'team_rating' && weakerTeam
+      ? getMaxStrongerStars(handicap, weakerTeam)
+      : undefined;
+  const breaksHandicap =
+    handicap?.mode === 'team_rating' &&
+    !!strongerTeam &&
+    !!weakerTeam &&
+    !isTeamHandicapMet(handicap, strongerTeam, weakerTeam);
+  // Custom teams have no star rating to check the handicap against
+  const unratedTeam =
+    handicap?.mode === 'team_rating'
+      ? [formData.team1, formData.team2].find(
+          team => team && !findTeam(team, edition)
+        )
+      : undefined;
+  // Rolls draw the stronger player's team from within the handicap's cap
+  const rollHandicap: RollHandicap | undefined =
+    handicap?.mode === 'team_rating'
+      ? {
+          stronger: isPlayer1Stronger ? 1 : 2,
+          getMaxStars: team => getMaxStrongerStars(handicap, team),
+        }
+      : undefined;
+  const isSubmitDisabled =
+    (!selectedTournament && !prePopulatedMatch?.id) ||
+    breaksHandicap ||
+    !!unratedTeam ||
+    isDraftPending;
+
+  // Keep the match in the offline outbox when the backend is unreachable
+  const queueMatch = async (
+    idempotencyKey: string,
+    tournamentId: string | undefined
+  ) => {
+    try {
+      await enqueueMatch({
+        idempotency_key: idempotencyKey,
+        player1_id: formData.player1_id,
+        player2_id: formData.player2_id,
+        player1_name: getPlayerName(formData.player1_id),
+        player2_name: getPlayerName(formData.player2_id),
+        team1: formData.team1,
+        team2: formData.team2,
+        player1_goals: formData.player1_goals,
+        player2_goals: formData.player2_goals,
+        half_length: formData.half_length,
+        completed: formData.completed,
+        tournament_id: tournamentId,
+        bracket_slot: tournamentId ? bracketSlot : undefined,
+        surprise_factor: surpriseFactor,
+        team_roll: teamRoll,
+        player1_head_start: player1HeadStart || undefined,
+        player2_head_start: player2HeadStart || undefined,
+      });
+      showToast(
+        'No connection. The match was saved and will sync automatically.',
+        'warning'
+      );
+      resetForm();
+      if (onMatchLogged) {
+        onMatchLogged();
+      }
+    } catch (error) {
+      console.error('Error queueing match:', error);
+      showToast('Failed to log match. Please try again.', 'error');
+    }
   };
 
   const handleSubmit = () => {
@@ -126,11 +588,10 @@ export default function LogMatch({
         })
         .catch(error => {
           console.error('Error updating match:', error);
-          const errorMessage =
-            error?.response?.data?.detail ||
-            error?.message ||
-            'Failed to update match. Please try again.';
-          showToast(errorMessage, 'error');
+          showToast(
+            getErrorMessage(error, 'Failed to update match. Please try again.'),
+            'error'
+          );
         });
       return;
     }
@@ -138,6 +599,9 @@ export default function LogMatch({
     // Otherwise, record a new match (automatically marked completed)
     // If tournament is completed, pass null for tournament_id to create a standalone match
     const tournamentId = isTournamentCompleted ? null : formData.tournament_id;
+    // Reused if the match has to be queued, so a request that did reach the
+    // server is not recorded twice on replay
+    const idempotencyKey = createIdempotencyKey();
 
     recordMatch(
       formData.player1_id,
@@ -148,35 +612,38 @@ export default function LogMatch({
       formData.player2_goals,
       formData.half_length,
       formData.completed,
-      tournamentId || undefined
+      tournamentId || undefined,
+      {
+        bracket_slot: bracketSlot,
+        surprise_factor: surpriseFactor,
+        team_roll: teamRoll,
+        player1_head_start: player1HeadStart || undefined,
+        player2_head_start: player2HeadStart || undefined,
+      },
+      { idempotencyKey }
     )
       .then(() => {
         showToast('Match logged successfully!', 'success');
+
+        // Only reset the form once the match is saved so a failed attempt
+        // keeps the entered result
+        resetForm();
+
         if (onMatchLogged) {
           onMatchLogged();
         }
       })
       .catch(error => {
+        if (isOfflineError(error)) {
+          queueMatch(idempotencyKey, tournamentId || undefined);
+          return;
+        }
         console.error('Error logging match:', error);
-        const errorMessage =
-          error?.response?.data?.detail ||
-          error?.message ||
-          'Failed to log match. Please try again.';
-        showToast(errorMessage, 'error');
+        showToast(
+          getErrorMessage(error, 'Failed to log match. Please try again.'),
+          'error'
+        );
       });
-
-    // Reset form data after submission attempt
-    setFormData({
-      player1_id: prePopulatedMatch?.player1_id || '',
-      player2_id: prePopulatedMatch?.player2_id || '',
-      team1: prePopulatedMatch?.team1 || '',
-      team2: prePopulatedMatch?.team2 || '',
-      player1_goals: prePopulatedMatch?.player1_goals || 0,
-      player2_goals: prePopulatedMatch?.player2_goals || 0,
-      tournament_id: selectedTournament?.id || '',
-      half_length: prePopulatedMatch?.half_length || 3,
-      completed: true,
-    } as Match);
   };
 
   return (
@@ -192,6 +659,24 @@ export default function LogMatch({
             }`}
       </p>
 
+      {bracketSlot && !isTournamentCompleted && (
+        <div className="mb-4 p-3 bg-blue-500/20 border border-blue-500/30 rounded-lg">
+          <p className="text-blue-400 text-sm">
+            This match counts towards knockout tie {bracketSlot}. The winner
+            advances in the bracket once the tie is decided.
+          </p>
+        </div>
+      )}
+
+      {isDraftPending && (
+        <div className="mb-4 p-3 bg-yellow-500/20 border border-yellow-500/30 rounded-lg">
+          <p className="text-yellow-400 text-sm">
+            The team draft for this tournament is not finished. Matches can be
+            logged once every player has drafted their teams on the Table tab.
+          </p>
+        </div>
+      )}
+
       {isTournamentCompleted && (
         <div className="mb-4 p-3 bg-blue-500/20 border border-blue-500/30 rounded-lg">
           <p className="text-blue-400 text-sm">
@@ -225,12 +710,14 @@ export default function LogMatch({
 
           <label className="block text-sm font-medium mb-2 mt-4">Team 1</label>
           <CustomDropdown
-            options={getPrioritizedTeams(formData.player1_id)}
+            options={getPrioritizedTeams(formData.player1_id, formData.team1)}
             value={formData.team1}
             onChange={value => handleInputChange('team1', value)}
             placeholder="Select team 1"
             searchable={true}
+            disabled={isTeamLocked(formData.player1_id)}
           />
+          {renderReroll(true)}
 
           <label className="block text-sm font-medium mb-2 mt-4">
             Player 1 Score
@@ -282,12 +769,14 @@ export default function LogMatch({
 
           <label className="block text-sm font-medium mb-2 mt-4">Team 2</label>
           <CustomDropdown
-            options={getPrioritizedTeams(formData.player2_id)}
+            options={getPrioritizedTeams(formData.player2_id, formData.team2)}
             value={formData.team2}
             onChange={value => handleInputChange('team2', value)}
             placeholder="Select team 2"
             searchable={true}
+            disabled={isTeamLocked(formData.player2_id)}
           />
+          {renderReroll(false)}
 
           <label className="block text-sm font-medium mb-2 mt-4">
             Player 2 Score
@@ -323,6 +812,79 @@ export default function LogMatch({
         </div>
       </div>
 
+      {!prePopulatedMatch?.id && !draft && (
+        <div className="mt-6 bg-[#2d3748] border border-gray-600 rounded-lg p-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <h3 className="text-sm font-medium">Random teams</h3>
+              <p className="text-xs text-gray-400">
+                Draw two balanced teams instead of picking them
+              </p>
+            </div>
+            <button
+              type="button"
+              onClick={() => setIsRandomizing(!isRandomizing)}
+              className="text-sm text-blue-400 hover:text-blue-300"
+            >
+              {isRandomizing ? 'Hide' : 'Randomize'}
+            </button>
+          </div>
+
+          {isRandomizing && (
+            <div className="mt-4 space-y-4">
+              {isRollForPlayers ? (
+                <p className="text-xs text-gray-400">
+                  {currentRoll
+                    ? 'Teams rolled. Each player can reroll their own team; the roll is saved with the match.'
+                    : 'A team was changed by hand, so the roll will not be saved with the match.'}
+                </p>
+              ) : (
+                <>
+                  <TeamRollSettings
+                    constraints={activeConstraints}
+                    onChange={handleRollConstraintsChange}
+                    leagues={leagues}
+                  />
+                  <button
+                    type="button"
+                    onClick={handleRollTeams}
+                    disabled={
+                      !formData.player1_id ||
+                      !formData.player2_id ||
+                      formData.player1_id === formData.player2_id
+                    }
+                    className="w-full bg-blue-500 hover:bg-blue-600 text-white font-medium py-2 px-4 rounded-lg transition-colors text-sm disabled:bg-gray-500 disabled:text-gray-300 disabled:cursor-not-allowed"
+                  >
+                    Roll teams
+                  </button>
+                </>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {handicap && (
+        <HandicapCard
+          handicap={handicap}
+          strongerName={getPlayerName(handicap.stronger_id)}
+          weakerName={getPlayerName(handicap.weaker_id)}
+          strongerTeam={strongerTeam}
+          weakerTeam={weakerTeam}
+          maxStrongerStars={maxStrongerStars}
+          isBroken={breaksHandicap}
+          unratedTeam={unratedTeam}
+        />
+      )}
+
+      {prediction && (
+        <MatchPredictionCard
+          prediction={prediction}
+          player1Name={getPlayerName(formData.player1_id)}
+          player2Name={getPlayerName(formData.player2_id)}
+        />
+      )}
+
       <div className="mt-6">
         <label className="block text-sm font-medium mb-2">
           Half Length (minutes)
@@ -364,12 +926,12 @@ export default function LogMatch({
       <div className="mt-6">
         <button
           className={`w-full font-medium py-3 px-4 rounded-lg transition-colors text-sm sm:text-base ${
-            !selectedTournament && !prePopulatedMatch?.id
+            isSubmitDisabled
               ? 'bg-gray-500 cursor-not-allowed text-gray-300'
               : 'bg-blue-500 hover:bg-blue-600 text-white'
           }`}
           onClick={handleSubmit}
-          disabled={!selectedTournament && !prePopulatedMatch?.id}
+          disabled={isSubmitDisabled}
         >
           {prePopulatedMatch?.id
             ? 'Update Match'
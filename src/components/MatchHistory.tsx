@@ -1,7 +1,18 @@
-import { MatchResult } from '@/types';
+import {
+  EloMatchChange,
+  formatRatingDelta,
+  getTeamColor,
+  hasHeadStart,
+  withHeadStart,
+} from '@/lib/api';
+import { CustomTeam, MatchResult, PendingMatch } from '@/types';
 
 interface MatchHistoryProps {
   matches: MatchResult[];
+  // Matches logged offline that have not reached the server yet
+  pendingMatches?: PendingMatch[];
+  onDiscardPending?: (idempotencyKey: string) => void;
+  onLogPendingAsStandalone?: (idempotencyKey: string) => void;
   tournamentId?: string;
   isTournamentCreator?: boolean;
   isTournamentCompleted?: boolean;
@@ -10,6 +21,38 @@ interface MatchHistoryProps {
   currentPage?: number;
   totalPages?: number;
   onMatchClick?: (match: MatchResult) => void;
+  // Elo changes replayed on the client, shown next to each player
+  ratingChanges?: EloMatchChange[];
+  // The players' own teams, for their kit colours
+  customTeams?: CustomTeam[];
+}
+
+function RatingDelta({ delta }: { delta: number }) {
+  return (
+    <span
+      className={`mx-2 text-xs font-medium ${
+        delta >= 0 ? 'text-green-400' : 'text-red-400'
+      }`}
+      title="Elo change"
+    >
+      {formatRatingDelta(delta)}
+    </span>
+  );
+}
+
+function TeamName({ team, color }: { team: string; color?: string }) {
+  if (!team) return null;
+  return (
+    <div className="text-xs font-normal text-gray-400 truncate">
+      {color && (
+        <span
+          className="inline-block w-2 h-2 rounded-full mr-1"
+          style={{ backgroundColor: color }}
+        />
+      )}
+      {team}
+    </div>
+  );
 }
 
 // Utility function to format date as "October 19th, 2025"
@@ -67,19 +110,47 @@ function groupMatchesByDate(matches: MatchResult[]): {
   return grouped;
 }
 
+// The score shown is what was played; the head start decides the result
+function getHeadStartNote(match: MatchResult): string {
+  const final = withHeadStart(match);
+  const [name, goals] = match.player1_head_start
+    ? [match.player1_name, match.player1_head_start]
+    : [match.player2_name, match.player2_head_start ?? 0];
+  return `${name} started ${goals} ${goals === 1 ? 'goal' : 'goals'} up, final score ${final.player1_goals} - ${final.player2_goals}`;
+}
+
+function getPendingStatusLabel(match: PendingMatch): string {
+  switch (match.status) {
+    case 'conflict':
+      return 'Sync conflict';
+    case 'failed':
+      return 'Sync failed';
+    default:
+      return 'Pending sync';
+  }
+}
+
 export default function MatchHistory({
   matches,
+  pendingMatches = [],
+  onDiscardPending,
+  onLogPendingAsStandalone,
   isTournamentCompleted = false,
   onMatchUpdated: _onMatchUpdated,
   onPageChange,
   currentPage = 1,
   totalPages,
   onMatchClick,
+  ratingChanges = [],
+  customTeams = [],
 }: MatchHistoryProps) {
   // Safety check: ensure matches is always an array
   const safeMatches = Array.isArray(matches) ? matches : [];
 
   const groupedMatches = groupMatchesByDate(safeMatches);
+  const ratingChangeById = new Map(
+    ratingChanges.map(change => [change.match_id, change])
+  );
 
   // Sort dates in descending order (most recent first)
   const sortedDates = Object.keys(groupedMatches).sort(
@@ -97,14 +168,93 @@ export default function MatchHistory({
         )}
       </div>
 
-      {safeMatches.length === 0 ? (
+      {pendingMatches.length > 0 && (
+        <div className="space-y-3 mb-6">
+          <h3 className="text-lg font-semibold text-gray-300 border-b border-gray-600 pb-2">
+            Waiting to sync
+          </h3>
+          {pendingMatches.map(match => (
+            <div
+              key={match.idempotency_key}
+              className={`rounded-lg p-3 sm:p-4 border border-dashed ${
+                match.status === 'pending'
+                  ? 'bg-[#1e293b] border-yellow-500/50'
+                  : 'bg-[#2d3748] border-red-500/50'
+              }`}
+            >
+              <div className="space-y-3">
+                <div className="flex justify-center">
+                  <span
+                    className={`text-xs px-3 py-1 rounded-full font-medium ${
+                      match.status === 'pending'
+                        ? 'bg-yellow-600/20 text-yellow-300 border border-yellow-500/50'
+                        : 'bg-red-600/20 text-red-300 border border-red-500/50'
+                    }`}
+                  >
+                    {getPendingStatusLabel(match)}
+                  </span>
+                </div>
+
+                <div className="flex items-center">
+                  <div className="font-semibold text-base sm:text-lg text-white flex-1 text-left">
+                    {match.player1_name}
+                  </div>
+                  <div className="bg-gray-700 px-4 py-2 rounded-lg text-sm sm:text-base font-bold text-white mx-6 min-w-[80px] text-center flex-shrink-0">
+                    {match.player1_goals} - {match.player2_goals}
+                  </div>
+                  <div className="font-semibold text-base sm:text-lg text-white flex-1 text-right">
+                    {match.player2_name}
+                  </div>
+                </div>
+
+                {match.status !== 'pending' && (
+                  <div className="space-y-2">
+                    {match.error && (
+                      <p className="text-sm text-red-300 text-center">
+                        {match.error}
+                      </p>
+                    )}
+                    <div className="flex justify-end gap-2">
+                      {match.status === 'conflict' &&
+                        onLogPendingAsStandalone && (
+                          <button
+                            type="button"
+                            onClick={() =>
+                              onLogPendingAsStandalone(match.idempotency_key)
+                            }
+                            className="px-4 py-2 rounded-lg text-sm font-medium bg-blue-500 hover:bg-blue-600 text-white transition-all duration-200"
+                          >
+                            Log as standalone
+                          </button>
+                        )}
+                      {onDiscardPending && (
+                        <button
+                          type="button"
+                          onClick={() =>
+                            onDiscardPending(match.idempotency_key)
+                          }
+                          className="px-4 py-2 rounded-lg text-sm font-medium bg-gray-600 hover:bg-gray-500 text-white transition-all duration-200"
+                        >
+                          Discard
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {safeMatches.length === 0 && pendingMatches.length === 0 ? (
         <div className="text-center py-8">
           <p className="text-gray-400 text-lg">No matches found</p>
           <p className="text-gray-500 text-sm mt-2">
             Matches will appear here once they are logged
           </p>
         </div>
-      ) : (
+      ) : safeMatches.length === 0 ? null : (
         <div className="space-y-6">
           {sortedDates.map(dateKey => {
             const dateMatches = groupedMatches[dateKey];
@@ -151,14 +301,41 @@ export default function MatchHistory({
                         <div className="flex items-center">
                           <div className="font-semibold text-base sm:text-lg text-white flex-1 text-left">
                             {match.player1_name}
+                            {ratingChangeById.has(match.id) && (
+                              <RatingDelta
+                                delta={
+                                  ratingChangeById.get(match.id)?.delta ?? 0
+                                }
+                              />
+                            )}
+                            <TeamName
+                              team={match.team1}
+                              color={getTeamColor(match.team1, customTeams)}
+                            />
                           </div>
                           <div className="bg-gray-700 px-4 py-2 rounded-lg text-sm sm:text-base font-bold text-white mx-6 min-w-[80px] text-center flex-shrink-0">
                             {match.player1_goals} - {match.player2_goals}
                           </div>
                           <div className="font-semibold text-base sm:text-lg text-white flex-1 text-right">
+                            {ratingChangeById.has(match.id) && (
+                              <RatingDelta
+                                delta={
+                                  -(ratingChangeById.get(match.id)?.delta ?? 0)
+                                }
+                              />
+                            )}
                             {match.player2_name}
+                            <TeamName
+                              team={match.team2}
+                              color={getTeamColor(match.team2, customTeams)}
+                            />
                           </div>
                         </div>
+                        {hasHeadStart(match) && (
+                          <p className="text-xs text-gray-400 text-center">
+                            {getHeadStartNote(match)}
+                          </p>
+                        )}
 
                         {/* Bottom row - Action Button */}
                         <div className="flex justify-end">
@@ -0,0 +1,78 @@
+import { MatchPrediction } from '@/lib/api';
+
+interface MatchPredictionCardProps {
+  prediction: MatchPrediction;
+  player1Name: string;
+  player2Name: string;
+}
+
+const SCORELINES_SHOWN = 3;
+
+const percent = (probability: number) => `${Math.round(probability * 100)}%`;
+
+export default function MatchPredictionCard({
+  prediction,
+  player1Name,
+  player2Name,
+}: MatchPredictionCardProps) {
+  const outcomes = [
+    { label: player1Name, probability: prediction.win, color: 'bg-green-500' },
+    { label: 'Draw', probability: prediction.draw, color: 'bg-gray-500' },
+    { label: player2Name, probability: prediction.loss, color: 'bg-blue-500' },
+  ];
+
+  return (
+    <div className="mt-6 bg-[#2d3748] border border-gray-600 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-medium">Pre-match prediction</h3>
+        <span className="text-xs text-gray-400">
+          Expected goals {prediction.expected_goals[0].toFixed(1)} -{' '}
+          {prediction.expected_goals[1].toFixed(1)}
+        </span>
+      </div>
+
+      {/* Win / draw / loss split */}
+      <div className="flex h-3 rounded-full overflow-hidden mb-2">
+        {outcomes.map(outcome => (
+          <div
+            key={outcome.label}
+            className={outcome.color}
+            style={{ width: percent(outcome.probability) }}
+          />
+        ))}
+      </div>
+      <div className="grid grid-cols-3 text-xs sm:text-sm">
+        {outcomes.map((outcome, index) => (
+          <div
+            key={outcome.label}
+            className={
+              index === 0
+                ? 'text-left'
+                : index === 1
+                  ? 'text-center'
+                  : 'text-right'
+            }
+          >
+            <span className="text-white font-semibold">
+              {percent(outcome.probability)}
+            </span>{' '}
+            <span className="text-gray-400">{outcome.label}</span>
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-3 flex flex-wrap items-center gap-2 text-xs">
+        <span className="text-gray-400">Most likely:</span>
+        {prediction.scorelines.slice(0, SCORELINES_SHOWN).map(scoreline => (
+          <span
+            key={`${scoreline.player1_goals}-${scoreline.player2_goals}`}
+            className="px-2 py-1 bg-[#1a1f2e] rounded-full text-gray-300"
+          >
+            {scoreline.player1_goals} - {scoreline.player2_goals} (
+            {percent(scoreline.probability)})
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+'use client';
+
+import { getCachedAt, subscribeToConnectivity } from '@/lib/api';
+import { useSyncExternalStore } from 'react';
+
+function formatUpdatedAt(isoString: string): string {
+  const date = new Date(isoString);
+  const isToday = date.toDateString() === new Date().toDateString();
+  const time = date.toLocaleTimeString([], {
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+  return isToday ? `today at ${time}` : `${date.toLocaleDateString()} ${time}`;
+}
+
+// Shown while the data on screen comes from the service worker's offline
+// cache instead of the API
+export default function OfflineBanner() {
+  const cachedAt = useSyncExternalStore(
+    subscribeToConnectivity,
+    getCachedAt,
+    () => null
+  );
+
+  if (!cachedAt) {
+    return null;
+  }
+
+  return (
+    <div className="mb-4 p-3 bg-yellow-500/20 border border-yellow-500/30 rounded-lg">
+      <p className="text-yellow-300 text-sm">
+        You are offline. Showing data last updated {formatUpdatedAt(cachedAt)}.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+import { DEFAULT_ELO } from '@/lib/api';
+import { UserDetailedStats } from '@/types';
+
+interface PlayerComparisonProps {
+  players: UserDetailedStats[];
+}
+
+interface ComparisonRow {
+  label: string;
+  display: (stats: UserDetailedStats) => string;
+  // Rows with a value highlight the best player
+  value?: (stats: UserDetailedStats) => number;
+  better?: 'higher' | 'lower';
+}
+
+const eloRating = (stats: UserDetailedStats) => stats.elo_rating || DEFAULT_ELO;
+
+const ROWS: ComparisonRow[] = [
+  { label: 'Matches', display: stats => `${stats.total_matches}` },
+  {
+    label: 'Win rate',
+    display: stats => `${(stats.win_rate * 100).toFixed(1)}%`,
+    value: stats => stats.win_rate,
+    better: 'higher',
+  },
+  {
+    label: 'W / D / L',
+    display: stats => `${stats.wins} / ${stats.draws} / ${stats.losses}`,
+  },
+  {
+    label: 'Goals per match',
+    display: stats => stats.average_goals_scored.toFixed(2),
+    value: stats => stats.average_goals_scored,
+    better: 'higher',
+  },
+  {
+    label: 'Conceded per match',
+    display: stats => stats.average_goals_conceded.toFixed(2),
+    value: stats => stats.average_goals_conceded,
+    better: 'lower',
+  },
+  {
+    label: 'Elo rating',
+    display: stats => `${Math.round(eloRating(stats))}`,
+    value: eloRating,
+    better: 'higher',
+  },
+  {
+    label: 'Tournaments played',
+    display: stats => `${stats.tournaments_played}`,
+  },
+];
+
+const getDisplayName = (stats: UserDetailedStats) =>
+  stats.first_name || stats.username;
+
+export default function PlayerComparison({ players }: PlayerComparisonProps) {
+  // Players without matches are not compared
+  const isBest = (
+    { value, better }: ComparisonRow,
+    stats: UserDetailedStats
+  ) => {
+    const values = players
+      .filter(player => player.total_matches > 0)
+      .map(player => value?.(player) ?? 0);
+    if (!value || values.length < 2 || stats.total_matches === 0) {
+      return false;
+    }
+    const best = better === 'lower' ? Math.min(...values) : Math.max(...values);
+    return value(stats) === best;
+  };
+
+  return (
+    <div className="bg-[#1a1f2e] rounded-lg p-4 sm:p-6 overflow-x-auto">
+      <h3 className="text-lg sm:text-xl font-bold mb-3">Side by Side</h3>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left">
+            <th className="py-2 pr-2" />
+            {players.map(player => (
+              <th
+                key={player.id}
+                className="py-2 px-2 font-semibold text-center truncate max-w-[8rem]"
+              >
+                {getDisplayName(player)}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {ROWS.map(row => (
+            <tr key={row.label} className="border-t border-gray-700">
+              <td className="py-2 pr-2 text-gray-400 whitespace-nowrap">
+                {row.label}
+              </td>
+              {players.map(player => (
+                <td
+                  key={player.id}
+                  className={`py-2 px-2 text-center ${
+                    isBest(row, player)
+                      ? 'text-green-400 font-semibold'
+                      : 'text-white'
+                  }`}
+                >
+                  {row.display(player)}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+'use client';
+
+import { getErrorMessage, isCancelledError, searchUsers } from '@/lib/api';
+import { UserSearchResult } from '@/types';
+import { useEffect, useState } from 'react';
+
+interface PlayerPickerProps {
+  // Already chosen players are left out of the results
+  selectedIds: string[];
+  onSelect: (user: UserSearchResult) => void;
+  disabled?: boolean;
+  placeholder?: string;
+}
+
+const getDisplayName = (user: UserSearchResult) => {
+  if (user.first_name && user.last_name) {
+    return `${user.first_name} ${user.last_name}`;
+  }
+  return user.first_name || user.username;
+};
+
+export default function PlayerPicker({
+  selectedIds,
+  onSelect,
+  disabled = false,
+  placeholder = 'Search players by name or username...',
+}: PlayerPickerProps) {
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<UserSearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Search users with debounce
+  useEffect(() => {
+    if (!searchQuery.trim()) {
+      setSearchResults([]);
+      return;
+    }
+
+    const controller = new AbortController();
+
+    const timeoutId = setTimeout(async () => {
+      try {
+        setIsSearching(true);
+        setError(null);
+        const results = await searchUsers(searchQuery, 10, {
+          signal: controller.signal,
+        });
+        setSearchResults(results);
+      } catch (error) {
+        if (isCancelledError(error)) return;
+        console.error('Error searching users:', error);
+        setError(
+          getErrorMessage(error, 'Failed to search users. Please try again.')
+        );
+        setSearchResults([]);
+      } finally {
+        if (!controller.signal.aborted) {
+          setIsSearching(false);
+        }
+      }
+    }, 300);
+
+    return () => {
+      clearTimeout(timeoutId);
+      controller.abort();
+    };
+  }, [searchQuery]);
+
+  const results = searchResults.filter(user => !selectedIds.includes(user.id));
+
+  return (
+    <div className="relative">
+      <input
+        type="text"
+        placeholder={placeholder}
+        value={searchQuery}
+        disabled={disabled}
+        onChange={e => setSearchQuery(e.target.value)}
+        className="w-full px-4 py-3 bg-[#2d3748] border border-gray-600 rounded-lg text-sm text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 disabled:opacity-50"
+      />
+      {isSearching && (
+        <div className="absolute right-3 top-3">
+          <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-blue-500"></div>
+        </div>
+      )}
+      {error && <p className="text-red-400 text-sm mt-2">{error}</p>}
+      {searchQuery.trim() && !isSearching && !error && (
+        <ul className="mt-2 bg-[#2d3748] border border-gray-600 rounded-lg divide-y divide-gray-600 max-h-64 overflow-y-auto">
+          {results.length > 0 ? (
+            results.map(user => (
+              <li key={user.id}>
+                <button
+                  type="button"
+                  onClick={() => {
+                    onSelect(user);
+                    setSearchQuery('');
+                  }}
+                  className="w-full text-left px-4 py-2 hover:bg-[#374151] transition-colors"
+                >
+                  <span className="text-white">{getDisplayName(user)}</span>{' '}
+                  <span className="text-gray-400 text-sm">
+                    @{user.username}
+                  </span>
+                </button>
+              </li>
+            ))
+          ) : (
+            <li className="px-4 py-3 text-gray-400 text-sm">
+              No players found
+            </li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+'use client';
+
+import { useAuth } from '@/contexts/auth';
+import { getDisplayName } from '@/hooks/usePlayerSelection';
+import { UserDetailedStats } from '@/types';
+import PlayerPicker from './PlayerPicker';
+
+interface PlayerSelectionProps {
+  playerIds: string[];
+  stats: Record<string, UserDetailedStats>;
+  max: number;
+  onChange: (ids: string[]) => void;
+  // A dot per player, e.g. their line colour in the charts
+  colors?: string[];
+}
+
+export default function PlayerSelection({
+  playerIds,
+  stats,
+  max,
+  onChange,
+  colors,
+}: PlayerSelectionProps) {
+  const { user } = useAuth();
+  const isFull = playerIds.length >= max;
+
+  return (
+    <div className="bg-[#1a1f2e] rounded-lg p-4 sm:p-6 space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        {playerIds.map((id, index) => (
+          <span
+            key={id}
+            className="flex items-center gap-2 px-3 py-1 bg-[#2d3748] rounded-full text-sm"
+          >
+            {colors && (
+              <span
+                className="w-2 h-2 rounded-full"
+                style={{ backgroundColor: colors[index] }}
+              />
+            )}
+            {getDisplayName(stats[id])}
+            <button
+              onClick={() => onChange(playerIds.filter(other => other !== id))}
+              className="text-gray-400 hover:text-white"
+              aria-label={`Remove ${getDisplayName(stats[id])}`}
+            >
+              ×
+            </button>
+          </span>
+        ))}
+        {user?.id && !playerIds.includes(user.id) && !isFull && (
+          <button
+            onClick={() => onChange([...playerIds, user.id])}
+            className="px-3 py-1 border border-gray-600 rounded-full text-sm text-gray-300 hover:bg-[#2d3748] transition-colors"
+          >
+            + Add me
+          </button>
+        )}
+      </div>
+      <PlayerPicker
+        selectedIds={playerIds}
+        onSelect={selected => onChange([...playerIds, selected.id])}
+        disabled={isFull}
+        placeholder={
+          isFull ? `Up to ${max} players can be compared` : undefined
+        }
+      />
+    </div>
+  );
+}
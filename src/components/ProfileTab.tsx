@@ -1,6 +1,8 @@
 'use client';
 
 import { User, UserDetailedStats } from '@/types';
+import CustomTeamsEditor from './CustomTeamsEditor';
+import HeadStartStatsNote from './HeadStartStatsNote';
 
 interface ProfileTabProps {
   user: User | null;
@@ -42,6 +44,9 @@ export default function ProfileTab({
         </div>
       </div>
 
+      {/* Custom teams */}
+      <CustomTeamsEditor />
+
       {/* Statistics */}
       <div className="border-b border-gray-700 pb-6">
         <h3 className="text-lg font-semibold mb-4">Your Statistics</h3>
@@ -176,6 +181,7 @@ export default function ProfileTab({
                 Tournaments Played
               </div>
             </div>
+            <HeadStartStatsNote playerId={userStats.id} />
 
             {/* Head-to-Head Records */}
             {((userStats.highest_wins_against &&
@@ -0,0 +1,96 @@
+export interface RadarSeries {
+  id: string;
+  label: string;
+  color: string;
+  // One value between 0 and 1 per axis
+  values: number[];
+}
+
+interface RadarChartProps {
+  axes: string[];
+  series: RadarSeries[];
+}
+
+const SIZE = 300;
+const CENTER = SIZE / 2;
+const RADIUS = 100;
+const RINGS = [0.25, 0.5, 0.75, 1];
+
+// Axes run clockwise from the top
+const point = (axis: number, axisCount: number, value: number) => {
+  const angle = (2 * Math.PI * axis) / axisCount - Math.PI / 2;
+  return {
+    x: CENTER + Math.cos(angle) * RADIUS * value,
+    y: CENTER + Math.sin(angle) * RADIUS * value,
+  };
+};
+
+const polygon = (values: number[]) =>
+  values
+    .map((value, axis) => {
+      const { x, y } = point(axis, values.length, value);
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ');
+
+export default function RadarChart({ axes, series }: RadarChartProps) {
+  return (
+    <svg
+      viewBox={`0 0 ${SIZE} ${SIZE}`}
+      className="w-full max-w-sm h-auto mx-auto"
+      role="img"
+      aria-label={`Radar chart of ${axes.join(', ')}`}
+    >
+      {RINGS.map(ring => (
+        <polygon
+          key={ring}
+          points={polygon(axes.map(() => ring))}
+          fill="none"
+          stroke="#4b5563"
+        />
+      ))}
+      {axes.map((axis, index) => {
+        const end = point(index, axes.length, 1);
+        const label = point(index, axes.length, 1.2);
+        return (
+          <g key={axis}>
+            <line
+              x1={CENTER}
+              y1={CENTER}
+              x2={end.x}
+              y2={end.y}
+              stroke="#4b5563"
+            />
+            <text
+              x={label.x}
+              y={label.y + 4}
+              textAnchor="middle"
+              fontSize="12"
+              fill="#9ca3af"
+            >
+              {axis}
+            </text>
+          </g>
+        );
+      })}
+      {series.map(({ id, label, color, values }) => (
+        <polygon
+          key={id}
+          points={polygon(values)}
+          fill={color}
+          fillOpacity="0.15"
+          stroke={color}
+          strokeWidth="2"
+        >
+          <title>
+            {`${label}: ${values
+              .map(
+                (value, index) => `${axes[index]} ${Math.round(value * 100)}`
+              )
+              .join(', ')}`}
+          </title>
+        </polygon>
+      ))}
+    </svg>
+  );
+}
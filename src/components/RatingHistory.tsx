@@ -0,0 +1,173 @@
+import {
+  DEFAULT_ELO,
+  EloSettings,
+  formatRatingDelta,
+  K_FACTOR_OPTIONS,
+  RatingPoint,
+} from '@/lib/api';
+import { User } from '@/types';
+
+interface RatingHistoryProps {
+  timeline: RatingPoint[];
+  // For the opponents' names
+  players: User[];
+  settings: EloSettings;
+  onSettingsChange: (settings: EloSettings) => void;
+  isLoading?: boolean;
+}
+
+const WIDTH = 600;
+const HEIGHT = 200;
+const PADDING_X = 40;
+const PADDING_Y = 16;
+
+export default function RatingHistory({
+  timeline,
+  players,
+  settings,
+  onSettingsChange,
+  isLoading = false,
+}: RatingHistoryProps) {
+  const getPlayerName = (playerId: string) => {
+    const player = players.find(p => p.id === playerId);
+    return player?.first_name || player?.username || 'Unknown player';
+  };
+
+  // Everyone starts from the same rating
+  const ratings = [DEFAULT_ELO, ...timeline.map(point => point.rating)];
+  const highest = Math.max(...ratings);
+  const lowest = Math.min(...ratings);
+  const range = Math.max(highest - lowest, 1);
+  const x = (index: number) =>
+    PADDING_X +
+    (index * (WIDTH - 2 * PADDING_X)) / Math.max(ratings.length - 1, 1);
+  const y = (rating: number) =>
+    PADDING_Y + ((highest - rating) * (HEIGHT - 2 * PADDING_Y)) / range;
+  const path = ratings
+    .map((rating, index) => `${x(index).toFixed(1)},${y(rating).toFixed(1)}`)
+    .join(' ');
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+        <h4 className="text-md font-semibold">Rating History</h4>
+        <div className="flex items-center gap-3 text-sm">
+          <label className="flex items-center gap-2 text-gray-400">
+            K-factor
+            <select
+              value={settings.k_factor}
+              onChange={e =>
+                onSettingsChange({
+                  ...settings,
+                  k_factor: Number(e.target.value),
+                })
+              }
+              className="bg-[#1a1f2e] border border-gray-600 rounded-lg px-2 py-1 text-white"
+            >
+              {K_FACTOR_OPTIONS.map(option => (
+                <option key={option} value={option}>
+                  {option}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-2 text-gray-400">
+            <input
+              type="checkbox"
+              checked={settings.goal_difference_multiplier}
+              onChange={e =>
+                onSettingsChange({
+                  ...settings,
+                  goal_difference_multiplier: e.target.checked,
+                })
+              }
+            />
+            Goal difference counts
+          </label>
+        </div>
+      </div>
+
+      <div className="bg-[#2d3748] rounded-lg p-4">
+        {isLoading ? (
+          <p className="text-gray-400 text-center py-8">Loading history...</p>
+        ) : timeline.length === 0 ? (
+          <p className="text-gray-400 text-center py-8">
+            No completed matches yet
+          </p>
+        ) : (
+          <>
+            <svg
+              viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+              className="w-full h-auto"
+              role="img"
+              aria-label="Elo rating after each match"
+            >
+              {[highest, lowest].map(rating => (
+                <g key={rating}>
+                  <line
+                    x1={PADDING_X}
+                    x2={WIDTH - PADDING_X}
+                    y1={y(rating)}
+                    y2={y(rating)}
+                    stroke="#4b5563"
+                    strokeDasharray="4 4"
+                  />
+                  <text
+                    x={PADDING_X - 6}
+                    y={y(rating) + 4}
+                    textAnchor="end"
+                    fontSize="11"
+                    fill="#9ca3af"
+                  >
+                    {rating}
+                  </text>
+                </g>
+              ))}
+              <polyline
+                points={path}
+                fill="none"
+                stroke="#fb923c"
+                strokeWidth="2"
+                vectorEffect="non-scaling-stroke"
+              />
+              {timeline.map((point, index) => (
+                <circle
+                  key={point.match_id}
+                  cx={x(index + 1)}
+                  cy={y(point.rating)}
+                  r="3"
+                  fill={point.delta >= 0 ? '#4ade80' : '#f87171'}
+                >
+                  <title>
+                    {`${new Date(point.date).toLocaleDateString('en-US', {
+                      month: 'short',
+                      day: 'numeric',
+                    })} vs ${getPlayerName(point.opponent_id)}: ${formatRatingDelta(
+                      point.delta
+                    )} (${point.rating})`}
+                  </title>
+                </circle>
+              ))}
+            </svg>
+            <div className="grid grid-cols-3 gap-2 mt-3 text-center text-sm">
+              <div>
+                <div className="text-orange-400 font-bold">
+                  {timeline[timeline.length - 1].rating}
+                </div>
+                <div className="text-gray-400 text-xs">Replayed rating</div>
+              </div>
+              <div>
+                <div className="text-green-400 font-bold">{highest}</div>
+                <div className="text-gray-400 text-xs">Peak</div>
+              </div>
+              <div>
+                <div className="text-red-400 font-bold">{lowest}</div>
+                <div className="text-gray-400 text-xs">Lowest</div>
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,382 @@
+import { buildRivalry, RivalryMatch, RivalryMeeting } from '@/lib/api';
+import { useState } from 'react';
+
+interface RivalryDetailsProps {
+  player1Id: string;
+  player2Id: string;
+  player1Name: string;
+  player2Name: string;
+  matches: RivalryMatch[];
+  isLoading?: boolean;
+}
+
+const WIDTH = 600;
+const HEIGHT = 200;
+const PADDING_X = 32;
+const PADDING_Y = 16;
+const TEAMS_SHOWN = 5;
+
+// Select values for the competition filter
+const ALL_COMPETITIONS = 'all';
+const FRIENDLIES = 'friendlies';
+
+const competitionKey = (tournament_id?: string) => tournament_id ?? FRIENDLIES;
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+
+export default function RivalryDetails({
+  player1Id,
+  player2Id,
+  player1Name,
+  player2Name,
+  matches,
+  isLoading = false,
+}: RivalryDetailsProps) {
+  const [competition, setCompetition] = useState(ALL_COMPETITIONS);
+
+  const overall = buildRivalry(player1Id, player2Id, matches);
+  const rivalry =
+    competition === ALL_COMPETITIONS
+      ? overall
+      : buildRivalry(
+          player1Id,
+          player2Id,
+          matches.filter(
+            match => competitionKey(match.tournament_id) === competition
+          )
+        );
+
+  const winnerName = (winnerId?: string) =>
+    winnerId === player1Id
+      ? player1Name
+      : winnerId === player2Id
+        ? player2Name
+        : 'Draws';
+
+  // Cumulative wins; the chart starts from 0 - 0 before the first meeting
+  const highest = Math.max(
+    1,
+    ...rivalry.cumulative.map(point =>
+      Math.max(point.player1_wins, point.player2_wins, point.draws)
+    )
+  );
+  const x = (index: number) =>
+    PADDING_X +
+    (index * (WIDTH - 2 * PADDING_X)) / Math.max(rivalry.cumulative.length, 1);
+  const y = (wins: number) =>
+    PADDING_Y + ((highest - wins) * (HEIGHT - 2 * PADDING_Y)) / highest;
+  const line = (key: 'player1_wins' | 'player2_wins' | 'draws'): string =>
+    [0, ...rivalry.cumulative.map(point => point[key])]
+      .map((wins, index) => `${x(index).toFixed(1)},${y(wins).toFixed(1)}`)
+      .join(' ');
+  const series = [
+    { key: 'player1_wins' as const, label: player1Name, color: '#60a5fa' },
+    { key: 'draws' as const, label: 'Draws', color: '#9ca3af' },
+    { key: 'player2_wins' as const, label: player2Name, color: '#c084fc' },
+  ];
+
+  const renderScore = (meeting: RivalryMeeting) => (
+    <span className="font-semibold text-white">
+      {meeting.player1_goals} - {meeting.player2_goals}
+    </span>
+  );
+
+  if (isLoading) {
+    return (
+      <div className="bg-[#1a1f2e] rounded-lg p-4 sm:p-6">
+        <p className="text-gray-400 text-center py-8">Loading matches...</p>
+      </div>
+    );
+  }
+
+  if (overall.played === 0) {
+    return (
+      <div className="bg-[#1a1f2e] rounded-lg p-4 sm:p-6">
+        <p className="text-gray-400 text-center py-8">
+          No completed matches between these players yet
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Competition filter */}
+      <div className="bg-[#1a1f2e] rounded-lg p-4 sm:p-6 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <div>
+          <h3 className="text-lg sm:text-xl font-bold">Rivalry</h3>
+          <p className="text-sm text-gray-400">
+            {rivalry.player1_wins} - {rivalry.draws} - {rivalry.player2_wins} in{' '}
+            {rivalry.played} {rivalry.played === 1 ? 'match' : 'matches'}, goals{' '}
+            {rivalry.player1_goals} - {rivalry.player2_goals}
+          </p>
+          <p className="text-xs text-gray-500 mt-1">
+            Counts every completed match between the two, in tournaments and
+            friendlies, with any handicap head start in the score. Matches still
+            waiting to sync are not counted.
+          </p>
+        </div>
+        <select
+          value={competition}
+          onChange={e => setCompetition(e.target.value)}
+          className="bg-[#2d3748] border border-gray-600 rounded-lg px-3 py-2 text-sm text-white"
+        >
+          <option value={ALL_COMPETITIONS}>All competitions</option>
+          {overall.tournaments.map(split => (
+            <option
+              key={competitionKey(split.tournament_id)}
+              value={competitionKey(split.tournament_id)}
+            >
+              {split.tournament_name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* Cumulative wins */}
+      <div className="bg-[#1a1f2e] rounded-lg p-4 sm:p-6">
+        <h3 className="text-lg font-bold mb-3">Wins Over Time</h3>
+        <svg
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          className="w-full h-auto"
+          role="img"
+          aria-label="Cumulative wins and draws after each meeting"
+        >
+          {[0, highest].map(wins => (
+            <g key={wins}>
+              <line
+                x1={PADDING_X}
+                x2={WIDTH - PADDING_X}
+                y1={y(wins)}
+                y2={y(wins)}
+                stroke="#4b5563"
+                strokeDasharray="4 4"
+              />
+              <text
+                x={PADDING_X - 6}
+                y={y(wins) + 4}
+                textAnchor="end"
+                fontSize="11"
+                fill="#9ca3af"
+              >
+                {wins}
+              </text>
+            </g>
+          ))}
+          {series.map(({ key, color }) => (
+            <polyline
+              key={key}
+              points={line(key)}
+              fill="none"
+              stroke={color}
+              strokeWidth="2"
+              vectorEffect="non-scaling-stroke"
+            />
+          ))}
+          {rivalry.meetings.map((meeting, index) => (
+            <circle
+              key={meeting.match.match.id}
+              cx={x(index + 1)}
+              cy={y(
+                meeting.winner_id === player1Id
+                  ? rivalry.cumulative[index].player1_wins
+                  : meeting.winner_id === player2Id
+                    ? rivalry.cumulative[index].player2_wins
+                    : rivalry.cumulative[index].draws
+              )}
+              r="3"
+              fill={
+                meeting.winner_id === player1Id
+                  ? '#60a5fa'
+                  : meeting.winner_id === player2Id
+                    ? '#c084fc'
+                    : '#9ca3af'
+              }
+            >
+              <title>
+                {`${formatDate(meeting.match.match.date)}: ${player1Name} ${
+                  meeting.player1_goals
+                } - ${meeting.player2_goals} ${player2Name}`}
+              </title>
+            </circle>
+          ))}
+        </svg>
+        <div className="flex justify-center gap-4 mt-2 text-xs">
+          {series.map(({ key, label, color }) => (
+            <span key={key} className="flex items-center gap-1 text-gray-400">
+              <span
+                className="w-3 h-0.5 inline-block"
+                style={{ backgroundColor: color }}
+              />
+              {label}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {/* Biggest wins and streaks */}
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        {[
+          { name: player1Name, meeting: rivalry.biggest_win.player1 },
+          { name: player2Name, meeting: rivalry.biggest_win.player2 },
+        ].map(({ name, meeting }) => (
+          <div key={name} className="bg-[#1a1f2e] rounded-lg p-4">
+            <p className="text-xs text-gray-400 mb-1 truncate">
+              Biggest win for {name}
+            </p>
+            {meeting ? (
+              <>
+                <p className="text-xl">{renderScore(meeting)}</p>
+                <p className="text-xs text-gray-400 truncate">
+                  {meeting.player1_team} vs {meeting.player2_team},{' '}
+                  {formatDate(meeting.match.match.date)}
+                </p>
+              </>
+            ) : (
+              <p className="text-gray-500">No wins yet</p>
+            )}
+          </div>
+        ))}
+        <div className="bg-[#1a1f2e] rounded-lg p-4">
+          <p className="text-xs text-gray-400 mb-1">Current streak</p>
+          {rivalry.streak && (
+            <p className="text-xl font-semibold">
+              {rivalry.streak.winner_id
+                ? `${rivalry.streak.length} ${
+                    rivalry.streak.length === 1 ? 'win' : 'wins'
+                  } for ${winnerName(rivalry.streak.winner_id)}`
+                : `${rivalry.streak.length} ${
+                    rivalry.streak.length === 1 ? 'draw' : 'draws'
+                  }`}
+            </p>
+          )}
+          <p className="text-xs text-gray-400">
+            Longest: {rivalry.longest_streak.player1} ({player1Name}),{' '}
+            {rivalry.longest_streak.player2} ({player2Name})
+          </p>
+        </div>
+      </div>
+
+      {/* Teams used */}
+      <div className="bg-[#1a1f2e] rounded-lg p-4 sm:p-6">
+        <h3 className="text-lg font-bold mb-3">Teams Used</h3>
+        <div className="grid grid-cols-2 gap-4 sm:gap-6">
+          {[
+            { name: player1Name, teams: rivalry.teams.player1 },
+            { name: player2Name, teams: rivalry.teams.player2 },
+          ].map(({ name, teams }) => (
+            <div key={name}>
+              <p className="text-gray-400 text-xs sm:text-sm mb-2 truncate">
+                {name}
+              </p>
+              <ul className="space-y-1 text-sm">
+                {teams.slice(0, TEAMS_SHOWN).map(team => (
+                  <li
+                    key={team.team}
+                    className="flex items-center justify-between gap-2"
+                  >
+                    <span className="truncate">{team.team}</span>
+                    <span className="text-gray-400 whitespace-nowrap">
+                      {team.played}x, {team.wins}W
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Per competition */}
+      {competition === ALL_COMPETITIONS && (
+        <div className="bg-[#1a1f2e] rounded-lg p-4 sm:p-6 overflow-x-auto">
+          <h3 className="text-lg font-bold mb-3">By Competition</h3>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-gray-400 text-left">
+                <th className="py-2 pr-2 font-medium">Competition</th>
+                <th className="py-2 px-2 font-medium text-center">P</th>
+                <th className="py-2 px-2 font-medium text-center text-blue-400">
+                  W
+                </th>
+                <th className="py-2 px-2 font-medium text-center">D</th>
+                <th className="py-2 px-2 font-medium text-center text-purple-400">
+                  W
+                </th>
+                <th className="py-2 pl-2 font-medium text-center">Goals</th>
+              </tr>
+            </thead>
+            <tbody>
+              {overall.tournaments.map(split => (
+                <tr
+                  key={competitionKey(split.tournament_id)}
+                  className="border-t border-gray-700 cursor-pointer hover:bg-[#2d3748]"
+                  onClick={() =>
+                    setCompetition(competitionKey(split.tournament_id))
+                  }
+                >
+                  <td className="py-2 pr-2 truncate max-w-[10rem]">
+                    {split.tournament_name}
+                  </td>
+                  <td className="py-2 px-2 text-center">{split.played}</td>
+                  <td className="py-2 px-2 text-center text-blue-400">
+                    {split.player1_wins}
+                  </td>
+                  <td className="py-2 px-2 text-center">{split.draws}</td>
+                  <td className="py-2 px-2 text-center text-purple-400">
+                    {split.player2_wins}
+                  </td>
+                  <td className="py-2 pl-2 text-center">
+                    {split.player1_goals} - {split.player2_goals}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Every meeting, newest first */}
+      <div className="bg-[#1a1f2e] rounded-lg p-4 sm:p-6">
+        <h3 className="text-lg font-bold mb-3">All Meetings</h3>
+        <ul className="divide-y divide-gray-700">
+          {[...rivalry.meetings].reverse().map(meeting => (
+            <li
+              key={meeting.match.match.id}
+              className="py-2 flex items-center justify-between gap-3 text-sm"
+            >
+              <div className="min-w-0">
+                <p className="text-gray-300 truncate">
+                  {meeting.player1_team}{' '}
+                  <span className="mx-1">{renderScore(meeting)}</span>{' '}
+                  {meeting.player2_team}
+                </p>
+                <p className="text-xs text-gray-500 truncate">
+                  {formatDate(meeting.match.match.date)}
+                  {meeting.match.tournament_name &&
+                    ` · ${meeting.match.tournament_name}`}
+                </p>
+              </div>
+              <span
+                className={`text-xs font-semibold px-2 py-1 rounded-full whitespace-nowrap ${
+                  meeting.winner_id === player1Id
+                    ? 'bg-blue-500/20 text-blue-400'
+                    : meeting.winner_id === player2Id
+                      ? 'bg-purple-500/20 text-purple-400'
+                      : 'bg-gray-500/20 text-gray-400'
+                }`}
+              >
+                {meeting.winner_id ? winnerName(meeting.winner_id) : 'Draw'}
+              </span>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
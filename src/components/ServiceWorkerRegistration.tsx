@@ -0,0 +1,23 @@
+'use client';
+
+import { useEffect } from 'react';
+
+// Registers public/sw.js, which makes the app installable and keeps the last
+// fetched tournament data available offline. Skipped in development, where a
+// caching service worker gets in the way of hot reloading.
+export default function ServiceWorkerRegistration() {
+  useEffect(() => {
+    if (
+      process.env.NODE_ENV !== 'production' ||
+      !('serviceWorker' in navigator)
+    ) {
+      return;
+    }
+
+    navigator.serviceWorker.register('/sw.js').catch(error => {
+      console.error('Service worker registration failed:', error);
+    });
+  }, []);
+
+  return null;
+}
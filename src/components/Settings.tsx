@@ -1,9 +1,44 @@
+import { GAME_EDITIONS, LATEST_EDITION } from '@/constants/teams';
 import { useAuth } from '@/contexts/auth';
-import { createTournament, getFriends, getPlayers } from '@/lib/api';
-import { Friend, User } from '@/types';
+import {
+  canPairAdjacentGroups,
+  createDraft,
+  createTournament,
+  DEFAULT_HANDICAP,
+  DEFAULT_RULES,
+  DRAFT_ROUND_OPTIONS,
+  drawGroups,
+  getErrorMessage,
+  getFriends,
+  getPlayers,
+  groupName,
+  HANDICAP_MODE_LABELS,
+  maxSwissRounds,
+  recommendedSwissRounds,
+  seedPlayers,
+} from '@/lib/api';
+import {
+  Friend,
+  GameEdition,
+  GroupCrossover,
+  GroupDrawMethod,
+  HandicapMode,
+  HandicapSettings,
+  KnockoutSeeding,
+  RoundRobinFormat,
+  TournamentDetails,
+  TournamentRules,
+  TournamentFormat,
+  User,
+} from '@/types';
 import { useEffect, useRef, useState } from 'react';
+import { useToast } from './ToastProvider';
+import TournamentRulesEditor from './TournamentRulesEditor';
 import UserTournaments from './UserTournaments';
 
+const HANDICAP_STEP_OPTIONS = [100, 150, 200, 250, 300];
+const HANDICAP_MAX_STEP_OPTIONS = [1, 2, 3, 4];
+
 interface SettingsProps {
   onTournamentCreated?: (
     tournamentId?: string,
@@ -13,6 +48,7 @@ interface SettingsProps {
 
 export default function Settings({ onTournamentCreated }: SettingsProps) {
   const { user } = useAuth();
+  const { showToast } = useToast();
   const [name, setName] = useState('');
   const [description, setDescription] = useState('');
   const [player_ids, setPlayer_ids] = useState<string[]>([]);
@@ -22,6 +58,24 @@ export default function Settings({ onTournamentCreated }: SettingsProps) {
   const [isDropdownOpen, setIsDropdownOpen] = useState(false);
   const [selectedPlayers, setSelectedPlayers] = useState<User[]>([]);
   const [activeTab, setActiveTab] = useState<'create' | 'manage'>('create');
+  const [format, setFormat] = useState<TournamentFormat>('league');
+  const [rules, setRules] = useState<TournamentRules>(DEFAULT_RULES);
+  const [edition, setEdition] = useState<GameEdition>(LATEST_EDITION);
+  // null plays every match level
+  const [handicap, setHandicap] = useState<HandicapSettings | null>(null);
+  // Teams each player drafts; null lets everyone pick freely
+  const [draftRounds, setDraftRounds] = useState<number | null>(null);
+  const [seeding, setSeeding] = useState<KnockoutSeeding>('random');
+  // null follows the recommended count for the selected players
+  const [swissRounds, setSwissRounds] = useState<number | null>(null);
+  const [twoLegged, setTwoLegged] = useState(false);
+  const [awayGoals, setAwayGoals] = useState(false);
+  const [groupCount, setGroupCount] = useState(2);
+  const [qualifiersPerGroup, setQualifiersPerGroup] = useState(2);
+  const [groupDraw, setGroupDraw] = useState<GroupDrawMethod>('random');
+  const [groupFormat, setGroupFormat] = useState<RoundRobinFormat>('single');
+  const [crossover, setCrossover] = useState<GroupCrossover>('adjacent');
+  const [manualGroups, setManualGroups] = useState<Record<string, number>>({});
   const dropdownRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
@@ -114,6 +168,11 @@ export default function Settings({ onTournamentCreated }: SettingsProps) {
     setPlayer_ids(prev => prev.filter(id => id !== playerId));
   };
 
+  // Players keep the group picked for them, or are dealt across the groups
+  // in the order they were added
+  const getManualGroup = (playerId: string, index: number) =>
+    Math.min(manualGroups[playerId] ?? index % groupCount, groupCount - 1);
+
   const handleCreateTournament = async () => {
     try {
       // Ensure current user is included in player_ids
@@ -122,31 +181,140 @@ export default function Settings({ onTournamentCreated }: SettingsProps) {
         finalPlayerIds.push(user.id);
       }
 
+      // Knockout and group draws are made once, here, and stored with the
+      // tournament
+      const details: TournamentDetails = { format, rules, edition };
+      if (handicap) {
+        details.handicap = handicap;
+      }
+      const ratings: Record<string, number | undefined> = {};
+      [...allPlayers, ...friends].forEach(player => {
+        ratings[player.id] ??= player.elo_rating;
+      });
+      if (draftRounds) {
+        details.draft = createDraft(finalPlayerIds, ratings, draftRounds);
+      }
+      if (format === 'knockout') {
+        details.knockout = {
+          seeding,
+          two_legged: twoLegged,
+          away_goals: twoLegged && awayGoals,
+          seeds: seedPlayers(finalPlayerIds, seeding, ratings),
+        };
+      } else if (format === 'swiss') {
+        details.swiss = {
+          rounds: Math.min(
+            swissRounds ?? recommendedSwissRounds(finalPlayerIds.length),
+            maxSwissRounds(finalPlayerIds.length)
+          ),
+          seeding,
+          seeds: seedPlayers(finalPlayerIds, seeding, ratings),
+        };
+      } else if (format === 'groups') {
+        const groups =
+          groupDraw === 'manual'
+            ? Array.from({ length: groupCount }, (_, group) =>
+                finalPlayerIds.filter(
+                  (id, index) => getManualGroup(id, index) === group
+                )
+              )
+            : drawGroups(finalPlayerIds, groupCount, groupDraw, ratings);
+
+        if (groups.some(group => group.length < 2)) {
+          showToast('Every group needs at least two players', 'error');
+          return;
+        }
+        if (groups.some(group => group.length < qualifiersPerGroup)) {
+          showToast(
+            `Every group needs at least ${qualifiersPerGroup} players to send ${qualifiersPerGroup} through`,
+            'error'
+          );
+          return;
+        }
+
+        details.group_stage = {
+          draw: groupDraw,
+          groups,
+          group_format: groupFormat,
+          qualifiers_per_group: qualifiersPerGroup,
+          crossover,
+          two_legged: twoLegged,
+          away_goals: twoLegged && awayGoals,
+        };
+      }
+
       const tournament = await createTournament(
         name,
         description,
-        finalPlayerIds
+        finalPlayerIds,
+        details
       );
-      if (tournament) {
-        // Reset form
-        setName('');
-        setDescription('');
-        setPlayer_ids([]);
-        setSelectedPlayers([]);
-
-        // Switch to manage tab to show the new tournament
-        setActiveTab('manage');
-
-        // Refresh the tournament list in the parent component and set as active
-        if (onTournamentCreated) {
-          onTournamentCreated(tournament.id);
-        }
+      // Reset form
+      setName('');
+      setDescription('');
+      setFormat('league');
+      setRules(DEFAULT_RULES);
+      setEdition(LATEST_EDITION);
+      setHandicap(null);
+      setDraftRounds(null);
+      setSwissRounds(null);
+      setManualGroups({});
+      setPlayer_ids([]);
+      setSelectedPlayers([]);
+
+      // Switch to manage tab to show the new tournament
+      setActiveTab('manage');
+
+      // Refresh the tournament list in the parent component and set as active
+      if (onTournamentCreated) {
+        onTournamentCreated(tournament.id);
       }
     } catch (error) {
       console.error('Error creating tournament:', error);
+      showToast(
+        getErrorMessage(
+          error,
+          'Failed to create tournament. Please try again.'
+        ),
+        'error'
+      );
     }
   };
 
+  // Shared by the knockout and group stage options
+  const legOptions = (
+    <>
+      <div className="flex items-center space-x-2">
+        <input
+          type="checkbox"
+          id="knockout-two-legged"
+          checked={twoLegged}
+          onChange={e => setTwoLegged(e.target.checked)}
+          className="rounded border-gray-600 bg-[#1a1f2e] text-green-500"
+        />
+        <label htmlFor="knockout-two-legged" className="text-sm font-medium">
+          Two-legged ties (the final is a single match)
+        </label>
+      </div>
+      <div className="flex items-center space-x-2">
+        <input
+          type="checkbox"
+          id="knockout-away-goals"
+          checked={twoLegged && awayGoals}
+          disabled={!twoLegged}
+          onChange={e => setAwayGoals(e.target.checked)}
+          className="rounded border-gray-600 bg-[#1a1f2e] text-green-500"
+        />
+        <label
+          htmlFor="knockout-away-goals"
+          className={`text-sm font-medium ${twoLegged ? '' : 'text-gray-500'}`}
+        >
+          Away goals decide level aggregates
+        </label>
+      </div>
+    </>
+  );
+
   return (
     <div className="space-y-6">
       {/* Tab Navigation */}
@@ -206,6 +374,359 @@ export default function Settings({ onTournamentCreated }: SettingsProps) {
                 />
               </div>
 
+              <div>
+                <label className="block text-sm font-medium mb-2">Format</label>
+                <select
+                  value={format}
+                  onChange={e => setFormat(e.target.value as TournamentFormat)}
+                  className="w-full bg-[#2d3748] border border-gray-600 rounded-lg px-3 py-2 text-white"
+                >
+                  <option value="league">League</option>
+                  <option value="knockout">Knockout</option>
+                  <option value="groups">Groups then knockout</option>
+                  <option value="swiss">Swiss</option>
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium mb-2">
+                  Game Edition
+                </label>
+                <select
+                  value={edition}
+                  onChange={e => setEdition(e.target.value as GameEdition)}
+                  className="w-full bg-[#2d3748] border border-gray-600 rounded-lg px-3 py-2 text-white"
+                >
+                  {GAME_EDITIONS.map(option => (
+                    <option key={option.id} value={option.id}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-400 mt-1">
+                  Matches in this tournament can only be logged with teams from
+                  this edition.
+                </p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium mb-2">
+                  Handicap
+                </label>
+                <select
+                  value={handicap?.mode ?? 'off'}
+                  onChange={e =>
+                    setHandicap(
+                      e.target.value === 'off'
+                        ? null
+                        : {
+                            ...(handicap ?? DEFAULT_HANDICAP),
+                            mode: e.target.value as HandicapMode,
+                          }
+                    )
+                  }
+                  className="w-full bg-[#2d3748] border border-gray-600 rounded-lg px-3 py-2 text-white"
+                >
+                  <option value="off">Off</option>
+                  {(Object.keys(HANDICAP_MODE_LABELS) as HandicapMode[]).map(
+                    mode => (
+                      <option key={mode} value={mode}>
+                        {HANDICAP_MODE_LABELS[mode]}
+                      </option>
+                    )
+                  )}
+                </select>
+                {handicap && (
+                  <div className="grid grid-cols-2 gap-4 mt-3">
+                    <div>
+                      <label className="block text-xs text-gray-400 mb-1">
+                        Elo gap per{' '}
+                        {handicap.mode === 'head_start' ? 'goal' : 'half star'}
+                      </label>
+                      <select
+                        value={handicap.elo_per_step}
+                        onChange={e =>
+                          setHandicap({
+                            ...handicap,
+                            elo_per_step: Number(e.target.value),
+                          })
+                        }
+                        className="w-full bg-[#2d3748] border border-gray-600 rounded-lg px-3 py-2 text-white"
+                      >
+                        {HANDICAP_STEP_OPTIONS.map(step => (
+                          <option key={step} value={step}>
+                            {step}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-xs text-gray-400 mb-1">
+                        At most
+                      </label>
+                      <select
+                        value={handicap.max_steps}
+                        onChange={e =>
+                          setHandicap({
+                            ...handicap,
+                            max_steps: Number(e.target.value),
+                          })
+                        }
+                        className="w-full bg-[#2d3748] border border-gray-600 rounded-lg px-3 py-2 text-white"
+                      >
+                        {HANDICAP_MAX_STEP_OPTIONS.map(steps => (
+                          <option key={steps} value={steps}>
+                            {handicap.mode === 'head_start'
+                              ? `${steps} ${steps === 1 ? 'goal' : 'goals'}`
+                              : `${steps * 0.5}★`}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  </div>
+                )}
+                <p className="text-xs text-gray-400 mt-1">
+                  Evens out matches between players with very different Elo
+                  ratings. Head starts count towards the table but not towards
+                  player stats or Elo.
+                </p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium mb-2">
+                  Team Draft
+                </label>
+                <select
+                  value={draftRounds ?? 0}
+                  onChange={e => setDraftRounds(Number(e.target.value) || null)}
+                  className="w-full bg-[#2d3748] border border-gray-600 rounded-lg px-3 py-2 text-white"
+                >
+                  <option value={0}>Off</option>
+                  {DRAFT_ROUND_OPTIONS.map(rounds => (
+                    <option key={rounds} value={rounds}>
+                      {rounds} {rounds === 1 ? 'team' : 'teams'} per player
+                    </option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-400 mt-1">
+                  Players take turns drafting teams before the first match, the
+                  lowest rated first. Matches can then only be logged with
+                  drafted teams.
+                </p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium mb-2">Rules</label>
+                <div className="bg-[#2d3748] border border-gray-600 rounded-lg p-4">
+                  <TournamentRulesEditor rules={rules} onChange={setRules} />
+                </div>
+              </div>
+
+              {format === 'swiss' && (
+                <div className="bg-[#2d3748] border border-gray-600 rounded-lg p-4 space-y-3">
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium mb-2">
+                        Rounds
+                      </label>
+                      <input
+                        type="number"
+                        min={1}
+                        max={maxSwissRounds(selectedPlayers.length)}
+                        value={Math.min(
+                          swissRounds ??
+                            recommendedSwissRounds(selectedPlayers.length),
+                          maxSwissRounds(selectedPlayers.length)
+                        )}
+                        onChange={e =>
+                          setSwissRounds(Math.max(1, Number(e.target.value)))
+                        }
+                        className="w-full bg-[#1a1f2e] border border-gray-600 rounded-lg px-3 py-2 text-white"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium mb-2">
+                        Round 1 seeding
+                      </label>
+                      <select
+                        value={seeding}
+                        onChange={e =>
+                          setSeeding(e.target.value as KnockoutSeeding)
+                        }
+                        className="w-full bg-[#1a1f2e] border border-gray-600 rounded-lg px-3 py-2 text-white"
+                      >
+                        <option value="random">Random draw</option>
+                        <option value="elo">By ELO rating</option>
+                      </select>
+                    </div>
+                  </div>
+                  <p className="text-xs text-gray-400">
+                    Each round pairs players on the same points without
+                    rematches. Ties are broken by Buchholz, then
+                    Sonneborn-Berger.
+                  </p>
+                </div>
+              )}
+
+              {format === 'knockout' && (
+                <div className="bg-[#2d3748] border border-gray-600 rounded-lg p-4 space-y-3">
+                  <div>
+                    <label className="block text-sm font-medium mb-2">
+                      Seeding
+                    </label>
+                    <select
+                      value={seeding}
+                      onChange={e =>
+                        setSeeding(e.target.value as KnockoutSeeding)
+                      }
+                      className="w-full bg-[#1a1f2e] border border-gray-600 rounded-lg px-3 py-2 text-white"
+                    >
+                      <option value="random">Random draw</option>
+                      <option value="elo">By ELO rating</option>
+                    </select>
+                    <p className="text-xs text-gray-400 mt-1">
+                      Top seeds get the byes when the player count is not a
+                      power of two.
+                    </p>
+                  </div>
+                  {legOptions}
+                </div>
+              )}
+
+              {format === 'groups' && (
+                <div className="bg-[#2d3748] border border-gray-600 rounded-lg p-4 space-y-3">
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium mb-2">
+                        Groups
+                      </label>
+                      <input
+                        type="number"
+                        min={2}
+                        value={groupCount}
+                        onChange={e =>
+                          setGroupCount(Math.max(2, Number(e.target.value)))
+                        }
+                        className="w-full bg-[#1a1f2e] border border-gray-600 rounded-lg px-3 py-2 text-white"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium mb-2">
+                        Qualifiers per group
+                      </label>
+                      <input
+                        type="number"
+                        min={1}
+                        value={qualifiersPerGroup}
+                        onChange={e =>
+                          setQualifiersPerGroup(
+                            Math.max(1, Number(e.target.value))
+                          )
+                        }
+                        className="w-full bg-[#1a1f2e] border border-gray-600 rounded-lg px-3 py-2 text-white"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium mb-2">
+                        Group draw
+                      </label>
+                      <select
+                        value={groupDraw}
+                        onChange={e =>
+                          setGroupDraw(e.target.value as GroupDrawMethod)
+                        }
+                        className="w-full bg-[#1a1f2e] border border-gray-600 rounded-lg px-3 py-2 text-white"
+                      >
+                        <option value="random">Random</option>
+                        <option value="pots">Seeded pots by ELO</option>
+                        <option value="manual">Manual</option>
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium mb-2">
+                        Group matches
+                      </label>
+                      <select
+                        value={groupFormat}
+                        onChange={e =>
+                          setGroupFormat(e.target.value as RoundRobinFormat)
+                        }
+                        className="w-full bg-[#1a1f2e] border border-gray-600 rounded-lg px-3 py-2 text-white"
+                      >
+                        <option value="single">Play each other once</option>
+                        <option value="double">Home and away</option>
+                      </select>
+                    </div>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium mb-2">
+                      Knockout pairings
+                    </label>
+                    <select
+                      value={crossover}
+                      onChange={e =>
+                        setCrossover(e.target.value as GroupCrossover)
+                      }
+                      className="w-full bg-[#1a1f2e] border border-gray-600 rounded-lg px-3 py-2 text-white"
+                    >
+                      <option value="adjacent">
+                        Cross-over (A1 v B2, B1 v A2, ...)
+                      </option>
+                      <option value="seeded">Seeded by group record</option>
+                    </select>
+                    {crossover === 'adjacent' &&
+                      !canPairAdjacentGroups(
+                        groupCount,
+                        qualifiersPerGroup
+                      ) && (
+                        <p className="text-xs text-yellow-400 mt-1">
+                          Cross-over needs an even number of groups that fill a
+                          whole bracket; qualifiers will be seeded instead.
+                        </p>
+                      )}
+                  </div>
+                  {groupDraw === 'manual' && (
+                    <div>
+                      <label className="block text-sm font-medium mb-2">
+                        Assign players
+                      </label>
+                      <div className="space-y-2">
+                        {selectedPlayers.map((player, index) => (
+                          <div
+                            key={player.id}
+                            className="flex items-center gap-3"
+                          >
+                            <span className="flex-1 text-sm text-white truncate">
+                              {player.first_name || player.username}
+                            </span>
+                            <select
+                              value={getManualGroup(player.id, index)}
+                              onChange={e =>
+                                setManualGroups(prev => ({
+                                  ...prev,
+                                  [player.id]: Number(e.target.value),
+                                }))
+                              }
+                              className="bg-[#1a1f2e] border border-gray-600 rounded-lg px-3 py-1 text-white text-sm"
+                            >
+                              {Array.from(
+                                { length: groupCount },
+                                (_, group) => (
+                                  <option key={group} value={group}>
+                                    Group {groupName(group)}
+                                  </option>
+                                )
+                              )}
+                            </select>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                  {legOptions}
+                </div>
+              )}
+
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <div>
                   <label className="block text-sm font-medium mb-2">
@@ -0,0 +1,110 @@
+import { SwissState } from '@/lib/api';
+import { Fixture, User } from '@/types';
+
+interface SwissRoundsProps {
+  swiss: SwissState;
+  totalRounds: number;
+  players: User[];
+  isLoading?: boolean;
+  isTournamentCompleted?: boolean;
+  onPairingClick?: (pairing: Fixture) => void;
+}
+
+export default function SwissRounds({
+  swiss,
+  totalRounds,
+  players,
+  isLoading = false,
+  isTournamentCompleted = false,
+  onPairingClick,
+}: SwissRoundsProps) {
+  const getPlayerName = (playerId: string) => {
+    const player = players.find(p => p.id === playerId);
+    return player?.first_name || player?.username || 'Unknown player';
+  };
+
+  // Latest round first
+  const rounds = [...swiss.rounds].reverse();
+  const currentRound = swiss.rounds[swiss.rounds.length - 1];
+
+  return (
+    <div className="bg-[#1a1f2e] rounded-lg p-4 sm:p-6">
+      <div className="mb-4">
+        <h2 className="text-xl sm:text-2xl font-bold">Rounds</h2>
+        <p className="text-sm text-gray-400 mt-1">
+          {swiss.finished
+            ? `All ${totalRounds} rounds played`
+            : currentRound
+              ? `Round ${currentRound.round} of ${totalRounds}. The next round is paired once every match is logged.`
+              : `${totalRounds} rounds`}
+        </p>
+      </div>
+
+      {isLoading ? (
+        <div className="text-center py-8">
+          <p className="text-gray-400">Loading rounds...</p>
+        </div>
+      ) : rounds.length === 0 ? (
+        <div className="text-center py-8">
+          <p className="text-gray-400 text-lg">Not enough players</p>
+          <p className="text-gray-500 text-sm mt-2">
+            Add at least two players to the tournament to pair a round
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {rounds.map(({ round, pairings, bye }) => (
+            <div key={round} className="space-y-3">
+              <h3 className="text-lg font-semibold text-gray-300 border-b border-gray-600 pb-2">
+                Round {round}
+              </h3>
+              {pairings.map(pairing => (
+                <div
+                  key={pairing.id}
+                  className={`rounded-lg p-3 sm:p-4 flex items-center gap-3 ${
+                    pairing.result
+                      ? 'bg-[#1e293b] border border-green-600/40'
+                      : 'bg-[#2d3748] border border-gray-600'
+                  }`}
+                >
+                  <div className="font-semibold text-sm sm:text-base text-white flex-1 text-left">
+                    {getPlayerName(pairing.home_id)}
+                  </div>
+                  <div className="bg-gray-700 px-3 py-1 rounded-lg text-sm font-bold text-white min-w-[64px] text-center flex-shrink-0">
+                    {pairing.result
+                      ? pairing.result.player1_id === pairing.home_id
+                        ? `${pairing.result.match.player1_goals} - ${pairing.result.match.player2_goals}`
+                        : `${pairing.result.match.player2_goals} - ${pairing.result.match.player1_goals}`
+                      : 'vs'}
+                  </div>
+                  <div className="font-semibold text-sm sm:text-base text-white flex-1 text-right">
+                    {getPlayerName(pairing.away_id)}
+                  </div>
+                  {!pairing.result && onPairingClick && (
+                    <button
+                      type="button"
+                      onClick={() => onPairingClick(pairing)}
+                      disabled={isTournamentCompleted}
+                      className={`px-3 py-2 rounded-lg text-sm font-medium transition-all duration-200 ${
+                        isTournamentCompleted
+                          ? 'bg-gray-500 text-gray-300 cursor-not-allowed'
+                          : 'bg-blue-500 hover:bg-blue-600 text-white'
+                      }`}
+                    >
+                      Log
+                    </button>
+                  )}
+                </div>
+              ))}
+              {bye && (
+                <p className="text-sm text-gray-400">
+                  {getPlayerName(bye)} has a bye this round
+                </p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
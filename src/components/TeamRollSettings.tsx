@@ -0,0 +1,124 @@
+import { TeamRollConstraints } from '@/types';
+
+interface TeamRollSettingsProps {
+  constraints: TeamRollConstraints;
+  onChange: (constraints: TeamRollConstraints) => void;
+  // Leagues of the tournament's edition
+  leagues: string[];
+}
+
+const RATING_GAPS = [0, 1, 2, 3, 5, 8, 10, 15];
+const REROLL_BUDGETS = [0, 1, 2, 3, 5];
+
+const TOGGLES: {
+  field: 'same_stars' | 'exclude_national_teams' | 'exclude_recent_teams';
+  label: string;
+}[] = [
+  { field: 'same_stars', label: 'Same star rating' },
+  { field: 'exclude_national_teams', label: 'No national teams' },
+  { field: 'exclude_recent_teams', label: "Skip each player's last 5 teams" },
+];
+
+export default function TeamRollSettings({
+  constraints,
+  onChange,
+  leagues,
+}: TeamRollSettingsProps) {
+  const toggleLeague = (league: string) =>
+    onChange({
+      ...constraints,
+      leagues: constraints.leagues.includes(league)
+        ? constraints.leagues.filter(other => other !== league)
+        : [...constraints.leagues, league],
+    });
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+        {TOGGLES.map(({ field, label }) => (
+          <div key={field} className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              id={`team-roll-${field}`}
+              checked={constraints[field]}
+              onChange={e =>
+                onChange({ ...constraints, [field]: e.target.checked })
+              }
+              className="rounded border-gray-600 bg-[#1a1f2e] text-green-500"
+            />
+            <label htmlFor={`team-roll-${field}`} className="text-sm">
+              {label}
+            </label>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className="block text-xs text-gray-400 mb-1">
+            Max rating gap
+          </label>
+          <select
+            value={constraints.max_rating_gap}
+            onChange={e =>
+              onChange({
+                ...constraints,
+                max_rating_gap: Number(e.target.value),
+              })
+            }
+            className="w-full bg-[#1a1f2e] border border-gray-600 rounded-lg px-3 py-2 text-white text-sm"
+          >
+            {RATING_GAPS.map(gap => (
+              <option key={gap} value={gap}>
+                {gap === 0 ? 'Same overall' : `${gap} overall`}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs text-gray-400 mb-1">
+            Rerolls per player
+          </label>
+          <select
+            value={constraints.reroll_budget}
+            onChange={e =>
+              onChange({
+                ...constraints,
+                reroll_budget: Number(e.target.value),
+              })
+            }
+            className="w-full bg-[#1a1f2e] border border-gray-600 rounded-lg px-3 py-2 text-white text-sm"
+          >
+            {REROLL_BUDGETS.map(budget => (
+              <option key={budget} value={budget}>
+                {budget}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-xs text-gray-400 mb-1">
+          Leagues {constraints.leagues.length === 0 ? '(all)' : ''}
+        </label>
+        <div className="flex flex-wrap gap-2">
+          {leagues.map(league => (
+            <button
+              key={league}
+              type="button"
+              onClick={() => toggleLeague(league)}
+              className={`px-3 py-1 rounded-full text-xs border transition-colors ${
+                constraints.leagues.includes(league)
+                  ? 'bg-blue-500 border-blue-500 text-white'
+                  : 'border-gray-600 text-gray-300 hover:bg-[#374151]'
+              }`}
+            >
+              {league}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
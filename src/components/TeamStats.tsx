@@ -0,0 +1,132 @@
+import { MIN_RANKED_MATCHES, TeamAnalytics, TeamRecord } from '@/lib/api';
+import { useState } from 'react';
+
+interface TeamStatsProps {
+  analytics: TeamAnalytics;
+  isLoading?: boolean;
+}
+
+const TEAMS_SHOWN = 8;
+
+const formatPercent = (rate: number) => `${Math.round(rate * 100)}%`;
+
+export default function TeamStats({
+  analytics,
+  isLoading = false,
+}: TeamStatsProps) {
+  const [showAll, setShowAll] = useState(false);
+  const { teams, best, worst, favourite_league } = analytics;
+  const shownTeams = showAll ? teams : teams.slice(0, TEAMS_SHOWN);
+
+  const renderHighlight = (
+    label: string,
+    record: TeamRecord | undefined,
+    color: string
+  ) => (
+    <div className="bg-[#2d3748] rounded-lg p-4 text-center">
+      <div className={`text-lg font-bold truncate ${color}`}>
+        {record ? record.team : '-'}
+      </div>
+      <div className="text-sm text-gray-400">{label}</div>
+      {record && (
+        <div className="text-xs text-gray-500 mt-1">
+          {formatPercent(record.win_rate)} wins in {record.played}
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <h4 className="text-md font-semibold">Teams</h4>
+      {isLoading ? (
+        <div className="bg-[#2d3748] rounded-lg p-4">
+          <p className="text-gray-400 text-center py-8">Loading teams...</p>
+        </div>
+      ) : teams.length === 0 ? (
+        <div className="bg-[#2d3748] rounded-lg p-4">
+          <p className="text-gray-400 text-center py-8">
+            No completed matches yet
+          </p>
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {renderHighlight('Best team', best, 'text-green-400')}
+            {renderHighlight('Worst team', worst, 'text-red-400')}
+            <div className="bg-[#2d3748] rounded-lg p-4 text-center">
+              <div className="text-lg font-bold text-blue-400 truncate">
+                {favourite_league ? favourite_league.league : '-'}
+              </div>
+              <div className="text-sm text-gray-400">Most-used league</div>
+              {favourite_league && (
+                <div className="text-xs text-gray-500 mt-1">
+                  {favourite_league.played}{' '}
+                  {favourite_league.played === 1 ? 'match' : 'matches'}
+                </div>
+              )}
+            </div>
+          </div>
+          {!best && (
+            <p className="text-xs text-gray-400">
+              Best and worst teams need at least {MIN_RANKED_MATCHES} matches
+              with a team.
+            </p>
+          )}
+
+          <div className="bg-[#2d3748] rounded-lg p-4 overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-gray-400 text-left">
+                  <th className="py-2 pr-2 font-medium">Team</th>
+                  <th className="py-2 px-2 font-medium text-center">P</th>
+                  <th className="py-2 px-2 font-medium text-center">W-D-L</th>
+                  <th className="py-2 px-2 font-medium text-center">Win %</th>
+                  <th className="py-2 px-2 font-medium text-center">GF</th>
+                  <th className="py-2 pl-2 font-medium text-center">GA</th>
+                </tr>
+              </thead>
+              <tbody>
+                {shownTeams.map(record => (
+                  <tr key={record.team} className="border-t border-gray-600">
+                    <td className="py-2 pr-2">
+                      <div className="truncate max-w-[10rem]">
+                        {record.team}
+                      </div>
+                      {record.league && (
+                        <div className="text-xs text-gray-500 truncate max-w-[10rem]">
+                          {record.league}
+                        </div>
+                      )}
+                    </td>
+                    <td className="py-2 px-2 text-center">{record.played}</td>
+                    <td className="py-2 px-2 text-center whitespace-nowrap">
+                      {record.wins}-{record.draws}-{record.losses}
+                    </td>
+                    <td className="py-2 px-2 text-center">
+                      {formatPercent(record.win_rate)}
+                    </td>
+                    <td className="py-2 px-2 text-center text-green-400">
+                      {record.goals_for}
+                    </td>
+                    <td className="py-2 pl-2 text-center text-red-400">
+                      {record.goals_against}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {teams.length > TEAMS_SHOWN && (
+              <button
+                onClick={() => setShowAll(!showAll)}
+                className="mt-3 text-sm text-blue-400 hover:text-blue-300"
+              >
+                {showAll ? 'Show fewer' : `Show all ${teams.length} teams`}
+              </button>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
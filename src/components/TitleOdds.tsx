@@ -0,0 +1,175 @@
+import { useQuery } from '@/hooks/useQuery';
+import {
+  getPlayersStats,
+  getPlayerStrength,
+  getRemainingFixtures,
+  projectStandings,
+  queryKeys,
+  ResolvedMatch,
+} from '@/lib/api';
+import { RoundRobinFormat, TournamentRules, User } from '@/types';
+import { useState } from 'react';
+
+interface TitleOddsProps {
+  tournamentId: string;
+  playerIds: string[];
+  // The tournament's fixture format, as in the Fixtures tab
+  format: RoundRobinFormat;
+  players: User[];
+  // Every completed match of the tournament, including ones waiting to sync
+  matches: ResolvedMatch[];
+  rules?: TournamentRules;
+  isLoading?: boolean;
+}
+
+function formatChance(chance: number): string {
+  if (chance === 0 || chance === 1) return `${chance * 100}%`;
+  if (chance < 0.01) return '<1%';
+  if (chance > 0.99) return '>99%';
+  return `${Math.round(chance * 100)}%`;
+}
+
+export default function TitleOdds({
+  tournamentId,
+  playerIds,
+  format,
+  players,
+  matches,
+  rules,
+  isLoading = false,
+}: TitleOddsProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  // Scoring averages come from each player's overall stats
+  const statsQuery = useQuery(
+    isOpen ? queryKeys.tournamentPlayerStats(tournamentId) : null,
+    options => getPlayersStats(playerIds, options)
+  );
+
+  const getPlayerName = (playerId: string) => {
+    const player = players.find(p => p.id === playerId);
+    return player?.first_name || player?.username || 'Unknown player';
+  };
+
+  const stats = statsQuery.data;
+  const remaining = getRemainingFixtures(playerIds, format, matches);
+  const projection =
+    isOpen && stats && !isLoading
+      ? projectStandings(
+          playerIds,
+          players,
+          matches,
+          remaining,
+          playerIds.map(id =>
+            getPlayerStrength(
+              players.find(player => player.id === id) ?? { id },
+              stats[id]
+            )
+          ),
+          rules
+        )
+      : null;
+
+  return (
+    <div className="bg-[#1a1f2e] rounded-lg p-4 sm:p-6">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <h2 className="text-xl sm:text-2xl font-bold">Title odds</h2>
+          <p className="text-sm text-gray-400 mt-1">
+            {projection
+              ? projection.remaining === 0
+                ? 'Every fixture has been played'
+                : `${projection.simulations.toLocaleString()} simulations of the ${projection.remaining} remaining ${
+                    projection.remaining === 1 ? 'fixture' : 'fixtures'
+                  }, using Elo ratings and scoring averages`
+              : 'How likely each player is to finish where'}
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => setIsOpen(!isOpen)}
+          className="px-3 py-2 rounded-lg text-xs sm:text-sm font-medium bg-[#2d3748] text-gray-300 hover:bg-[#374151] hover:text-white transition-colors flex-shrink-0"
+        >
+          {isOpen ? 'Hide' : 'Show'}
+        </button>
+      </div>
+
+      {isOpen &&
+        (!projection ? (
+          <div className="text-center py-8">
+            <p className="text-gray-400">Simulating...</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto mt-4">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-600 text-gray-400">
+                  <th className="text-left py-2 pr-2 font-medium">Player</th>
+                  <th
+                    className="text-center py-2 px-1 font-medium"
+                    title="Chance of winning the title"
+                  >
+                    Title
+                  </th>
+                  <th
+                    className="text-center py-2 px-1 font-medium"
+                    title="Chance of finishing last"
+                  >
+                    Last
+                  </th>
+                  <th
+                    className="text-center py-2 px-1 font-medium"
+                    title="Average points"
+                  >
+                    Pts
+                  </th>
+                  {playerIds.map((_, index) => (
+                    <th
+                      key={index}
+                      className="text-center py-2 px-1 font-medium text-xs"
+                      title={`Chance of finishing in position ${index + 1}`}
+                    >
+                      {index + 1}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {projection.rows.map(row => (
+                  <tr
+                    key={row.player_id}
+                    className="border-b border-gray-700 last:border-0"
+                  >
+                    <td className="py-2 pr-2 text-white font-medium whitespace-nowrap">
+                      {getPlayerName(row.player_id)}
+                    </td>
+                    <td className="text-center py-2 px-1 text-green-400 font-semibold">
+                      {formatChance(row.title)}
+                    </td>
+                    <td className="text-center py-2 px-1 text-red-400">
+                      {formatChance(row.last)}
+                    </td>
+                    <td className="text-center py-2 px-1 text-gray-300">
+                      {row.average_points.toFixed(1)}
+                    </td>
+                    {row.positions.map((chance, index) => (
+                      <td
+                        key={index}
+                        className="text-center py-2 px-1 text-xs text-white"
+                        title={formatChance(chance)}
+                        style={{
+                          backgroundColor: `rgba(59, 130, 246, ${chance})`,
+                        }}
+                      >
+                        {chance >= 0.005 ? Math.round(chance * 100) : ''}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ))}
+    </div>
+  );
+}
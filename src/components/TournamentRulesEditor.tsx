@@ -0,0 +1,128 @@
+import { TIEBREAK_LABELS } from '@/lib/api';
+import { TiebreakRule, TournamentRules } from '@/types';
+
+interface TournamentRulesEditorProps {
+  rules: TournamentRules;
+  onChange: (rules: TournamentRules) => void;
+}
+
+const ALL_TIEBREAKERS = Object.keys(TIEBREAK_LABELS) as TiebreakRule[];
+
+const POINT_FIELDS: {
+  field: 'points_for_win' | 'points_for_draw' | 'points_for_loss';
+  label: string;
+}[] = [
+  { field: 'points_for_win', label: 'Win' },
+  { field: 'points_for_draw', label: 'Draw' },
+  { field: 'points_for_loss', label: 'Loss' },
+];
+
+export default function TournamentRulesEditor({
+  rules,
+  onChange,
+}: TournamentRulesEditorProps) {
+  const unusedTiebreakers = ALL_TIEBREAKERS.filter(
+    rule => !rules.tiebreakers.includes(rule)
+  );
+
+  const moveTiebreaker = (index: number, offset: number) => {
+    const tiebreakers = [...rules.tiebreakers];
+    const [rule] = tiebreakers.splice(index, 1);
+    tiebreakers.splice(index + offset, 0, rule);
+    onChange({ ...rules, tiebreakers });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className="block text-sm font-medium mb-2">Points</label>
+        <div className="grid grid-cols-3 gap-3">
+          {POINT_FIELDS.map(({ field, label }) => (
+            <div key={field}>
+              <span className="block text-xs text-gray-400 mb-1">{label}</span>
+              <input
+                type="number"
+                value={rules[field]}
+                onChange={e =>
+                  onChange({ ...rules, [field]: Number(e.target.value) })
+                }
+                className="w-full bg-[#1a1f2e] border border-gray-600 rounded-lg px-3 py-2 text-white"
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium mb-2">
+          Tiebreakers (in order)
+        </label>
+        <div className="space-y-2">
+          {rules.tiebreakers.map((rule, index) => (
+            <div
+              key={rule}
+              className="flex items-center gap-2 bg-[#1a1f2e] border border-gray-600 rounded-lg px-3 py-2"
+            >
+              <span className="text-xs text-gray-500 w-4">{index + 1}</span>
+              <span className="flex-1 text-sm text-white capitalize">
+                {TIEBREAK_LABELS[rule]}
+              </span>
+              <button
+                type="button"
+                onClick={() => moveTiebreaker(index, -1)}
+                disabled={index === 0}
+                className="px-2 text-gray-400 hover:text-white disabled:opacity-30"
+              >
+                ↑
+              </button>
+              <button
+                type="button"
+                onClick={() => moveTiebreaker(index, 1)}
+                disabled={index === rules.tiebreakers.length - 1}
+                className="px-2 text-gray-400 hover:text-white disabled:opacity-30"
+              >
+                ↓
+              </button>
+              <button
+                type="button"
+                onClick={() =>
+                  onChange({
+                    ...rules,
+                    tiebreakers: rules.tiebreakers.filter(
+                      other => other !== rule
+                    ),
+                  })
+                }
+                className="px-2 text-red-400 hover:text-red-300 text-xs"
+              >
+                ×
+              </button>
+            </div>
+          ))}
+          {unusedTiebreakers.length > 0 && (
+            <select
+              value=""
+              onChange={e =>
+                onChange({
+                  ...rules,
+                  tiebreakers: [
+                    ...rules.tiebreakers,
+                    e.target.value as TiebreakRule,
+                  ],
+                })
+              }
+              className="w-full bg-[#1a1f2e] border border-gray-600 rounded-lg px-3 py-2 text-gray-400"
+            >
+              <option value="">Add a tiebreaker...</option>
+              {unusedTiebreakers.map(rule => (
+                <option key={rule} value={rule}>
+                  {TIEBREAK_LABELS[rule]}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,18 +1,47 @@
 import { DrawIcon, LossIcon, WinIcon } from '@/components/Icons';
+import { RankedStanding } from '@/lib/api';
 import { PlayerStats } from '@/types';
 
-interface TournamentStandingsProps {
-  standings: PlayerStats[];
+// Extra column shown after Pts, e.g. Swiss tiebreaks
+export interface StandingsColumn<T extends PlayerStats> {
+  label: string;
+  title: string;
+  value: (row: T) => string | number;
 }
 
-export default function TournamentStandings({
+interface TournamentStandingsProps<T extends PlayerStats> {
+  standings: T[];
+  title?: string;
+  subtitle?: string;
+  // Rows above this position are marked as going through (group stages)
+  qualifyingPlaces?: number;
+  extraColumns?: StandingsColumn<T>[];
+}
+
+export default function TournamentStandings<T extends PlayerStats>({
   standings,
-}: TournamentStandingsProps) {
+  title = 'Tournament Standings',
+  subtitle,
+  qualifyingPlaces = 0,
+  extraColumns = [],
+}: TournamentStandingsProps<T>) {
+  // Rows ranked by the client-side standings engine explain their tiebreaks
+  const tiebreakNotes = standings.flatMap(player =>
+    (player as RankedStanding).tiebreak_note
+      ? [
+          {
+            id: player.id,
+            name: player.first_name || player.username,
+            note: (player as RankedStanding).tiebreak_note,
+          },
+        ]
+      : []
+  );
+
   return (
     <div className="bg-[#1a1f2e] rounded-lg p-4 sm:p-6">
-      <h2 className="text-xl sm:text-2xl font-bold mb-2">
-        Tournament Standings
-      </h2>
+      <h2 className="text-xl sm:text-2xl font-bold mb-2">{title}</h2>
+      {subtitle && <p className="text-sm text-gray-400 mb-2">{subtitle}</p>}
 
       {/* Table view - scrollable on mobile */}
       <div className="overflow-x-auto">
@@ -28,6 +57,9 @@ export default function TournamentStandings({
             <col className="w-8 sm:w-10" />
             <col className="w-10 sm:w-12" />
             <col className="w-10 sm:w-12" />
+            {extraColumns.map(column => (
+              <col key={column.label} className="w-10 sm:w-12" />
+            ))}
             <col className="w-20 sm:w-24" />
           </colgroup>
           <thead>
@@ -62,6 +94,15 @@ export default function TournamentStandings({
               <th className="text-center py-3 px-1 font-medium text-gray-300 text-xs sm:text-sm">
                 Pts
               </th>
+              {extraColumns.map(column => (
+                <th
+                  key={column.label}
+                  title={column.title}
+                  className="text-center py-3 px-1 font-medium text-gray-300 text-xs sm:text-sm"
+                >
+                  {column.label}
+                </th>
+              ))}
               <th className="text-center py-3 px-1 font-medium text-gray-300 text-xs sm:text-sm">
                 Last 5
               </th>
@@ -74,7 +115,13 @@ export default function TournamentStandings({
                 className={`border-b border-gray-800 ${index === 0 ? 'bg-yellow-500/10' : ''}`}
               >
                 <td className="py-3 px-1">
-                  <div className="flex items-center gap-1">
+                  <div
+                    className={`flex items-center gap-1 ${
+                      index < qualifyingPlaces
+                        ? 'border-l-2 border-green-500 pl-1'
+                        : ''
+                    }`}
+                  >
                     <span
                       className={`text-xs sm:text-sm ${index === 0 ? 'font-bold' : ''}`}
                     >
@@ -112,6 +159,14 @@ export default function TournamentStandings({
                 <td className="py-3 px-1 text-center font-bold text-xs sm:text-sm">
                   {player.points}
                 </td>
+                {extraColumns.map(column => (
+                  <td
+                    key={column.label}
+                    className="py-3 px-1 text-center text-gray-300 text-xs sm:text-sm"
+                  >
+                    {column.value(player)}
+                  </td>
+                ))}
                 <td className="py-3 px-1 text-center">
                   <div className="flex justify-center gap-2">
                     {player.last_5_matches
@@ -165,6 +220,16 @@ export default function TournamentStandings({
           </tbody>
         </table>
       </div>
+
+      {tiebreakNotes.length > 0 && (
+        <div className="mt-4 space-y-1">
+          {tiebreakNotes.map(({ id, name, note }) => (
+            <p key={id} className="text-xs text-gray-400">
+              <span className="text-gray-300">{name}</span>: {note}
+            </p>
+          ))}
+        </div>
+      )}
     </div>
   );
 }
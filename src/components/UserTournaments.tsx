@@ -1,7 +1,9 @@
 import { useAuth } from '@/contexts/auth';
 import {
   addPlayerToTournament,
+  DEFAULT_RULES,
   deleteTournament,
+  getErrorMessage,
   getFriends,
   getPlayers,
   getTournamentPlayers,
@@ -9,9 +11,10 @@ import {
   removePlayerFromTournament,
   updateTournament,
 } from '@/lib/api';
-import { Friend, Tournament, User } from '@/types';
+import { Friend, Tournament, TournamentRules, User } from '@/types';
 import { useEffect, useState } from 'react';
 import CustomDropdown from './CustomDropdown';
+import TournamentRulesEditor from './TournamentRulesEditor';
 
 interface TournamentWithPlayers extends Tournament {
   players?: User[];
@@ -52,12 +55,20 @@ export default function UserTournaments({
   >([]);
   const [allPlayers, setAllPlayers] = useState<User[]>([]);
   const [friends, setFriends] = useState<Friend[]>([]);
-  const [editForm, setEditForm] = useState({
+  const [editForm, setEditForm] = useState<{
+    name: string;
+    description: string;
+    start_date: string;
+    end_date: string;
+    completed: boolean;
+    rules: TournamentRules;
+  }>({
     name: '',
     description: '',
     start_date: '',
     end_date: '',
     completed: false,
+    rules: DEFAULT_RULES,
   });
 
   // Toast notification functions
@@ -159,6 +170,7 @@ export default function UserTournaments({
         : '',
       end_date: tournament.end_date ? tournament.end_date.split('T')[0] : '',
       completed: tournament.completed,
+      rules: tournament.rules ?? DEFAULT_RULES,
     });
   };
 
@@ -173,29 +185,31 @@ export default function UserTournaments({
         undefined, // player_ids - not updating for now
         editForm.completed,
         editForm.start_date || undefined,
-        editForm.end_date || undefined
+        editForm.end_date || undefined,
+        { rules: editForm.rules }
       );
 
-      if (updatedTournament) {
-        setTournaments(prev =>
-          prev.map(t =>
-            t.id === editingTournament ? { ...t, ...updatedTournament } : t
-          )
-        );
-        setEditingTournament(null);
-        showToast('Tournament updated successfully!', 'success');
-
-        // Refresh the tournament list in the parent component
-        if (onTournamentCreated) {
-          onTournamentCreated();
-        }
-      } else {
-        showToast('Failed to update tournament. Please try again.', 'error');
-        setEditingTournament(null);
+      setTournaments(prev =>
+        prev.map(t =>
+          t.id === editingTournament ? { ...t, ...updatedTournament } : t
+        )
+      );
+      setEditingTournament(null);
+      showToast('Tournament updated successfully!', 'success');
+
+      // Refresh the tournament list in the parent component
+      if (onTournamentCreated) {
+        onTournamentCreated();
       }
     } catch (error) {
       console.error('Error updating tournament:', error);
-      showToast('Failed to update tournament. Please try again.', 'error');
+      showToast(
+        getErrorMessage(
+          error,
+          'Failed to update tournament. Please try again.'
+        ),
+        'error'
+      );
       setEditingTournament(null);
     }
   };
@@ -219,11 +233,13 @@ export default function UserTournaments({
           }
         } catch (error) {
           console.error('Error deleting tournament:', error);
-          const errorMessage =
-            error instanceof Error
-              ? error.message
-              : 'Failed to delete tournament. Please try again.';
-          showToast(errorMessage, 'error');
+          showToast(
+            getErrorMessage(
+              error,
+              'Failed to delete tournament. Please try again.'
+            ),
+            'error'
+          );
         }
       },
       () => {
@@ -262,7 +278,10 @@ export default function UserTournaments({
     } catch (error) {
       console.error('Error adding player to tournament:', error);
       showToast(
-        'Failed to add player to tournament. Please try again.',
+        getErrorMessage(
+          error,
+          'Failed to add player to tournament. Please try again.'
+        ),
         'error'
       );
     }
@@ -292,7 +311,10 @@ export default function UserTournaments({
     } catch (error) {
       console.error('Error removing player from tournament:', error);
       showToast(
-        'Failed to remove player from tournament. Please try again.',
+        getErrorMessage(
+          error,
+          'Failed to remove player from tournament. Please try again.'
+        ),
         'error'
       );
     }
@@ -438,6 +460,19 @@ export default function UserTournaments({
                       </label>
                     </div>
 
+                    <div className="border-t border-gray-600 pt-4">
+                      <h4 className="text-lg font-medium mb-3">Rules</h4>
+                      <p className="text-xs text-gray-400 mb-3">
+                        Points and tiebreakers used to rank the table.
+                      </p>
+                      <TournamentRulesEditor
+                        rules={editForm.rules}
+                        onChange={rules =>
+                          setEditForm(prev => ({ ...prev, rules }))
+                        }
+                      />
+                    </div>
+
                     {/* Player Management Section */}
                     <div className="border-t border-gray-600 pt-4">
                       <h4 className="text-lg font-medium mb-3">
@@ -0,0 +1,264 @@
+import TournamentStandings from '@/components/TournamentStandings';
+import {
+  computePositionRanges,
+  getRemainingFixtures,
+  groupFixturesByMatchday,
+  HypotheticalScore,
+  ResolvedMatch,
+  simulateStandings,
+  toHypotheticalMatches,
+} from '@/lib/api';
+import { RoundRobinFormat, TournamentRules, User } from '@/types';
+import { useState } from 'react';
+
+interface WhatIfSimulatorProps {
+  tournamentId: string;
+  playerIds: string[];
+  // The tournament's fixture format, as in the Fixtures tab
+  format: RoundRobinFormat;
+  players: User[];
+  // Every completed match of the tournament, including ones waiting to sync
+  matches: ResolvedMatch[];
+  rules?: TournamentRules;
+  isLoading?: boolean;
+}
+
+// Scores as typed; a fixture counts once both sides are filled in
+type ScoreInput = { home: string; away: string };
+
+function ordinal(position: number): string {
+  if (position % 100 > 3 && position % 100 < 21) return `${position}th`;
+  switch (position % 10) {
+    case 1:
+      return `${position}st`;
+    case 2:
+      return `${position}nd`;
+    case 3:
+      return `${position}rd`;
+    default:
+      return `${position}th`;
+  }
+}
+
+export default function WhatIfSimulator({
+  tournamentId,
+  playerIds,
+  format,
+  players,
+  matches,
+  rules,
+  isLoading = false,
+}: WhatIfSimulatorProps) {
+  const [inputs, setInputs] = useState<Record<string, ScoreInput>>({});
+
+  const getPlayerName = (playerId: string) => {
+    const player = players.find(p => p.id === playerId);
+    return player?.first_name || player?.username || 'Unknown player';
+  };
+
+  const remaining = getRemainingFixtures(playerIds, format, matches);
+  const scores: Record<string, HypotheticalScore> = {};
+  remaining.forEach(fixture => {
+    const input = inputs[fixture.id];
+    if (input && input.home !== '' && input.away !== '') {
+      scores[fixture.id] = {
+        home_goals: Number(input.home),
+        away_goals: Number(input.away),
+      };
+    }
+  });
+
+  const standings = simulateStandings(
+    playerIds,
+    players,
+    matches,
+    remaining,
+    scores,
+    rules,
+    tournamentId
+  );
+  // Ranges from the simulated scores onwards. Once every fixture has a
+  // score the tiebreakers have settled the table.
+  const open = remaining.filter(fixture => !scores[fixture.id]);
+  const ranges =
+    open.length === 0
+      ? standings.map((row, index) => ({
+          player_id: row.id,
+          best: index + 1,
+          worst: index + 1,
+          exact: true,
+        }))
+      : computePositionRanges(
+          playerIds,
+          players,
+          [...matches, ...toHypotheticalMatches(remaining, scores, players)],
+          open,
+          rules
+        );
+  const rangeById = new Map(ranges.map(range => [range.player_id, range]));
+  const estimated = ranges.some(range => !range.exact);
+  const simulatedCount = Object.keys(scores).length;
+
+  const champion = ranges.find(range => range.worst === 1);
+  const contenders = ranges.filter(range => range.best === 1);
+
+  const setScore = (
+    fixtureId: string,
+    side: keyof ScoreInput,
+    value: string
+  ) => {
+    const goals =
+      value === '' ? '' : String(Math.max(0, Math.floor(Number(value))));
+    setInputs(previous => ({
+      ...previous,
+      [fixtureId]: {
+        home: previous[fixtureId]?.home ?? '',
+        away: previous[fixtureId]?.away ?? '',
+        [side]: goals,
+      },
+    }));
+  };
+
+  if (isLoading) {
+    return (
+      <div className="bg-[#1a1f2e] rounded-lg p-4 sm:p-6 text-center py-8">
+        <p className="text-gray-400">Loading fixtures...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-[#1a1f2e] rounded-lg p-4 sm:p-6">
+        <div className="flex items-start justify-between gap-3 mb-4">
+          <div>
+            <h2 className="text-xl sm:text-2xl font-bold">What if?</h2>
+            <p className="text-sm text-gray-400 mt-1">
+              {remaining.length === 0
+                ? 'Every fixture has been played'
+                : `Enter scores for the ${remaining.length} remaining ${
+                    remaining.length === 1 ? 'fixture' : 'fixtures'
+                  } to see the table change`}
+            </p>
+          </div>
+          {simulatedCount > 0 && (
+            <button
+              type="button"
+              onClick={() => setInputs({})}
+              className="px-3 py-2 rounded-lg text-xs sm:text-sm font-medium bg-[#2d3748] text-gray-300 hover:bg-[#374151] hover:text-white transition-colors"
+            >
+              Reset
+            </button>
+          )}
+        </div>
+
+        <div className="bg-[#2d3748] rounded-lg p-3 mb-4 text-sm space-y-1">
+          {champion ? (
+            <p className="text-green-400 font-medium">
+              {getPlayerName(champion.player_id)} has clinched the title
+            </p>
+          ) : (
+            <p className="text-gray-300">
+              Still in the title race:{' '}
+              {contenders
+                .map(range => getPlayerName(range.player_id))
+                .join(', ')}
+            </p>
+          )}
+          {!champion && ranges.some(range => range.best > 1) && (
+            <p className="text-gray-400">
+              Can no longer win it:{' '}
+              {ranges
+                .filter(range => range.best > 1)
+                .map(range => getPlayerName(range.player_id))
+                .join(', ')}
+            </p>
+          )}
+          {estimated && (
+            <p className="text-xs text-gray-500">
+              Too many fixtures left to try every result, so Best and Worst are
+              estimates
+            </p>
+          )}
+        </div>
+
+        {remaining.length > 0 && (
+          <div className="space-y-4">
+            {groupFixturesByMatchday(remaining).map(
+              ({ matchday, fixtures }) => (
+                <div key={matchday} className="space-y-2">
+                  <h3 className="text-sm font-semibold text-gray-300 border-b border-gray-600 pb-1">
+                    Matchday {matchday}
+                  </h3>
+                  {fixtures.map(fixture => (
+                    <div
+                      key={fixture.id}
+                      className={`rounded-lg p-2 sm:p-3 flex items-center gap-2 ${
+                        scores[fixture.id]
+                          ? 'bg-[#1e293b] border border-blue-500/40'
+                          : 'bg-[#2d3748] border border-gray-600'
+                      }`}
+                    >
+                      <div className="text-sm text-white flex-1 text-left truncate">
+                        {getPlayerName(fixture.home_id)}
+                      </div>
+                      <input
+                        type="number"
+                        min={0}
+                        value={inputs[fixture.id]?.home ?? ''}
+                        onChange={e =>
+                          setScore(fixture.id, 'home', e.target.value)
+                        }
+                        aria-label={`${getPlayerName(fixture.home_id)} goals`}
+                        className="w-12 bg-[#1a1f2e] border border-gray-600 rounded-lg px-2 py-1 text-white text-center"
+                      />
+                      <span className="text-gray-500">-</span>
+                      <input
+                        type="number"
+                        min={0}
+                        value={inputs[fixture.id]?.away ?? ''}
+                        onChange={e =>
+                          setScore(fixture.id, 'away', e.target.value)
+                        }
+                        aria-label={`${getPlayerName(fixture.away_id)} goals`}
+                        className="w-12 bg-[#1a1f2e] border border-gray-600 rounded-lg px-2 py-1 text-white text-center"
+                      />
+                      <div className="text-sm text-white flex-1 text-right truncate">
+                        {getPlayerName(fixture.away_id)}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )
+            )}
+          </div>
+        )}
+      </div>
+
+      <TournamentStandings
+        title="Simulated table"
+        subtitle={
+          simulatedCount > 0
+            ? `Includes ${simulatedCount} simulated ${
+                simulatedCount === 1 ? 'result' : 'results'
+              }. Best and Worst are the final positions still possible.`
+            : 'Best and Worst are the final positions still possible'
+        }
+        standings={standings}
+        extraColumns={[
+          {
+            label: 'Best',
+            title: 'Best possible final position',
+            value: row => ordinal(rangeById.get(row.id)?.best ?? 1),
+          },
+          {
+            label: 'Worst',
+            title: 'Worst possible final position',
+            value: row =>
+              ordinal(rangeById.get(row.id)?.worst ?? playerIds.length),
+          },
+        ]}
+      />
+    </div>
+  );
+}
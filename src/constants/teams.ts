@@ -1,196 +1,469 @@
-export const FIFA23Teams = [
-    // Premier League
-    { name: "Arsenal", code: "ARS" },
-    { name: "Aston Villa", code: "AVL" },
-    { name: "Bournemouth", code: "BOU" },
-    { name: "Brentford", code: "BRE" },
-    { name: "Brighton & Hove Albion", code: "BHA" },
-    { name: "Chelsea", code: "CHE" },
-    { name: "Crystal Palace", code: "CRY" },
-    { name: "Everton", code: "EVE" },
-    { name: "Fulham", code: "FUL" },
-    { name: "Leeds United", code: "LEE" },
-    { name: "Leicester City", code: "LEI" },
-    { name: "Liverpool", code: "LIV" },
-    { name: "Manchester City", code: "MCI" },
-    { name: "Manchester United", code: "MUN" },
-    { name: "Newcastle United", code: "NEW" },
-    { name: "Nottingham Forest", code: "NFO" },
-    { name: "Southampton", code: "SOU" },
-    { name: "Tottenham Hotspur", code: "TOT" },
-    { name: "West Ham United", code: "WHU" },
-    { name: "Wolverhampton Wanderers", code: "WOL" },
-  
-    // La Liga
-    { name: "Athletic Club de Bilbao", code: "ATH" },
-    { name: "Atlético de Madrid", code: "ATM" },
-    { name: "FC Barcelona", code: "BAR" },
-    { name: "Real Betis", code: "BET" },
-    { name: "Cádiz CF", code: "CAD" },
-    { name: "Celta de Vigo", code: "CEL" },
-    { name: "Elche CF", code: "ELC" },
-    { name: "Espanyol", code: "ESP" },
-    { name: "Getafe CF", code: "GET" },
-    { name: "Girona FC", code: "GIR" },
-    { name: "Mallorca", code: "MAL" },
-    { name: "Osasuna", code: "OSA" },
-    { name: "Rayo Vallecano", code: "RAY" },
-    { name: "Real Madrid", code: "RMA" },
-    { name: "Real Sociedad", code: "RSO" },
-    { name: "Sevilla FC", code: "SEV" },
-    { name: "Valencia CF", code: "VAL" },
-    { name: "Valladolid", code: "VLL" },
-    { name: "Villarreal CF", code: "VIL" },
-  
-    // Bundesliga
-    { name: "FC Augsburg", code: "AUG" },
-    { name: "Bayer 04 Leverkusen", code: "B04" },
-    { name: "Bayern München", code: "BAY" },
-    { name: "VfL Bochum", code: "BOC" },
-    { name: "Borussia Dortmund", code: "BVB" },
-    { name: "Borussia Mönchengladbach", code: "BMG" },
-    { name: "Eintracht Frankfurt", code: "SGE" },
-    { name: "SC Freiburg", code: "SCF" },
-    { name: "Hertha BSC", code: "BSC" },
-    { name: "1899 Hoffenheim", code: "TSG" },
-    { name: "1. FC Köln", code: "KOE" },
-    { name: "1. FSV Mainz 05", code: "M05" },
-    { name: "RB Leipzig", code: "RBL" },
-    { name: "FC Schalke 04", code: "S04" },
-    { name: "VfB Stuttgart", code: "VFB" },
-    { name: "Union Berlin", code: "FCU" },
-    { name: "Werder Bremen", code: "SVW" },
-    { name: "VfL Wolfsburg", code: "WOB" },
-  
-    // Serie A
-    { name: "Atalanta", code: "ATA" },
-    { name: "Bologna", code: "BOL" },
-    { name: "Cremonese", code: "CRE" },
-    { name: "Empoli", code: "EMP" },
-    { name: "Fiorentina", code: "FIO" },
-    { name: "Hellas Verona", code: "HEL" },
-    { name: "Inter", code: "INT" },
-    { name: "Juventus", code: "JUV" },
-    { name: "Lazio", code: "LAZ" },
-    { name: "Lecce", code: "LEC" },
-    { name: "AC Milan", code: "MIL" },
-    { name: "Monza", code: "MON" },
-    { name: "Napoli", code: "NAP" },
-    { name: "Roma", code: "ROM" },
-    { name: "Salernitana", code: "SAL" },
-    { name: "Sampdoria", code: "SAM" },
-    { name: "Sassuolo", code: "SAS" },
-    { name: "Spezia", code: "SPE" },
-    { name: "Torino", code: "TOR" },
-    { name: "Udinese", code: "UDI" },
-  
-    // Ligue 1
-    { name: "AC Ajaccio", code: "ACA" },
-    { name: "Angers SCO", code: "ANG" },
-    { name: "AJ Auxerre", code: "AUX" },
-    { name: "Stade Brestois 29", code: "BRE" },
-    { name: "Clermont Foot 63", code: "CLF" },
-    { name: "RC Lens", code: "RCL" },
-    { name: "LOSC Lille", code: "LIL" },
-    { name: "FC Lorient", code: "LOR" },
-    { name: "Olympique Lyonnais", code: "OL" },
-    { name: "Olympique de Marseille", code: "OM" },
-    { name: "AS Monaco", code: "ASM" },
-    { name: "Montpellier HSC", code: "MHS" },
-    { name: "FC Nantes", code: "NAN" },
-    { name: "OGC Nice", code: "NIC" },
-    { name: "Paris Saint-Germain", code: "PSG" },
-    { name: "Stade de Reims", code: "REI" },
-    { name: "Stade Rennais FC", code: "REN" },
-    { name: "RC Strasbourg Alsace", code: "RCS" },
-    { name: "Toulouse FC", code: "TOU" },
-    { name: "ESTAC Troyes", code: "TRO" },
-  
-    // Other notable teams
-    { name: "Ajax", code: "AJA" },
-    { name: "PSV Eindhoven", code: "PSV" },
-    { name: "Feyenoord", code: "FEY" },
-    { name: "Porto", code: "POR" },
-    { name: "Benfica", code: "BEN" },
-    { name: "Sporting CP", code: "SCP" },
-    { name: "Celtic", code: "CEL" },
-    { name: "Rangers", code: "RAN" },
-    { name: "Shakhtar Donetsk", code: "SHA" },
-    { name: "Dynamo Kyiv", code: "DYK" },
-    { name: "Zenit St. Petersburg", code: "ZEN" },
-    { name: "CSKA Moscow", code: "CSK" },
-    { name: "Galatasaray", code: "GAL" },
-    { name: "Fenerbahçe", code: "FEN" },
-    { name: "Beşiktaş", code: "BES" },
-  ];
-
-// International Teams
-export const FIFA23InternationalTeams = [
-  // UEFA (Europe)
-  { name: "England", code: "ENG" },
-  { name: "France", code: "FRA" },
-  { name: "Germany", code: "GER" },
-  { name: "Spain", code: "ESP" },
-  { name: "Italy", code: "ITA" },
-  { name: "Portugal", code: "POR" },
-  { name: "Netherlands", code: "NED" },
-  { name: "Belgium", code: "BEL" },
-  { name: "Croatia", code: "CRO" },
-  { name: "Denmark", code: "DEN" },
-  { name: "Sweden", code: "SWE" },
-  { name: "Poland", code: "POL" },
-  { name: "Wales", code: "WAL" },
-  { name: "Switzerland", code: "SUI" },
-  { name: "Austria", code: "AUT" },
-  { name: "Ukraine", code: "UKR" },
-  { name: "Serbia", code: "SRB" },
-  { name: "Turkey", code: "TUR" },
-  { name: "Czech Republic", code: "CZE" },
-  { name: "Scotland", code: "SCO" },
+import { GameEdition, TeamInfo } from '@/types';
 
-  // CONMEBOL (South America)
-  { name: "Brazil", code: "BRA" },
-  { name: "Argentina", code: "ARG" },
-  { name: "Uruguay", code: "URU" },
-  { name: "Colombia", code: "COL" },
-  { name: "Chile", code: "CHI" },
-  { name: "Peru", code: "PER" },
-  { name: "Paraguay", code: "PAR" },
-  { name: "Ecuador", code: "ECU" },
-  { name: "Venezuela", code: "VEN" },
-  { name: "Bolivia", code: "BOL" },
+/**
+ * Team catalogue
+ *
+ * Every club and national team across the supported editions, with its
+ * league, country, approximate attack / midfield / defence ratings and kit
+ * colour. Each edition lists the clubs that were in the game that year;
+ * national teams are in every edition. The rows below carry the FIFA 23
+ * ratings; each later edition applies the rating changes listed for it on
+ * top of the previous one, so the same team can have different stars in
+ * FIFA 23 and FC 25. The custom edition uses the latest ratings. Team names
+ * stay the same across editions so matches logged on an older edition keep
+ * resolving, and every team has its own code.
+ */
 
-  // CONCACAF (North and Central America, Caribbean)
-  { name: "Mexico", code: "MEX" },
-  { name: "United States", code: "USA" },
-  { name: "Canada", code: "CAN" },
-  { name: "Costa Rica", code: "CRC" },
-  { name: "Jamaica", code: "JAM" },
-  { name: "Honduras", code: "HON" },
-  { name: "Panama", code: "PAN" },
+// attack, midfield, defence
+type Ratings = [number, number, number];
 
-  // CAF (Africa)
-  { name: "Senegal", code: "SEN" },
-  { name: "Morocco", code: "MAR" },
-  { name: "Nigeria", code: "NGA" },
-  { name: "Egypt", code: "EGY" },
-  { name: "Cameroon", code: "CMR" },
-  { name: "Ghana", code: "GHA" },
-  { name: "Algeria", code: "ALG" },
-  { name: "Tunisia", code: "TUN" },
-  { name: "Côte d'Ivoire", code: "CIV" },
+// name, code, country, attack, midfield, defence, colour
+type TeamRow = [string, string, string, ...Ratings, string];
 
-  // AFC (Asia)
-  { name: "Japan", code: "JPN" },
-  { name: "South Korea", code: "KOR" },
-  { name: "Australia", code: "AUS" },
-  { name: "Iran", code: "IRN" },
-  { name: "Saudi Arabia", code: "KSA" },
-  { name: "Qatar", code: "QAT" },
+type RatedEdition = Exclude<GameEdition, 'custom'>;
 
-  // OFC (Oceania)
-  { name: "New Zealand", code: "NZL" },
+type UnratedTeam = Omit<
+  TeamInfo,
+  'overall' | 'attack' | 'midfield' | 'defence' | 'stars'
+>;
+
+// Tournaments created before editions existed
+export const DEFAULT_EDITION: GameEdition = 'fifa23';
+// Preselected for new tournaments
+export const LATEST_EDITION: GameEdition = 'fc25';
+
+export const GAME_EDITIONS: { id: GameEdition; label: string }[] = [
+  { id: 'fifa23', label: 'FIFA 23' },
+  { id: 'fc24', label: 'EA Sports FC 24' },
+  { id: 'fc25', label: 'EA Sports FC 25' },
+  { id: 'custom', label: 'Custom (all teams)' },
+];
+
+// League of every national team
+export const NATIONAL_TEAM_LEAGUE = 'International';
+
+// FIFA's team stars: 5 stars from 82 overall down to half a star
+export const getStarRating = (overall: number) =>
+  Math.min(5, Math.max(0.5, Math.floor((overall - 58) / 3) * 0.5 + 1));
+
+const toTeams = (league: string, rows: TeamRow[]): TeamInfo[] =>
+  rows.map(([name, code, country, attack, midfield, defence, color]) =>
+    withRatings({ name, code, league, country, color }, [
+      attack,
+      midfield,
+      defence,
+    ])
+  );
+
+const withRatings = (
+  { name, code, league, country, color }: UnratedTeam,
+  [attack, midfield, defence]: Ratings
+): TeamInfo => {
+  const overall = Math.round((attack + midfield + defence) / 3);
+  return {
+    name,
+    code,
+    league,
+    country,
+    color,
+    overall,
+    attack,
+    midfield,
+    defence,
+    stars: getStarRating(overall),
+  };
+};
+
+const clubs: TeamInfo[] = [
+  ...toTeams('Premier League', [
+    ['Arsenal', 'ARS', 'England', 82, 80, 80, '#EF0107'],
+    ['Aston Villa', 'AVL', 'England', 78, 77, 77, '#670E36'],
+    ['Bournemouth', 'BOU', 'England', 74, 73, 73, '#DA291C'],
+    ['Brentford', 'BRE', 'England', 76, 75, 75, '#E30613'],
+    ['Brighton & Hove Albion', 'BHA', 'England', 76, 77, 76, '#0057B8'],
+    ['Burnley', 'BUR', 'England', 73, 73, 72, '#6C1D45'],
+    ['Chelsea', 'CHE', 'England', 82, 81, 81, '#034694'],
+    ['Crystal Palace', 'CRY', 'England', 77, 76, 77, '#1B458F'],
+    ['Everton', 'EVE', 'England', 77, 76, 76, '#003399'],
+    ['Fulham', 'FUL', 'England', 76, 76, 75, '#FFFFFF'],
+    ['Ipswich Town', 'IPS', 'England', 74, 74, 73, '#0033A0'],
+    ['Leeds United', 'LEE', 'England', 76, 75, 74, '#FFCD00'],
+    ['Leicester City', 'LEI', 'England', 78, 77, 76, '#003090'],
+    ['Liverpool', 'LIV', 'England', 86, 82, 84, '#C8102E'],
+    ['Luton Town', 'LUT', 'England', 71, 71, 70, '#F78F1E'],
+    ['Manchester City', 'MCI', 'England', 86, 85, 85, '#6CABDD'],
+    ['Manchester United', 'MUN', 'England', 83, 81, 81, '#DA291C'],
+    ['Newcastle United', 'NEW', 'England', 79, 78, 80, '#241F20'],
+    ['Nottingham Forest', 'NFO', 'England', 74, 74, 74, '#DD0000'],
+    ['Sheffield United', 'SHU', 'England', 72, 72, 72, '#EE2737'],
+    ['Southampton', 'SOU', 'England', 75, 75, 74, '#D71920'],
+    ['Tottenham Hotspur', 'TOT', 'England', 86, 80, 80, '#132257'],
+    ['West Ham United', 'WHU', 'England', 79, 77, 78, '#7A263A'],
+    ['Wolverhampton Wanderers', 'WOL', 'England', 76, 76, 77, '#FDB913'],
+  ]),
+  ...toTeams('La Liga', [
+    ['Athletic Club de Bilbao', 'ATH', 'Spain', 77, 77, 78, '#EE2523'],
+    ['Atlético de Madrid', 'ATM', 'Spain', 83, 81, 82, '#CB3524'],
+    ['Cádiz CF', 'CAD', 'Spain', 73, 72, 73, '#FFE600'],
+    ['Celta de Vigo', 'CLV', 'Spain', 77, 76, 74, '#8AC3EE'],
+    ['CD Leganés', 'LEG', 'Spain', 73, 72, 74, '#0053A0'],
+    ['Deportivo Alavés', 'ALA', 'Spain', 74, 74, 74, '#0761AF'],
+    ['Elche CF', 'ELC', 'Spain', 72, 72, 72, '#05642C'],
+    ['Espanyol', 'RCD', 'Spain', 76, 74, 73, '#007FC8'],
+    ['FC Barcelona', 'BAR', 'Spain', 84, 84, 81, '#A50044'],
+    ['Getafe CF', 'GET', 'Spain', 73, 74, 75, '#005999'],
+    ['Girona FC', 'GIR', 'Spain', 74, 74, 74, '#CD2534'],
+    ['Granada CF', 'GRA', 'Spain', 74, 73, 73, '#C8102E'],
+    ['Mallorca', 'MAL', 'Spain', 74, 73, 74, '#E20613'],
+    ['Osasuna', 'OSA', 'Spain', 75, 75, 75, '#D91A21'],
+    ['Rayo Vallecano', 'RAY', 'Spain', 75, 74, 74, '#E53027'],
+    ['Real Betis', 'BET', 'Spain', 80, 79, 78, '#00954C'],
+    ['Real Madrid', 'RMA', 'Spain', 86, 85, 83, '#FEBE10'],
+    ['Real Sociedad', 'RSO', 'Spain', 79, 80, 78, '#0067B1'],
+    ['Sevilla FC', 'SEV', 'Spain', 79, 80, 79, '#D81920'],
+    ['UD Almería', 'ALM', 'Spain', 74, 73, 72, '#EE1119'],
+    ['UD Las Palmas', 'LPA', 'Spain', 73, 74, 73, '#FFE400'],
+    ['Valencia CF', 'VAL', 'Spain', 77, 76, 76, '#EE3524'],
+    ['Valladolid', 'VLL', 'Spain', 74, 73, 74, '#921B88'],
+    ['Villarreal CF', 'VIL', 'Spain', 82, 79, 79, '#FFE667'],
+  ]),
+  ...toTeams('Bundesliga', [
+    ['1. FC Heidenheim 1846', 'HEI', 'Germany', 72, 72, 72, '#E2001A'],
+    ['1. FC Köln', 'KOE', 'Germany', 75, 75, 74, '#ED1C24'],
+    ['1. FSV Mainz 05', 'M05', 'Germany', 74, 74, 75, '#C3141E'],
+    ['1899 Hoffenheim', 'HOF', 'Germany', 77, 76, 75, '#1C63B7'],
+    ['Bayer 04 Leverkusen', 'B04', 'Germany', 80, 79, 78, '#E32221'],
+    ['Bayern München', 'FCB', 'Germany', 88, 84, 82, '#DC052D'],
+    ['Borussia Dortmund', 'BVB', 'Germany', 82, 81, 80, '#FDE100'],
+    ['Borussia Mönchengladbach', 'BMG', 'Germany', 79, 78, 77, '#000000'],
+    ['Eintracht Frankfurt', 'SGE', 'Germany', 79, 78, 78, '#E1000F'],
+    ['FC Augsburg', 'FCA', 'Germany', 74, 74, 73, '#BA3733'],
+    ['FC Schalke 04', 'S04', 'Germany', 73, 73, 72, '#004D9D'],
+    ['FC St. Pauli', 'STP', 'Germany', 73, 73, 73, '#624839'],
+    ['Hertha BSC', 'BSC', 'Germany', 75, 74, 73, '#005CA9'],
+    ['Holstein Kiel', 'KIE', 'Germany', 71, 71, 71, '#00519E'],
+    ['RB Leipzig', 'RBL', 'Germany', 81, 80, 80, '#DD0741'],
+    ['SC Freiburg', 'SCF', 'Germany', 77, 76, 77, '#000000'],
+    ['SV Darmstadt 98', 'D98', 'Germany', 71, 71, 71, '#004E9E'],
+    ['Union Berlin', 'FCU', 'Germany', 76, 75, 76, '#EB1923'],
+    ['VfB Stuttgart', 'VFB', 'Germany', 75, 74, 74, '#E32219'],
+    ['VfL Bochum', 'BOC', 'Germany', 72, 72, 72, '#005CA9'],
+    ['VfL Wolfsburg', 'WOB', 'Germany', 77, 77, 76, '#65B32E'],
+    ['Werder Bremen', 'SVW', 'Germany', 76, 73, 73, '#1D9053'],
+  ]),
+  ...toTeams('Serie A', [
+    ['AC Milan', 'MIL', 'Italy', 82, 80, 82, '#FB090B'],
+    ['Atalanta', 'ATA', 'Italy', 79, 78, 78, '#1E71B8'],
+    ['Bologna', 'BFC', 'Italy', 78, 74, 75, '#1A2F48'],
+    ['Cagliari', 'CAG', 'Italy', 74, 73, 73, '#A6192E'],
+    ['Como', 'COM', 'Italy', 75, 75, 75, '#003DA5'],
+    ['Cremonese', 'CRE', 'Italy', 72, 71, 71, '#C4161C'],
+    ['Empoli', 'EMP', 'Italy', 73, 73, 73, '#00579C'],
+    ['Fiorentina', 'FIO', 'Italy', 77, 77, 77, '#482E92'],
+    ['Frosinone', 'FRO', 'Italy', 72, 72, 71, '#FFE100'],
+    ['Genoa', 'GEN', 'Italy', 76, 74, 74, '#A91F2D'],
+    ['Hellas Verona', 'VER', 'Italy', 74, 73, 74, '#FFD700'],
+    ['Inter', 'INT', 'Italy', 84, 82, 83, '#0068A8'],
+    ['Juventus', 'JUV', 'Italy', 84, 80, 81, '#000000'],
+    ['Lazio', 'LAZ', 'Italy', 83, 79, 79, '#87D8F7'],
+    ['Lecce', 'LEC', 'Italy', 70, 72, 72, '#FFD700'],
+    ['Monza', 'MON', 'Italy', 73, 74, 73, '#E30613'],
+    ['Napoli', 'NAP', 'Italy', 82, 80, 81, '#12A0D7'],
+    ['Parma', 'PRM', 'Italy', 74, 74, 73, '#FFD200'],
+    ['Roma', 'ROM', 'Italy', 82, 78, 79, '#8E1F2F'],
+    ['Salernitana', 'SAL', 'Italy', 75, 72, 72, '#8A1E03'],
+    ['Sampdoria', 'SAM', 'Italy', 73, 73, 73, '#1B5497'],
+    ['Sassuolo', 'SAS', 'Italy', 76, 75, 73, '#00A752'],
+    ['Spezia', 'SPE', 'Italy', 72, 72, 72, '#000000'],
+    ['Torino', 'TOR', 'Italy', 76, 76, 76, '#8A1E03'],
+    ['Udinese', 'UDI', 'Italy', 77, 75, 75, '#000000'],
+    ['Venezia', 'VNZ', 'Italy', 73, 73, 72, '#F27B20'],
+  ]),
+  ...toTeams('Ligue 1', [
+    ['AC Ajaccio', 'ACA', 'France', 69, 70, 69, '#E30613'],
+    ['AJ Auxerre', 'AUX', 'France', 71, 71, 71, '#0062A8'],
+    ['Angers SCO', 'ANG', 'France', 71, 71, 70, '#000000'],
+    ['AS Monaco', 'ASM', 'France', 81, 78, 77, '#E7192B'],
+    ['AS Saint-Étienne', 'ASSE', 'France', 71, 72, 71, '#009639'],
+    ['Clermont Foot 63', 'CF63', 'France', 71, 71, 71, '#C8102E'],
+    ['ESTAC Troyes', 'TRO', 'France', 72, 72, 72, '#0061A8'],
+    ['FC Lorient', 'FCL', 'France', 74, 73, 72, '#F58113'],
+    ['FC Metz', 'FCM', 'France', 72, 72, 71, '#7B1D3F'],
+    ['FC Nantes', 'FCN', 'France', 75, 73, 74, '#FCD405'],
+    ['Le Havre AC', 'HAC', 'France', 71, 71, 72, '#1D3D6D'],
+    ['LOSC Lille', 'LOSC', 'France', 79, 76, 76, '#E01E13'],
+    ['Montpellier HSC', 'MHSC', 'France', 75, 74, 73, '#F58113'],
+    ['OGC Nice', 'OGCN', 'France', 77, 77, 77, '#C8102E'],
+    ['Olympique de Marseille', 'OM', 'France', 78, 77, 78, '#2FAEE0'],
+    ['Olympique Lyonnais', 'OL', 'France', 79, 77, 77, '#DA0812'],
+    ['Paris Saint-Germain', 'PSG', 'France', 89, 81, 82, '#004170'],
+    ['RC Lens', 'RCL', 'France', 76, 76, 76, '#FFD200'],
+    ['RC Strasbourg Alsace', 'RCS', 'France', 74, 73, 74, '#009FE3'],
+    ['Stade Brestois 29', 'SB29', 'France', 73, 73, 73, '#E30613'],
+    ['Stade de Reims', 'SDR', 'France', 74, 74, 73, '#E30613'],
+    ['Stade Rennais FC', 'SRFC', 'France', 79, 77, 77, '#E13327'],
+    ['Toulouse FC', 'TFC', 'France', 73, 73, 73, '#6D2077'],
+  ]),
+  ...toTeams('Eredivisie', [
+    ['Ajax', 'AJA', 'Netherlands', 78, 77, 77, '#D2122E'],
+    ['Feyenoord', 'FEY', 'Netherlands', 76, 75, 75, '#E4002B'],
+    ['PSV Eindhoven', 'PSV', 'Netherlands', 77, 75, 75, '#ED1C24'],
+  ]),
+  ...toTeams('Liga Portugal', [
+    ['Benfica', 'BEN', 'Portugal', 78, 78, 79, '#E20E0E'],
+    ['Porto', 'FCP', 'Portugal', 79, 78, 79, '#00428C'],
+    ['Sporting CP', 'SCP', 'Portugal', 78, 77, 77, '#008057'],
+  ]),
+  ...toTeams('Scottish Premiership', [
+    ['Celtic', 'CEL', 'Scotland', 73, 74, 72, '#018749'],
+    ['Rangers', 'RAN', 'Scotland', 73, 73, 73, '#1B458F'],
+  ]),
+  ...toTeams('Ukrainian Premier League', [
+    ['Dynamo Kyiv', 'DYK', 'Ukraine', 72, 72, 71, '#0055A4'],
+    ['Shakhtar Donetsk', 'SHA', 'Ukraine', 73, 73, 72, '#F26522'],
+  ]),
+  ...toTeams('Russian Premier League', [
+    ['CSKA Moscow', 'CSK', 'Russia', 72, 72, 72, '#C8102E'],
+    ['Zenit St. Petersburg', 'ZEN', 'Russia', 75, 75, 75, '#0091D2'],
+  ]),
+  ...toTeams('Süper Lig', [
+    ['Beşiktaş', 'BES', 'Turkey', 76, 75, 74, '#000000'],
+    ['Fenerbahçe', 'FEN', 'Turkey', 77, 75, 74, '#FFED00'],
+    ['Galatasaray', 'GAL', 'Turkey', 76, 75, 74, '#A90432'],
+  ]),
 ];
 
-// Combine club and international teams
-export const FIFA23AllTeams = [...FIFA23Teams, ...FIFA23InternationalTeams];
\ No newline at end of file
+const nationalTeams: TeamInfo[] = toTeams(NATIONAL_TEAM_LEAGUE, [
+  // UEFA (Europe)
+  ['England', 'ENG', 'England', 86, 83, 82, '#FFFFFF'],
+  ['France', 'FRA', 'France', 87, 84, 83, '#002395'],
+  ['Germany', 'GER', 'Germany', 84, 84, 82, '#FFFFFF'],
+  ['Spain', 'ESP', 'Spain', 84, 85, 82, '#C60B1E'],
+  ['Italy', 'ITA', 'Italy', 82, 82, 82, '#0066CC'],
+  ['Portugal', 'POR', 'Portugal', 86, 84, 82, '#E42518'],
+  ['Netherlands', 'NED', 'Netherlands', 81, 81, 83, '#F36C21'],
+  ['Belgium', 'BEL', 'Belgium', 84, 82, 79, '#E30613'],
+  ['Croatia', 'CRO', 'Croatia', 79, 82, 77, '#FF0000'],
+  ['Denmark', 'DEN', 'Denmark', 79, 80, 78, '#C60C30'],
+  ['Sweden', 'SWE', 'Sweden', 78, 76, 76, '#FECC02'],
+  ['Poland', 'POL', 'Poland', 83, 75, 76, '#DC143C'],
+  ['Wales', 'WAL', 'Wales', 78, 75, 74, '#D30731'],
+  ['Switzerland', 'SUI', 'Switzerland', 77, 79, 78, '#D52B1E'],
+  ['Austria', 'AUT', 'Austria', 76, 77, 76, '#ED2939'],
+  ['Ukraine', 'UKR', 'Ukraine', 76, 76, 75, '#FFD500'],
+  ['Serbia', 'SRB', 'Serbia', 82, 78, 76, '#C6363C'],
+  ['Turkey', 'TUR', 'Turkey', 77, 76, 75, '#E30A17'],
+  ['Czech Republic', 'CZE', 'Czech Republic', 74, 75, 75, '#D7141A'],
+  ['Scotland', 'SCO', 'Scotland', 74, 77, 75, '#005EB8'],
+  // CONMEBOL (South America)
+  ['Brazil', 'BRA', 'Brazil', 86, 83, 84, '#FFDF00'],
+  ['Argentina', 'ARG', 'Argentina', 87, 82, 80, '#75AADB'],
+  ['Uruguay', 'URU', 'Uruguay', 82, 80, 80, '#5CBFEB'],
+  ['Colombia', 'COL', 'Colombia', 80, 77, 76, '#FCD116'],
+  ['Chile', 'CHI', 'Chile', 77, 75, 74, '#D52B1E'],
+  ['Peru', 'PER', 'Peru', 73, 73, 73, '#D91023'],
+  ['Paraguay', 'PAR', 'Paraguay', 73, 72, 72, '#D52B1E'],
+  ['Ecuador', 'ECU', 'Ecuador', 74, 74, 75, '#FFDD00'],
+  ['Venezuela', 'VEN', 'Venezuela', 72, 71, 71, '#7B1E3A'],
+  ['Bolivia', 'BOL', 'Bolivia', 68, 68, 68, '#007934'],
+  // CONCACAF (North and Central America, Caribbean)
+  ['Mexico', 'MEX', 'Mexico', 77, 76, 76, '#006847'],
+  ['United States', 'USA', 'United States', 77, 76, 76, '#FFFFFF'],
+  ['Canada', 'CAN', 'Canada', 78, 74, 72, '#D80621'],
+  ['Costa Rica', 'CRC', 'Costa Rica', 71, 71, 71, '#CE1126'],
+  ['Jamaica', 'JAM', 'Jamaica', 72, 68, 68, '#FED100'],
+  ['Honduras', 'HON', 'Honduras', 68, 68, 68, '#FFFFFF'],
+  ['Panama', 'PAN', 'Panama', 68, 69, 68, '#DA121A'],
+  // CAF (Africa)
+  ['Senegal', 'SEN', 'Senegal', 80, 77, 78, '#FFFFFF'],
+  ['Morocco', 'MAR', 'Morocco', 78, 78, 79, '#C1272D'],
+  ['Nigeria', 'NGA', 'Nigeria', 80, 75, 74, '#008751'],
+  ['Egypt', 'EGY', 'Egypt', 80, 74, 73, '#CE1126'],
+  ['Cameroon', 'CMR', 'Cameroon', 76, 74, 73, '#007A5E'],
+  ['Ghana', 'GHA', 'Ghana', 76, 75, 73, '#FFFFFF'],
+  ['Algeria', 'ALG', 'Algeria', 78, 76, 73, '#FFFFFF'],
+  ['Tunisia', 'TUN', 'Tunisia', 72, 73, 72, '#E70013'],
+  ["Côte d'Ivoire", 'CIV', "Côte d'Ivoire", 77, 77, 75, '#F77F00'],
+  // AFC (Asia)
+  ['Japan', 'JPN', 'Japan', 76, 75, 75, '#000555'],
+  ['South Korea', 'KOR', 'South Korea', 80, 75, 73, '#C60C30'],
+  ['Australia', 'AUS', 'Australia', 71, 71, 71, '#FFCD00'],
+  ['Iran', 'IRN', 'Iran', 76, 70, 70, '#FFFFFF'],
+  ['Saudi Arabia', 'KSA', 'Saudi Arabia', 70, 70, 70, '#006C35'],
+  ['Qatar', 'QAT', 'Qatar', 68, 68, 68, '#8A1538'],
+  // OFC (Oceania)
+  ['New Zealand', 'NZL', 'New Zealand', 68, 67, 67, '#FFFFFF'],
+]);
+
+// Clubs that were only in some editions, following promotion and relegation
+const notIn: Record<RatedEdition, string[]> = {
+  fifa23: [
+    'Burnley',
+    'Sheffield United',
+    'Luton Town',
+    'Ipswich Town',
+    'Deportivo Alavés',
+    'UD Almería',
+    'Granada CF',
+    'UD Las Palmas',
+    'CD Leganés',
+    '1. FC Heidenheim 1846',
+    'SV Darmstadt 98',
+    'FC St. Pauli',
+    'Holstein Kiel',
+    'Frosinone',
+    'Genoa',
+    'Cagliari',
+    'Parma',
+    'Como',
+    'Venezia',
+    'Le Havre AC',
+    'FC Metz',
+    'AS Saint-Étienne',
+  ],
+  fc24: [
+    'Leeds United',
+    'Leicester City',
+    'Southampton',
+    'Ipswich Town',
+    'Elche CF',
+    'Espanyol',
+    'Valladolid',
+    'CD Leganés',
+    'Hertha BSC',
+    'FC Schalke 04',
+    'FC St. Pauli',
+    'Holstein Kiel',
+    'Cremonese',
+    'Sampdoria',
+    'Spezia',
+    'Parma',
+    'Como',
+    'Venezia',
+    'AC Ajaccio',
+    'Angers SCO',
+    'AJ Auxerre',
+    'ESTAC Troyes',
+    'AS Saint-Étienne',
+    'CSKA Moscow',
+    'Zenit St. Petersburg',
+  ],
+  fc25: [
+    'Leeds United',
+    'Burnley',
+    'Sheffield United',
+    'Luton Town',
+    'Elche CF',
+    'Cádiz CF',
+    'UD Almería',
+    'Granada CF',
+    '1. FC Köln',
+    'SV Darmstadt 98',
+    'Hertha BSC',
+    'FC Schalke 04',
+    'Cremonese',
+    'Frosinone',
+    'Salernitana',
+    'Sampdoria',
+    'Sassuolo',
+    'Spezia',
+    'AC Ajaccio',
+    'Clermont Foot 63',
+    'ESTAC Troyes',
+    'FC Lorient',
+    'FC Metz',
+    'CSKA Moscow',
+    'Zenit St. Petersburg',
+  ],
+};
+
+// Ratings that changed from the previous edition, oldest edition first.
+// FIFA 23's are the rows above.
+const ratingChanges: Record<RatedEdition, Record<string, Ratings>> = {
+  fifa23: {},
+  fc24: {
+    Arsenal: [83, 83, 82],
+    'Aston Villa': [80, 78, 78],
+    'Brighton & Hove Albion': [78, 77, 76],
+    Chelsea: [79, 80, 79],
+    Liverpool: [84, 81, 82],
+    'Manchester City': [85, 86, 84],
+    'Manchester United': [81, 80, 80],
+    'Newcastle United': [80, 80, 79],
+    'Tottenham Hotspur': [80, 79, 78],
+    'West Ham United': [80, 78, 77],
+    'Atlético de Madrid': [83, 82, 81],
+    'FC Barcelona': [84, 83, 82],
+    'Girona FC': [75, 75, 74],
+    'Real Madrid': [86, 85, 84],
+    'Bayer 04 Leverkusen': [81, 80, 79],
+    'Bayern München': [90, 84, 83],
+    'VfB Stuttgart': [76, 75, 75],
+    'AC Milan': [82, 80, 80],
+    Inter: [84, 82, 84],
+    Juventus: [80, 80, 81],
+    Lazio: [80, 78, 79],
+    Napoli: [83, 80, 81],
+    Roma: [82, 78, 79],
+    'Paris Saint-Germain': [85, 82, 80],
+    Galatasaray: [78, 76, 75],
+    England: [86, 84, 83],
+    France: [88, 84, 83],
+  },
+  fc25: {
+    Arsenal: [83, 84, 83],
+    'Aston Villa': [81, 79, 79],
+    'Brighton & Hove Albion': [77, 77, 76],
+    Chelsea: [79, 79, 78],
+    Liverpool: [83, 82, 83],
+    'Manchester City': [86, 85, 84],
+    'Manchester United': [80, 79, 78],
+    'Tottenham Hotspur': [79, 79, 78],
+    'Atlético de Madrid': [84, 81, 80],
+    'FC Barcelona': [83, 83, 81],
+    'Girona FC': [77, 75, 75],
+    'Real Madrid': [90, 85, 83],
+    'Bayer 04 Leverkusen': [82, 80, 80],
+    'Bayern München': [88, 83, 82],
+    'Borussia Dortmund': [81, 80, 80],
+    'VfB Stuttgart': [78, 76, 76],
+    Atalanta: [81, 79, 78],
+    Bologna: [76, 75, 76],
+    'AC Milan': [81, 79, 80],
+    Inter: [83, 82, 84],
+    Juventus: [79, 79, 80],
+    Napoli: [82, 78, 80],
+    'Paris Saint-Germain': [82, 81, 80],
+    Galatasaray: [80, 78, 76],
+    Spain: [84, 85, 83],
+  },
+};
+
+const allTeams = [...clubs, ...nationalTeams];
+
+const RATED_EDITIONS: RatedEdition[] = ['fifa23', 'fc24', 'fc25'];
+
+// Every team with the ratings it had in `edition`
+const ratingsFor = (edition: RatedEdition): TeamInfo[] => {
+  const changes = RATED_EDITIONS.slice(
+    0,
+    RATED_EDITIONS.indexOf(edition) + 1
+  ).map(rated => ratingChanges[rated]);
+  return allTeams.map(team =>
+    changes.reduce(
+      (rated, change) =>
+        change[team.name] ? withRatings(rated, change[team.name]) : rated,
+      team
+    )
+  );
+};
+
+const editionTeams = (edition: RatedEdition) =>
+  ratingsFor(edition).filter(team => !notIn[edition].includes(team.name));
+
+export const TEAM_CATALOGUE: Record<GameEdition, TeamInfo[]> = {
+  fifa23: editionTeams('fifa23'),
+  fc24: editionTeams('fc24'),
+  fc25: editionTeams('fc25'),
+  custom: ratingsFor('fc25'),
+};
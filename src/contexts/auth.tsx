@@ -1,6 +1,13 @@
 'use client';
 
-import { getCurrentUser, login, register } from '@/lib/api';
+import {
+  AuthError,
+  clearOfflineData,
+  getCurrentUser,
+  login,
+  register,
+  subscribeToSession,
+} from '@/lib/api';
 import { User } from '@/types';
 import {
   createContext,
@@ -29,6 +36,15 @@ interface AuthContextType {
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+const clearStoredSession = () => {
+  localStorage.removeItem('fifa-tracker-user');
+  localStorage.removeItem('fifa-tracker-token');
+  localStorage.removeItem('fifa-tracker-refresh-token');
+  clearOfflineData().catch(error => {
+    console.error('Error clearing offline data:', error);
+  });
+};
+
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [accessToken, setAccessToken] = useState<string | null>(null);
@@ -39,6 +55,21 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     setMounted(true);
   }, []);
 
+  // The API client refreshes tokens on its own; mirror the result here and
+  // sign out when the refresh token is rejected. ProtectedRoute then sends
+  // the user to /auth without a full page reload.
+  useEffect(() => {
+    return subscribeToSession(event => {
+      if (event.type === 'refreshed') {
+        setAccessToken(event.accessToken);
+      } else {
+        setUser(null);
+        setAccessToken(null);
+        clearStoredSession();
+      }
+    });
+  }, []);
+
   useEffect(() => {
     // Only check auth after component is mounted to prevent hydration mismatch
     if (!mounted) return;
@@ -49,34 +80,37 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       const savedToken = localStorage.getItem('fifa-tracker-token');
 
       if (savedUser && savedToken) {
+        let userData: User;
         try {
-          const userData = JSON.parse(savedUser);
-          setUser(userData);
-          setAccessToken(savedToken);
+          userData = JSON.parse(savedUser);
+        } catch (error) {
+          console.error('Error parsing saved user data:', error);
+          clearStoredSession();
+          setIsLoading(false);
+          return;
+        }
 
+        setUser(userData);
+        setAccessToken(savedToken);
+
+        try {
           // Fetch fresh user data from backend to ensure token is still valid
           const currentUser = await getCurrentUser();
-          if (currentUser) {
-            setUser(currentUser);
-            localStorage.setItem(
-              'fifa-tracker-user',
-              JSON.stringify(currentUser)
-            );
-          } else {
-            // Token might be invalid, clear auth data
-            localStorage.removeItem('fifa-tracker-user');
-            localStorage.removeItem('fifa-tracker-token');
-            localStorage.removeItem('fifa-tracker-refresh-token');
+          setUser(currentUser);
+          localStorage.setItem(
+            'fifa-tracker-user',
+            JSON.stringify(currentUser)
+          );
+        } catch (error) {
+          // Only a rejected token ends the session; a network failure keeps
+          // the cached user so the app stays usable while offline
+          if (error instanceof AuthError) {
+            clearStoredSession();
             setUser(null);
             setAccessToken(null);
+          } else {
+            console.error('Error refreshing current user:', error);
           }
-        } catch (error) {
-          console.error('Error parsing saved user data:', error);
-          localStorage.removeItem('fifa-tracker-user');
-          localStorage.removeItem('fifa-tracker-token');
-          localStorage.removeItem('fifa-tracker-refresh-token');
-          setUser(null);
-          setAccessToken(null);
         }
       }
       setIsLoading(false);
@@ -85,15 +119,31 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     checkAuth();
   }, [mounted]);
 
+  // Fetch the complete user profile, falling back to the auth response data
+  const storeCurrentUser = async (authUser: User) => {
+    let userData: User;
+    try {
+      userData = await getCurrentUser();
+    } catch (error) {
+      console.error('Error fetching current user:', error);
+      userData = {
+        id: authUser.id,
+        email: authUser.email,
+        username: authUser.username,
+        first_name: authUser.first_name,
+        last_name: authUser.last_name,
+      };
+    }
+    setUser(userData);
+    localStorage.setItem('fifa-tracker-user', JSON.stringify(userData));
+  };
+
   const signIn = async (
     identifier: string,
     password: string
   ): Promise<boolean> => {
     try {
       const user = await login(identifier, password);
-      if (!user) {
-        return false;
-      }
 
       // Get the access token from the response or localStorage
       const token =
@@ -108,23 +158,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         );
       }
 
-      // Fetch complete user profile from backend
-      const currentUser = await getCurrentUser();
-      if (currentUser) {
-        setUser(currentUser);
-        localStorage.setItem('fifa-tracker-user', JSON.stringify(currentUser));
-      } else {
-        // Fallback to login response data if getCurrentUser fails
-        const userData: User = {
-          id: user.id,
-          email: user.email,
-          username: user.username,
-          first_name: user.first_name,
-          last_name: user.last_name,
-        };
-        setUser(userData);
-        localStorage.setItem('fifa-tracker-user', JSON.stringify(userData));
-      }
+      await storeCurrentUser(user);
 
       setAccessToken(token);
       if (token) {
@@ -133,7 +167,11 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       return true;
     } catch (error) {
       console.error('Sign in error:', error);
-      return false;
+      // Wrong credentials resolve to false; anything else is surfaced
+      if (error instanceof AuthError) {
+        return false;
+      }
+      throw error;
     }
   };
 
@@ -153,9 +191,6 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         password,
         username
       );
-      if (!user) {
-        return false;
-      }
 
       // Get the access token from the response or localStorage
       const token =
@@ -170,23 +205,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         );
       }
 
-      // Fetch complete user profile from backend
-      const currentUser = await getCurrentUser();
-      if (currentUser) {
-        setUser(currentUser);
-        localStorage.setItem('fifa-tracker-user', JSON.stringify(currentUser));
-      } else {
-        // Fallback to registration response data if getCurrentUser fails
-        const userData: User = {
-          id: user.id,
-          email: user.email,
-          username: user.username,
-          first_name: user.first_name,
-          last_name: user.last_name,
-        };
-        setUser(userData);
-        localStorage.setItem('fifa-tracker-user', JSON.stringify(userData));
-      }
+      await storeCurrentUser(user);
 
       setAccessToken(token);
       if (token) {
@@ -195,16 +214,14 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       return true;
     } catch (error) {
       console.error('Sign up error:', error);
-      return false;
+      throw error;
     }
   };
 
   const signOut = () => {
     setUser(null);
     setAccessToken(null);
-    localStorage.removeItem('fifa-tracker-user');
-    localStorage.removeItem('fifa-tracker-token');
-    localStorage.removeItem('fifa-tracker-refresh-token');
+    clearStoredSession();
   };
 
   const updateUser = (userData: User) => {
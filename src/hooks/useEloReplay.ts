@@ -0,0 +1,53 @@
+'use client';
+
+import { useQuery } from '@/hooks/useQuery';
+import {
+  EloSettings,
+  getMatchHistory,
+  getPlayers,
+  queryKeys,
+  readEloSettings,
+  replayElo,
+  resolveMatchPlayers,
+  storeEloSettings,
+} from '@/lib/api';
+import { useState } from 'react';
+
+/**
+ * Elo ratings replayed from the whole match history. Pass `enabled: false`
+ * to skip fetching until the ratings are needed. The settings are kept per
+ * browser.
+ */
+export function useEloReplay(enabled = true) {
+  const [settings, setSettings] = useState<EloSettings>(readEloSettings);
+
+  const matchesQuery = useQuery(
+    enabled ? queryKeys.matchHistory() : null,
+    options => getMatchHistory(options)
+  );
+  const playersQuery = useQuery(enabled ? queryKeys.players() : null, options =>
+    getPlayers(options)
+  );
+
+  const matches =
+    matchesQuery.data && playersQuery.data
+      ? resolveMatchPlayers(matchesQuery.data, playersQuery.data)
+      : null;
+  const replay = matches ? replayElo(matches, settings) : null;
+
+  const updateSettings = (newSettings: EloSettings) => {
+    setSettings(newSettings);
+    storeEloSettings(newSettings);
+  };
+
+  return {
+    replay,
+    // The completed matches the ratings were replayed from
+    matches: matches ?? [],
+    players: playersQuery.data ?? [],
+    settings,
+    updateSettings,
+    isLoading: matchesQuery.isLoading || playersQuery.isLoading,
+    error: matchesQuery.error ?? playersQuery.error,
+  };
+}
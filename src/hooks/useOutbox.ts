@@ -0,0 +1,86 @@
+'use client';
+
+import {
+  getPendingMatches,
+  OutboxSyncResult,
+  subscribeToOutbox,
+  syncPendingMatches,
+} from '@/lib/api';
+import { PendingMatch } from '@/types';
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+// The tunnel can come back without the browser going offline/online, so
+// queued matches are also retried on an interval
+const RETRY_INTERVAL = 30 * 1000;
+
+interface UseOutboxOptions {
+  // Called after a replay that synced or rejected at least one match
+  onSynced?: (result: OutboxSyncResult) => void;
+}
+
+/**
+ * Matches waiting in the offline outbox. Replays them on mount, when the
+ * browser comes back online and periodically while any are pending.
+ */
+export function useOutbox({ onSynced }: UseOutboxOptions = {}) {
+  const [pendingMatches, setPendingMatches] = useState<PendingMatch[]>([]);
+  const onSyncedRef = useRef(onSynced);
+
+  useEffect(() => {
+    onSyncedRef.current = onSynced;
+  });
+
+  const syncNow = useCallback(async () => {
+    try {
+      const result = await syncPendingMatches();
+      if (
+        result.synced > 0 ||
+        result.conflicts.length > 0 ||
+        result.failed.length > 0
+      ) {
+        onSyncedRef.current?.(result);
+      }
+    } catch (error) {
+      console.error('Error syncing queued matches:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    let active = true;
+
+    const load = async () => {
+      try {
+        const matches = await getPendingMatches();
+        if (active) {
+          setPendingMatches(matches);
+        }
+      } catch (error) {
+        console.error('Error reading queued matches:', error);
+      }
+    };
+
+    load();
+    syncNow();
+
+    const unsubscribe = subscribeToOutbox(load);
+    window.addEventListener('online', syncNow);
+
+    return () => {
+      active = false;
+      unsubscribe();
+      window.removeEventListener('online', syncNow);
+    };
+  }, [syncNow]);
+
+  const hasPending = pendingMatches.some(match => match.status === 'pending');
+
+  useEffect(() => {
+    if (!hasPending) {
+      return;
+    }
+    const intervalId = setInterval(syncNow, RETRY_INTERVAL);
+    return () => clearInterval(intervalId);
+  }, [hasPending, syncNow]);
+
+  return { pendingMatches, syncNow };
+}
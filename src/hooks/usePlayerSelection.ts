@@ -0,0 +1,49 @@
+'use client';
+
+import { useQuery } from '@/hooks/useQuery';
+import { getPlayersStats, queryKeys } from '@/lib/api';
+import { UserDetailedStats } from '@/types';
+import { useRouter, useSearchParams } from 'next/navigation';
+
+// The head-to-head and compare pages share one limit so a selection passed
+// from one to the other is kept whole. Every pair on the head-to-head page
+// gets its own rivalry, which is what keeps it small.
+export const MAX_COMPARED_PLAYERS = 4;
+
+export const getDisplayName = (stats?: UserDetailedStats) =>
+  stats ? stats.first_name || stats.username : 'Loading...';
+
+/**
+ * Players chosen on a comparison page, with their stats. The ids live in the
+ * `players` search parameter so a comparison can be shared; changes replace
+ * the URL of `route` without scrolling.
+ */
+export function usePlayerSelection(route: string, max: number) {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const playerIds = Array.from(
+    new Set((searchParams.get('players') ?? '').split(',').filter(Boolean))
+  ).slice(0, max);
+
+  const statsQuery = useQuery(
+    playerIds.length > 0 ? queryKeys.usersStats(playerIds) : null,
+    options => getPlayersStats(playerIds, options)
+  );
+
+  const setPlayerIds = (ids: string[]) => {
+    const params = new URLSearchParams(searchParams.toString());
+    if (ids.length > 0) {
+      params.set('players', ids.join(','));
+    } else {
+      params.delete('players');
+    }
+    router.replace(`${route}?${params.toString()}`, { scroll: false });
+  };
+
+  return {
+    playerIds,
+    setPlayerIds,
+    stats: statsQuery.data ?? {},
+    isLoading: statsQuery.isLoading,
+  };
+}
@@ -0,0 +1,115 @@
+'use client';
+
+import {
+  ApiError,
+  DEFAULT_STALE_TIME,
+  fetchQuery,
+  getQueryData,
+  isCancelledError,
+  isQueryStale,
+  QueryFetcher,
+  subscribeToQuery,
+  toApiError,
+} from '@/lib/api';
+import {
+  useCallback,
+  useEffect,
+  useRef,
+  useState,
+  useSyncExternalStore,
+} from 'react';
+
+interface UseQueryOptions {
+  // Cached data younger than this is shown without refetching
+  staleTime?: number;
+}
+
+export interface QueryState<T> {
+  data: T | undefined;
+  error: ApiError | null;
+  // True until the first result (or error) for the current key arrives
+  isLoading: boolean;
+  // Fetch again regardless of staleness
+  refetch: () => Promise<T | undefined>;
+}
+
+const noopSubscribe = () => () => {};
+
+/**
+ * Read `key` from the query cache, fetching it with `fetcher` when it is
+ * missing or stale. Pass `null` as the key to skip fetching. Cached data for
+ * the new key is returned immediately when the key changes; the request for
+ * the previous key is cancelled.
+ */
+export function useQuery<T>(
+  key: string | null,
+  fetcher: QueryFetcher<T>,
+  { staleTime = DEFAULT_STALE_TIME }: UseQueryOptions = {}
+): QueryState<T> {
+  const fetcherRef = useRef(fetcher);
+  const [errorState, setErrorState] = useState<{
+    key: string;
+    error: ApiError;
+  } | null>(null);
+
+  useEffect(() => {
+    fetcherRef.current = fetcher;
+  });
+
+  const subscribe = useCallback(
+    (onChange: () => void) =>
+      key ? subscribeToQuery(key, onChange) : noopSubscribe(),
+    [key]
+  );
+  const data = useSyncExternalStore(
+    subscribe,
+    () => (key ? getQueryData<T>(key) : undefined),
+    () => undefined
+  );
+
+  useEffect(() => {
+    if (!key) {
+      return;
+    }
+
+    const controller = new AbortController();
+
+    const revalidate = () => {
+      if (!isQueryStale(key, staleTime)) {
+        return;
+      }
+      fetchQuery(key, fetcherRef.current, { signal: controller.signal })
+        .then(() => setErrorState(null))
+        .catch(error => {
+          if (isCancelledError(error)) return;
+          console.error(`Error fetching ${key}:`, error);
+          setErrorState({ key, error: toApiError(error) });
+        });
+    };
+
+    revalidate();
+    // Invalidation notifies subscribers; refetch while mounted
+    const unsubscribe = subscribeToQuery(key, revalidate);
+
+    return () => {
+      unsubscribe();
+      controller.abort();
+    };
+  }, [key, staleTime]);
+
+  const refetch = useCallback(async () => {
+    if (!key) {
+      return undefined;
+    }
+    return fetchQuery(key, fetcherRef.current);
+  }, [key]);
+
+  const error = errorState?.key === key ? errorState.error : null;
+
+  return {
+    data,
+    error,
+    isLoading: key !== null && data === undefined && error === null,
+    refetch,
+  };
+}
@@ -19,7 +19,9 @@ export {
   deletePlayer,
   getCurrentUserStats,
   getPlayers,
+  getPlayersStats,
   getPlayerStats,
+  updateCustomTeams,
   updatePlayer,
   updateUserProfile,
 } from './players';
@@ -32,15 +34,219 @@ export {
   recordMatch,
   updateMatch,
 } from './matches';
+export type { RecordMatchOptions } from './matches';
+
+// Offline match outbox
+export {
+  createIdempotencyKey,
+  discardPendingMatch,
+  enqueueMatch,
+  getPendingMatches,
+  isOfflineError,
+  retryPendingMatchAsStandalone,
+  subscribeToOutbox,
+  syncPendingMatches,
+} from './outbox';
+export type { NewPendingMatch, OutboxSyncResult } from './outbox';
 
 // Statistics functions
-export { getHeadToHead, getTable } from './stats';
+export { getHeadToHead, getHeadToHeadMatches, getTable } from './stats';
+
+// Fixture generation
+export {
+  assignResultsToFixtures,
+  generateRoundRobin,
+  getFixtureFormat,
+  groupFixturesByMatchday,
+} from './fixtures';
+export type { PlayedFixture } from './fixtures';
+
+// Knockout brackets
+export {
+  bracketSlot,
+  buildBracket,
+  buildBracketFromEntrants,
+  getNextTieMatch,
+  roundName,
+  seedPlayers,
+  shuffle,
+} from './bracket';
+export type {
+  Bracket,
+  BracketTie,
+  NextTieMatch,
+  TieDecision,
+  TieStatus,
+} from './bracket';
+
+// Group stage
+export {
+  buildGroupStageBracket,
+  buildGroupTables,
+  canPairAdjacentGroups,
+  drawGroups,
+  getQualifierLabels,
+  groupName,
+} from './groups';
+export type { GroupTable } from './groups';
+
+// Swiss system
+export { buildSwiss, maxSwissRounds, recommendedSwissRounds } from './swiss';
+export type { SwissRound, SwissStanding, SwissState } from './swiss';
+
+// Client-side standings
+export {
+  applyRules,
+  compareStandings,
+  computeStandings,
+  computeStandingsFromResults,
+  DEFAULT_RULES,
+  diffStandings,
+  pointsForResult,
+  TIEBREAK_LABELS,
+} from './standings';
+export type { RankedStanding, StandingsMismatch } from './standings';
+
+// What-if scenarios
+export {
+  computePositionRanges,
+  getRemainingFixtures,
+  simulateStandings,
+  toHypotheticalMatches,
+} from './whatif';
+export type { HypotheticalScore, PositionRange } from './whatif';
+
+// Head-to-head rivalries
+export { buildRivalry, FRIENDLY_LABEL } from './rivalry';
+export type {
+  CumulativePoint,
+  Rivalry,
+  RivalryMatch,
+  RivalryMeeting,
+  RivalryRecord,
+  TeamUsage,
+  TournamentSplit,
+} from './rivalry';
+
+// Multi-player comparison
+export {
+  ATTRIBUTE_NAMES,
+  getEloSeries,
+  getFormSeries,
+  getGoalsSeries,
+  getPlayerAttributes,
+  getWinRateSeries,
+  normalizeAttributes,
+  ROLLING_WINDOW,
+} from './comparison';
+export type {
+  AttributeName,
+  PlayerAttributes,
+  SeriesPoint,
+} from './comparison';
+
+// Team catalogue
+export {
+  CUSTOM_TEAM_LEAGUE,
+  findCustomTeam,
+  findTeam,
+  getCustomTeamError,
+  getEditionLeagues,
+  getEditionTeams,
+  getTeamColor,
+  getTournamentEdition,
+} from './catalogue';
+
+// Team drafts
+export {
+  createDraft,
+  DRAFT_ROUND_OPTIONS,
+  getDraftedTeams,
+  getDraftSlots,
+  getNextDraftSlot,
+  isDrafted,
+  isDraftComplete,
+} from './draft';
+export type { DraftSlot } from './draft';
+
+// Random team picker
+export {
+  DEFAULT_TEAM_ROLL_CONSTRAINTS,
+  getRollCandidates,
+  isBalancedPair,
+  readTeamRollConstraints,
+  rerollTeam,
+  rollTeams,
+  storeTeamRollConstraints,
+} from './teampicker';
+export type { RollHandicap } from './teampicker';
+
+// Team usage analytics
+export {
+  COMFORT_PICKS,
+  getComfortPicks,
+  getTeamAnalytics,
+  getTeamLeague,
+  getTeamRecords,
+  MIN_RANKED_MATCHES,
+} from './teamstats';
+export type { LeagueUsage, TeamAnalytics, TeamRecord } from './teamstats';
+
+// Elo ratings
+export {
+  DEFAULT_ELO,
+  DEFAULT_ELO_SETTINGS,
+  expectedScore,
+  formatRatingDelta,
+  getRatingDelta,
+  getRatingTimeline,
+  K_FACTOR_OPTIONS,
+  readEloSettings,
+  replayElo,
+  storeEloSettings,
+} from './elo';
+export type {
+  EloMatchChange,
+  EloReplay,
+  EloSettings,
+  RatingPoint,
+} from './elo';
+
+// Elo handicaps
+export {
+  DEFAULT_HANDICAP,
+  getHandicap,
+  getHeadStarts,
+  getMaxStrongerStars,
+  HANDICAP_MODE_LABELS,
+  hasHeadStart,
+  isTeamHandicapMet,
+  withHeadStart,
+} from './handicap';
+export type { Handicap } from './handicap';
+
+// Match prediction and title odds
+export {
+  expectedGoals,
+  getPlayerStrength,
+  getSurpriseFactor,
+  predictMatch,
+} from './prediction';
+export type { MatchPrediction, PlayerStrength, Scoreline } from './prediction';
+export { projectStandings } from './projection';
+export type { Projection, ProjectionRow } from './projection';
+
+// Match results resolved to player ids
+export { resolveMatchPlayers, resolvePendingMatches } from './results';
+export type { ResolvedMatch } from './results';
 
 // Tournament functions
 export {
   addPlayerToTournament,
   createTournament,
   deleteTournament,
+  draftTeam,
+  getAllTournamentMatches,
   getTournament,
   getTournamentMatches,
   getTournamentPlayers,
@@ -61,6 +267,44 @@ export {
   sendFriendRequest,
 } from './user';
 
+// Query cache
+export {
+  DEFAULT_STALE_TIME,
+  fetchQuery,
+  getQueryData,
+  invalidateQueries,
+  isQueryStale,
+  queryKeys,
+  setQueryData,
+  subscribeToQuery,
+} from './cache';
+export type { QueryFetcher } from './cache';
+
+// Offline data status (service worker cache)
+export {
+  clearOfflineData,
+  getCachedAt,
+  subscribeToConnectivity,
+} from './connectivity';
+
+// Typed API errors
+export {
+  ApiError,
+  AuthError,
+  CancelledError,
+  ConflictError,
+  ForbiddenError,
+  getErrorMessage,
+  isCancelledError,
+  NetworkError,
+  NotFoundError,
+  settle,
+  TimeoutError,
+  toApiError,
+  ValidationError,
+} from './errors';
+export type { ApiResult, FieldErrors } from './errors';
+
 // Shared utilities
 export {
   API_BASE_URL,
@@ -68,6 +312,14 @@ export {
   debugError,
   debugLog,
   debugWarn,
+  DEFAULT_REQUEST_TIMEOUT,
   getAccessToken,
   getApiBaseUrl,
+  getApiClient,
+  getPublicClient,
+  getTokenExpiry,
+  refreshAccessToken,
+  requestConfig,
+  subscribeToSession,
 } from './shared';
+export type { RequestOptions, SessionEvent } from './shared';
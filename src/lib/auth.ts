@@ -1,35 +1,54 @@
 import { User } from '@/types';
-import axios, { AxiosError } from 'axios';
-import { API_BASE_URL, createAuthenticatedRequest, debugError } from './shared';
+import { ApiError, toApiError } from './errors';
+import {
+  debugError,
+  getApiClient,
+  getPublicClient,
+  refreshAccessToken,
+  RequestOptions,
+  requestConfig,
+} from './shared';
 
 export async function register(
   first_name: string,
   last_name: string,
   email: string,
   password: string,
-  username: string
-): Promise<User | null> {
+  username: string,
+  options: RequestOptions = {}
+): Promise<User> {
   try {
     const payload = { first_name, last_name, email, password, username };
 
-    const response = await axios.post(`${API_BASE_URL}/auth/register`, payload);
+    const response = await getPublicClient().post(
+      '/auth/register',
+      payload,
+      requestConfig(options)
+    );
     const { data } = response.data;
     return data;
   } catch (error) {
     debugError('Error registering:', error);
-    return null;
+    throw toApiError(error, {
+      409: 'An account with this username or email already exists.',
+    });
   }
 }
 
 export async function login(
   identifier: string,
-  password: string
-): Promise<User | null> {
+  password: string,
+  options: RequestOptions = {}
+): Promise<User> {
   try {
     // The API expects username field, so we'll use the identifier as username
     const payload = { username: identifier, password };
 
-    const response = await axios.post(`${API_BASE_URL}/auth/login`, payload);
+    const response = await getPublicClient().post(
+      '/auth/login',
+      payload,
+      requestConfig(options)
+    );
     const { data } = response.data;
 
     // Store the access token if it's included in the response
@@ -45,49 +64,47 @@ export async function login(
     return data;
   } catch (error) {
     debugError('Error logging in:', error);
-    if (axios.isAxiosError(error)) {
+    if (error instanceof ApiError) {
       debugError('Login error details:', {
-        status: error.response?.status,
-        statusText: error.response?.statusText,
-        data: error.response?.data,
-        config: {
-          url: error.config?.url,
-          method: error.config?.method,
-          headers: error.config?.headers,
-        },
+        status: error.status,
+        code: error.code,
+        detail: error.detail,
       });
     }
-    return null;
+    throw toApiError(error, { 401: 'Invalid username or password' });
   }
 }
 
-export async function onGoogleSignInClick(): Promise<void> {
+export async function onGoogleSignInClick(
+  options: RequestOptions = {}
+): Promise<void> {
   try {
-    const response = await axios.get(`${API_BASE_URL}/auth/google/login`);
+    const response = await getPublicClient().get(
+      '/auth/google/login',
+      requestConfig(options)
+    );
     const { data } = response.data;
     window.location.href = data.auth_url;
   } catch (error) {
     debugError('Error initiating Google Sign-In:', error);
-    if (axios.isAxiosError(error)) {
-      const axiosError = error as AxiosError;
-      if (axiosError.response?.status === 401) {
-        throw new Error('Authentication required. Please log in again.');
-      }
-    }
-    throw new Error('Failed to initiate Google Sign-In. Please try again.');
+    throw toApiError(error);
   }
 }
 
 export async function handleGoogleCallback(
-  token: string
-): Promise<User | null> {
+  token: string,
+  options: RequestOptions = {}
+): Promise<User> {
   try {
     // Store the token temporarily
     localStorage.setItem('fifa-tracker-token', token);
 
     // Fetch user data using the token
-    const axiosInstance = createAuthenticatedRequest();
-    const response = await axiosInstance.get('/auth/me');
+    const axiosInstance = getApiClient();
+    const response = await axiosInstance.get(
+      '/auth/me',
+      requestConfig(options)
+    );
     const { data: userData } = response.data;
 
     // Store user data
@@ -99,76 +116,76 @@ export async function handleGoogleCallback(
     // Clear tokens on error
     localStorage.removeItem('fifa-tracker-token');
     localStorage.removeItem('fifa-tracker-refresh-token');
-    return null;
+    throw toApiError(error);
   }
 }
 
+// Goes through the shared single-flight refresh, so it cannot be cancelled
+// by one caller while others may be waiting on the same refresh
 export async function refreshToken(): Promise<string | null> {
-  try {
-    const refreshToken = localStorage.getItem('fifa-tracker-refresh-token');
-    if (!refreshToken) {
-      return null;
-    }
-
-    const response = await axios.post(`${API_BASE_URL}/auth/refresh`, {
-      refresh_token: refreshToken,
-    });
-    const { data } = response.data;
-
-    if (data?.access_token) {
-      localStorage.setItem('fifa-tracker-token', data.access_token);
-      return data.access_token;
-    }
-
+  if (!localStorage.getItem('fifa-tracker-refresh-token')) {
     return null;
+  }
+
+  try {
+    return await refreshAccessToken();
   } catch (error) {
     debugError('Error refreshing token:', error);
-    // Clear tokens on refresh failure
-    localStorage.removeItem('fifa-tracker-token');
-    localStorage.removeItem('fifa-tracker-refresh-token');
-    return null;
+    throw toApiError(error);
   }
 }
 
-export async function getCurrentUser(): Promise<User | null> {
+export async function getCurrentUser(
+  options: RequestOptions = {}
+): Promise<User> {
   try {
-    const axiosInstance = createAuthenticatedRequest();
-    const response = await axiosInstance.get('/auth/me');
+    const axiosInstance = getApiClient();
+    const response = await axiosInstance.get(
+      '/auth/me',
+      requestConfig(options)
+    );
     const { data } = response.data;
     return data;
   } catch (error) {
     debugError('Error fetching current user:', error);
-    return null;
+    throw toApiError(error);
   }
 }
 
 export async function checkUsernameAvailability(
-  username: string
+  username: string,
+  options: RequestOptions = {}
 ): Promise<boolean> {
   try {
-    const axiosInstance = createAuthenticatedRequest();
+    const axiosInstance = getApiClient();
     const payload = { username: username };
-    const response = await axiosInstance.post(`/auth/check-username`, payload);
+    const response = await axiosInstance.post(
+      `/auth/check-username`,
+      payload,
+      requestConfig(options)
+    );
     const { data } = response.data;
     return !data.exists;
   } catch (error) {
     debugError('Error checking username availability:', error);
-    // If the API call fails, we'll assume the username is taken to be safe
-    return false;
+    throw toApiError(error);
   }
 }
 
 export async function deleteUserAccount(
-  confirmationText: string
-): Promise<boolean> {
+  confirmationText: string,
+  options: RequestOptions = {}
+): Promise<void> {
   try {
-    const axiosInstance = createAuthenticatedRequest();
-    await axiosInstance.delete('/auth/me', {
-      data: { confirmation_text: confirmationText },
-    });
-    return true;
+    const axiosInstance = getApiClient();
+    await axiosInstance.delete(
+      '/auth/me',
+      requestConfig(options, {
+        data: { confirmation_text: confirmationText },
+      })
+    );
   } catch (error) {
     debugError('Error deleting user account:', error);
-    return false;
+    throw toApiError(error);
   }
 }
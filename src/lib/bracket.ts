@@ -0,0 +1,318 @@
+import { KnockoutSeeding, KnockoutSettings } from '@/types';
+import { ResolvedMatch } from './results';
+
+/**
+ * Knockout brackets
+ *
+ * The draw is padded to the next power of two and placed so the top seeds
+ * meet as late as possible (seeds 1 and 2 only in the final). The padding
+ * spots are byes and always go to the top seeds. Only the seed order is
+ * stored with the tournament; ties, winners and later rounds are derived
+ * from the matches logged with a bracket slot, so a result recorded from
+ * anywhere (including the offline outbox) advances the winner.
+ */
+
+export type TieStatus =
+  // An entrant is still to be decided by an earlier round
+  | 'waiting'
+  | 'in_progress'
+  // Level after the regular legs; a replay or decider must be logged
+  | 'decider'
+  | 'decided'
+  | 'bye';
+
+export type TieDecision =
+  | 'bye'
+  | 'score'
+  | 'aggregate'
+  | 'away_goals'
+  | 'decider';
+
+export interface BracketTie<T extends ResolvedMatch = ResolvedMatch> {
+  slot: string;
+  round: number;
+  index: number;
+  // The upper entrant hosts the first leg. null is a bye, undefined is not
+  // known yet.
+  home?: string | null;
+  away?: string | null;
+  // Regular legs (the final is always a single match)
+  legs: number;
+  // Matches counted for the tie, oldest first; deciders follow the legs
+  matches: T[];
+  home_aggregate: number;
+  away_aggregate: number;
+  status: TieStatus;
+  winner?: string;
+  decided_by?: TieDecision;
+}
+
+export interface Bracket<T extends ResolvedMatch = ResolvedMatch> {
+  rounds: BracketTie<T>[][];
+  champion?: string;
+}
+
+export interface NextTieMatch {
+  // Player 1 when the match is logged
+  host_id: string;
+  visitor_id: string;
+  label: string;
+}
+
+export const bracketSlot = (round: number, index: number) =>
+  `R${round}-M${index + 1}`;
+
+// Fisher-Yates shuffle into a new array
+export function shuffle<T>(items: T[]): T[] {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+export function seedPlayers(
+  player_ids: string[],
+  seeding: KnockoutSeeding,
+  ratings: Record<string, number | undefined> = {}
+): string[] {
+  const players = Array.from(new Set(player_ids));
+
+  if (seeding === 'elo') {
+    // Unrated players go last; equal ratings keep the given order
+    const rating = (id: string) => ratings[id] ?? Number.NEGATIVE_INFINITY;
+    return players
+      .map((id, order) => ({ id, order }))
+      .sort((a, b) =>
+        rating(a.id) === rating(b.id)
+          ? a.order - b.order
+          : rating(b.id) - rating(a.id)
+      )
+      .map(({ id }) => id);
+  }
+
+  return shuffle(players);
+}
+
+// Seed numbers (1-based) in bracket order, e.g. 8 -> [1, 8, 4, 5, 2, 7, 3, 6]
+const bracketOrder = (size: number): number[] => {
+  let order = [1];
+  while (order.length < size) {
+    const pairSum = order.length * 2 + 1;
+    order = order.flatMap(seed => [seed, pairSum - seed]);
+  }
+  return order;
+};
+
+export function roundName(round: number, roundCount: number): string {
+  const remaining = roundCount - round;
+  if (remaining === 0) return 'Final';
+  if (remaining === 1) return 'Semi-finals';
+  if (remaining === 2) return 'Quarter-finals';
+  return `Round of ${2 ** (remaining + 1)}`;
+}
+
+const goalsFor = (match: ResolvedMatch, player_id: string) =>
+  match.player1_id === player_id
+    ? match.match.player1_goals
+    : match.match.player2_goals;
+
+const goalsAgainst = (match: ResolvedMatch, player_id: string) =>
+  match.player1_id === player_id
+    ? match.match.player2_goals
+    : match.match.player1_goals;
+
+const resolveTie = <T extends ResolvedMatch>(
+  tie: BracketTie<T>,
+  slotMatches: T[],
+  away_goals: boolean
+): BracketTie<T> => {
+  const { home, away } = tie;
+
+  if (home === null || away === null) {
+    return {
+      ...tie,
+      status: 'bye',
+      winner: home ?? away ?? undefined,
+      decided_by: 'bye',
+    };
+  }
+  if (home === undefined || away === undefined) {
+    return { ...tie, status: 'waiting' };
+  }
+
+  // Ignore anything logged for the slot by other players
+  const played = slotMatches
+    .filter(
+      match =>
+        (match.player1_id === home && match.player2_id === away) ||
+        (match.player1_id === away && match.player2_id === home)
+    )
+    .sort((a, b) => a.match.date.localeCompare(b.match.date));
+  const regular = played.slice(0, tie.legs);
+  const home_aggregate = regular.reduce(
+    (sum, match) => sum + goalsFor(match, home),
+    0
+  );
+  const away_aggregate = regular.reduce(
+    (sum, match) => sum + goalsAgainst(match, home),
+    0
+  );
+  const resolved = { ...tie, matches: played, home_aggregate, away_aggregate };
+
+  if (regular.length < tie.legs) {
+    return { ...resolved, status: 'in_progress' };
+  }
+  if (home_aggregate !== away_aggregate) {
+    return {
+      ...resolved,
+      status: 'decided',
+      winner: home_aggregate > away_aggregate ? home : away,
+      decided_by: tie.legs === 1 ? 'score' : 'aggregate',
+    };
+  }
+
+  if (away_goals && tie.legs > 1) {
+    // Goals scored as player 2, i.e. away from home
+    const awayGoalsFor = (player_id: string) =>
+      regular
+        .filter(match => match.player2_id === player_id)
+        .reduce((sum, match) => sum + match.match.player2_goals, 0);
+    const homeAway = awayGoalsFor(home);
+    const awayAway = awayGoalsFor(away);
+    if (homeAway !== awayAway) {
+      return {
+        ...resolved,
+        status: 'decided',
+        winner: homeAway > awayAway ? home : away,
+        decided_by: 'away_goals',
+      };
+    }
+  }
+
+  const decider = played
+    .slice(tie.legs)
+    .find(match => match.match.player1_goals !== match.match.player2_goals);
+  if (decider) {
+    return {
+      ...resolved,
+      status: 'decided',
+      winner:
+        goalsFor(decider, home) > goalsAgainst(decider, home) ? home : away,
+      decided_by: 'decider',
+    };
+  }
+  return { ...resolved, status: 'decider' };
+};
+
+/**
+ * Build the bracket from the seed order and the tournament's matches. A seed
+ * may be undefined when it is not known yet (e.g. a group still being
+ * played); it still takes its place in the draw.
+ */
+export function buildBracket<T extends ResolvedMatch>(
+  seeds: (string | undefined)[],
+  settings: Pick<KnockoutSettings, 'two_legged' | 'away_goals'>,
+  matches: T[]
+): Bracket<T> {
+  if (seeds.length < 2) {
+    return { rounds: [] };
+  }
+
+  const size = 2 ** Math.ceil(Math.log2(seeds.length));
+  return buildBracketFromEntrants(
+    bracketOrder(size).map(seed =>
+      seed <= seeds.length ? seeds[seed - 1] : null
+    ),
+    settings,
+    matches
+  );
+}
+
+/**
+ * Build the bracket from the first-round entrants in bracket order, for
+ * draws that are not made by seed. Neighbouring entrants meet in the first
+ * round; null is a bye and undefined an entrant that is not known yet. The
+ * length must be a power of two.
+ */
+export function buildBracketFromEntrants<T extends ResolvedMatch>(
+  entrants: (string | null | undefined)[],
+  settings: Pick<KnockoutSettings, 'two_legged' | 'away_goals'>,
+  matches: T[]
+): Bracket<T> {
+  if (entrants.length < 2) {
+    return { rounds: [] };
+  }
+
+  const roundCount = Math.ceil(Math.log2(entrants.length));
+  const size = 2 ** roundCount;
+
+  const matchesBySlot = new Map<string, T[]>();
+  matches.forEach(match => {
+    const slot = match.match.bracket_slot;
+    if (slot) {
+      matchesBySlot.set(slot, [...(matchesBySlot.get(slot) || []), match]);
+    }
+  });
+
+  const rounds: BracketTie<T>[][] = [];
+  for (let round = 1; round <= roundCount; round++) {
+    const previous = rounds[round - 2];
+    const tieCount = size / 2 ** round;
+    const ties: BracketTie<T>[] = [];
+
+    for (let index = 0; index < tieCount; index++) {
+      const slot = bracketSlot(round, index);
+      const [home, away] = previous
+        ? [previous[index * 2].winner, previous[index * 2 + 1].winner]
+        : [entrants[index * 2], entrants[index * 2 + 1]];
+
+      ties.push(
+        resolveTie(
+          {
+            slot,
+            round,
+            index,
+            home,
+            away,
+            legs: settings.two_legged && round < roundCount ? 2 : 1,
+            matches: [],
+            home_aggregate: 0,
+            away_aggregate: 0,
+            status: 'waiting',
+          },
+          matchesBySlot.get(slot) || [],
+          settings.away_goals
+        )
+      );
+    }
+    rounds.push(ties);
+  }
+
+  return { rounds, champion: rounds[roundCount - 1][0].winner };
+}
+
+// The match to log next for a tie, or null when there is nothing to play
+export function getNextTieMatch(tie: BracketTie): NextTieMatch | null {
+  const { home, away } = tie;
+  if (!home || !away || tie.status === 'decided' || tie.status === 'bye') {
+    return null;
+  }
+
+  if (tie.status === 'decider') {
+    return {
+      host_id: home,
+      visitor_id: away,
+      label: tie.legs === 1 ? 'Replay' : 'Decider',
+    };
+  }
+
+  // Players swap hosts between legs
+  const leg = tie.matches.length;
+  return {
+    host_id: leg % 2 === 0 ? home : away,
+    visitor_id: leg % 2 === 0 ? away : home,
+    label: tie.legs === 1 ? 'Match' : `Leg ${leg + 1}`,
+  };
+}
@@ -0,0 +1,203 @@
+import { CancelledError } from './errors';
+import { RequestOptions } from './shared';
+
+/**
+ * Keyed query cache
+ *
+ * Read calls are cached under string keys such as `tournament/:id/standings`
+ * or `user/:id/stats`. Reads are stale-while-revalidate: cached data is shown
+ * right away and refreshed in the background once it is older than its stale
+ * time. Identical requests in flight at the same time share one network call.
+ *
+ * Mutations invalidate by key prefix, e.g. `invalidateQueries('tournament/42')`
+ * marks the players, standings and every matches page of tournament 42 stale
+ * and refetches the ones currently on screen.
+ */
+
+// How long cached data counts as fresh before a read triggers a refetch
+export const DEFAULT_STALE_TIME = 30 * 1000;
+
+export const queryKeys = {
+  tournament: (tournament_id: string) => `tournament/${tournament_id}`,
+  tournamentPlayers: (tournament_id: string) =>
+    `tournament/${tournament_id}/players`,
+  tournamentPlayerStats: (tournament_id: string) =>
+    `tournament/${tournament_id}/players/stats`,
+  tournamentStandings: (tournament_id: string) =>
+    `tournament/${tournament_id}/standings`,
+  tournamentMatches: (tournament_id: string, page: number, page_size: number) =>
+    `tournament/${tournament_id}/matches/${page}/${page_size}`,
+  tournamentAllMatches: (tournament_id: string) =>
+    `tournament/${tournament_id}/matches/all`,
+  matchHistory: () => 'matches',
+  players: () => 'players',
+  user: (user_id: string) => `user/${user_id}`,
+  userStats: (user_id: string) => `user/${user_id}/stats`,
+  // Stats of several players at once. Not under `user/:id`, so invalidate
+  // allUsersStats() along with the players' own keys.
+  allUsersStats: () => 'users',
+  usersStats: (user_ids: string[]) =>
+    `users/${[...user_ids].sort().join(',')}/stats`,
+  headToHead: (user_id: string, opponent_id: string) =>
+    `user/${user_id}/head-to-head/${opponent_id}`,
+};
+
+export type QueryFetcher<T> = (options: RequestOptions) => Promise<T>;
+
+interface InFlightRequest<T> {
+  promise: Promise<T>;
+  controller: AbortController;
+  // Callers still waiting for the result; the request is aborted once the
+  // last of them cancels
+  waiters: number;
+}
+
+interface CacheEntry<T = unknown> {
+  data?: T;
+  // 0 when never fetched or invalidated
+  updatedAt: number;
+  inFlight?: InFlightRequest<T>;
+}
+
+const entries = new Map<string, CacheEntry>();
+const listeners = new Map<string, Set<() => void>>();
+
+const getEntry = <T>(key: string): CacheEntry<T> => {
+  let entry = entries.get(key);
+  if (!entry) {
+    entry = { updatedAt: 0 };
+    entries.set(key, entry);
+  }
+  return entry as CacheEntry<T>;
+};
+
+const notify = (key: string) => {
+  listeners.get(key)?.forEach(listener => listener());
+};
+
+// Listen for new data or invalidation of a key. Returns an unsubscribe.
+export const subscribeToQuery = (key: string, listener: () => void) => {
+  let keyListeners = listeners.get(key);
+  if (!keyListeners) {
+    keyListeners = new Set();
+    listeners.set(key, keyListeners);
+  }
+  keyListeners.add(listener);
+
+  return () => {
+    keyListeners.delete(listener);
+    if (keyListeners.size === 0) {
+      listeners.delete(key);
+    }
+  };
+};
+
+export const getQueryData = <T>(key: string): T | undefined =>
+  entries.get(key)?.data as T | undefined;
+
+export const setQueryData = <T>(key: string, data: T) => {
+  const entry = getEntry<T>(key);
+  entry.data = data;
+  entry.updatedAt = Date.now();
+  notify(key);
+};
+
+export const isQueryStale = (
+  key: string,
+  staleTime: number = DEFAULT_STALE_TIME
+): boolean => {
+  const entry = entries.get(key);
+  return !entry || Date.now() - entry.updatedAt >= staleTime;
+};
+
+const releaseWaiter = <T>(inFlight: InFlightRequest<T>) => {
+  inFlight.waiters -= 1;
+  if (inFlight.waiters === 0) {
+    inFlight.controller.abort();
+  }
+};
+
+// Wait for a shared request; aborting `signal` only detaches this caller
+const waitFor = <T>(
+  inFlight: InFlightRequest<T>,
+  signal?: AbortSignal
+): Promise<T> => {
+  if (!signal) {
+    inFlight.waiters += 1;
+    return inFlight.promise;
+  }
+
+  const cancelled = () =>
+    new CancelledError('The request was cancelled.', { code: 'ERR_CANCELED' });
+
+  if (signal.aborted) {
+    return Promise.reject(cancelled());
+  }
+
+  inFlight.waiters += 1;
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => {
+      releaseWaiter(inFlight);
+      reject(cancelled());
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+    inFlight.promise
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener('abort', onAbort));
+  });
+};
+
+/**
+ * Fetch a key and store the result. Joins an identical request that is
+ * already in flight instead of starting a new one.
+ */
+export const fetchQuery = <T>(
+  key: string,
+  fetcher: QueryFetcher<T>,
+  options: RequestOptions = {}
+): Promise<T> => {
+  const entry = getEntry<T>(key);
+
+  if (!entry.inFlight) {
+    const controller = new AbortController();
+    const inFlight: InFlightRequest<T> = {
+      controller,
+      waiters: 0,
+      promise: fetcher({ signal: controller.signal, timeout: options.timeout })
+        .then(data => {
+          // Ignore results that were invalidated while in flight
+          if (entry.inFlight === inFlight) {
+            setQueryData(key, data);
+          }
+          return data;
+        })
+        .finally(() => {
+          if (entry.inFlight === inFlight) {
+            entry.inFlight = undefined;
+          }
+        }),
+    };
+    entry.inFlight = inFlight;
+  }
+
+  return waitFor(entry.inFlight, options.signal);
+};
+
+const matchesPrefix = (key: string, prefix: string) =>
+  key === prefix ||
+  key.startsWith(prefix.endsWith('/') ? prefix : `${prefix}/`);
+
+/**
+ * Mark every key equal to or under `prefix` as stale. Mounted queries for
+ * those keys refetch immediately; the rest refetch on their next read.
+ */
+export const invalidateQueries = (...prefixes: string[]) => {
+  entries.forEach((entry, key) => {
+    if (!prefixes.some(prefix => matchesPrefix(key, prefix))) {
+      return;
+    }
+    entry.updatedAt = 0;
+    entry.inFlight = undefined;
+    notify(key);
+  });
+};
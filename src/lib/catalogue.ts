@@ -0,0 +1,86 @@
+import { DEFAULT_EDITION, TEAM_CATALOGUE } from '@/constants/teams';
+import { CustomTeam, GameEdition, TeamInfo, Tournament } from '@/types';
+
+/**
+ * Team lookups
+ *
+ * Matches only store team names. A name is looked up in the tournament's
+ * edition first and then in every other edition, so a team that has since
+ * been relegated (or a match logged before its tournament was pinned to an
+ * edition) still resolves.
+ *
+ * Custom teams belong to a user and are looked up in their custom_teams.
+ * They are offered with every edition.
+ */
+
+// League shown for custom teams in team analytics
+export const CUSTOM_TEAM_LEAGUE = 'Custom teams';
+
+const TEAM_CODE_PATTERN = /^[A-Z0-9]{2,4}$/;
+
+export const getTournamentEdition = (
+  tournament?: Pick<Tournament, 'edition'> | null
+): GameEdition => tournament?.edition ?? DEFAULT_EDITION;
+
+export const getEditionTeams = (
+  edition: GameEdition = DEFAULT_EDITION
+): TeamInfo[] => TEAM_CATALOGUE[edition];
+
+// In catalogue order, national teams last
+export const getEditionLeagues = (
+  edition: GameEdition = DEFAULT_EDITION
+): string[] =>
+  Array.from(new Set(TEAM_CATALOGUE[edition].map(team => team.league)));
+
+export function findTeam(
+  name: string,
+  edition: GameEdition = DEFAULT_EDITION
+): TeamInfo | undefined {
+  return (
+    TEAM_CATALOGUE[edition].find(team => team.name === name) ??
+    TEAM_CATALOGUE.custom.find(team => team.name === name)
+  );
+}
+
+export const findCustomTeam = (
+  name: string,
+  customTeams: CustomTeam[] = []
+): CustomTeam | undefined => customTeams.find(team => team.name === name);
+
+// Custom teams first, so a user's own squad keeps its colours
+export const getTeamColor = (
+  name: string,
+  customTeams: CustomTeam[] = []
+): string | undefined =>
+  findCustomTeam(name, customTeams)?.color ?? findTeam(name)?.color;
+
+// Why a custom team cannot be saved, or null when it can
+export function getCustomTeamError(
+  team: CustomTeam,
+  customTeams: CustomTeam[]
+): string | null {
+  const name = team.name.trim().toLowerCase();
+  if (!name) {
+    return 'Give the team a name.';
+  }
+  if (!TEAM_CODE_PATTERN.test(team.code)) {
+    return 'The short code needs 2 to 4 capital letters or digits.';
+  }
+  if (TEAM_CATALOGUE.custom.some(other => other.name.toLowerCase() === name)) {
+    return `${team.name.trim()} is already in the team list.`;
+  }
+  if (
+    customTeams.some(
+      other => other.id !== team.id && other.name.toLowerCase() === name
+    )
+  ) {
+    return `You already have a team called ${team.name.trim()}.`;
+  }
+  if (
+    team.overall !== undefined &&
+    (!Number.isInteger(team.overall) || team.overall < 1 || team.overall > 99)
+  ) {
+    return 'The rating has to be a whole number from 1 to 99.';
+  }
+  return null;
+}
@@ -0,0 +1,174 @@
+import { UserDetailedStats } from '@/types';
+import { RatingPoint } from './elo';
+import { ResolvedMatch } from './results';
+
+/**
+ * Multi-player comparison
+ *
+ * Series for the compare dashboard's shared charts and the attributes behind
+ * its radar chart. Goals and form are rolling averages over the last few
+ * matches, computed from the match history rather than the backend totals so
+ * every player's line covers the same period.
+ */
+
+export interface SeriesPoint {
+  date: string;
+  value: number;
+}
+
+export interface PlayerAttributes {
+  // Goals scored per match
+  attack: number;
+  // Goals conceded per match; lower is better
+  defence: number;
+  // Standard deviation of the goal difference; lower is better
+  consistency: number;
+  // Points per match in games decided by one goal or drawn, as a share of 3
+  clutch: number;
+}
+
+export type AttributeName = keyof PlayerAttributes;
+
+export const ATTRIBUTE_NAMES: AttributeName[] = [
+  'attack',
+  'defence',
+  'consistency',
+  'clutch',
+];
+
+export const ROLLING_WINDOW = 5;
+
+// A player's completed matches from their point of view, oldest first
+const getPlayerResults = (matches: ResolvedMatch[], player_id: string) =>
+  matches
+    .filter(
+      match => match.player1_id === player_id || match.player2_id === player_id
+    )
+    .sort((a, b) => a.match.date.localeCompare(b.match.date))
+    .map(({ player1_id, match }) => {
+      const isPlayer1 = player1_id === player_id;
+      return {
+        date: match.date,
+        scored: isPlayer1 ? match.player1_goals : match.player2_goals,
+        conceded: isPlayer1 ? match.player2_goals : match.player1_goals,
+      };
+    });
+
+const pointsFor = (scored: number, conceded: number) =>
+  scored > conceded ? 3 : scored === conceded ? 1 : 0;
+
+const rolling = (
+  results: { date: string; value: number }[],
+  window: number
+): SeriesPoint[] =>
+  results.map((result, index) => {
+    const recent = results.slice(Math.max(0, index - window + 1), index + 1);
+    return {
+      date: result.date,
+      value: recent.reduce((sum, { value }) => sum + value, 0) / recent.length,
+    };
+  });
+
+// Goals scored per match over the last `window` matches, after each match
+export function getGoalsSeries(
+  matches: ResolvedMatch[],
+  player_id: string,
+  window = ROLLING_WINDOW
+): SeriesPoint[] {
+  return rolling(
+    getPlayerResults(matches, player_id).map(({ date, scored }) => ({
+      date,
+      value: scored,
+    })),
+    window
+  );
+}
+
+// Points per match (3 / 1 / 0) over the last `window` matches
+export function getFormSeries(
+  matches: ResolvedMatch[],
+  player_id: string,
+  window = ROLLING_WINDOW
+): SeriesPoint[] {
+  return rolling(
+    getPlayerResults(matches, player_id).map(({ date, scored, conceded }) => ({
+      date,
+      value: pointsFor(scored, conceded),
+    })),
+    window
+  );
+}
+
+export const getWinRateSeries = (stats: UserDetailedStats): SeriesPoint[] =>
+  (stats.winrate_over_time ?? []).map(({ date, winrate }) => ({
+    date,
+    value: winrate,
+  }));
+
+export const getEloSeries = (timeline: RatingPoint[]): SeriesPoint[] =>
+  timeline.map(({ date, rating }) => ({ date, value: rating }));
+
+export function getPlayerAttributes(
+  stats: UserDetailedStats,
+  matches: ResolvedMatch[]
+): PlayerAttributes {
+  const results = getPlayerResults(matches, stats.id);
+  const differences = results.map(({ scored, conceded }) => scored - conceded);
+  const mean =
+    differences.reduce((sum, difference) => sum + difference, 0) /
+    Math.max(differences.length, 1);
+  const variance =
+    differences.reduce((sum, difference) => sum + (difference - mean) ** 2, 0) /
+    Math.max(differences.length, 1);
+  const close = results.filter(
+    ({ scored, conceded }) => Math.abs(scored - conceded) <= 1
+  );
+
+  return {
+    attack: stats.average_goals_scored,
+    defence: stats.average_goals_conceded,
+    consistency: Math.sqrt(variance),
+    clutch:
+      close.length > 0
+        ? close.reduce(
+            (sum, { scored, conceded }) => sum + pointsFor(scored, conceded),
+            0
+          ) /
+          (3 * close.length)
+        : 0,
+  };
+}
+
+/**
+ * Scale each attribute to 0-1 against the best player in the group, so the
+ * radar compares the chosen players with each other. Attributes where lower
+ * is better are inverted; a perfect record (nothing conceded, no variance)
+ * counts as the best, so leave out players without matches.
+ */
+export function normalizeAttributes(
+  attributes: PlayerAttributes[]
+): PlayerAttributes[] {
+  const higherIsBetter = (values: number[]) => {
+    const best = Math.max(...values);
+    return values.map(value => (best > 0 ? value / best : 0));
+  };
+  const lowerIsBetter = (values: number[]) => {
+    const best = Math.min(...values);
+    return values.map(value => (value > 0 ? best / value : 1));
+  };
+
+  const scaled = {
+    attack: higherIsBetter(attributes.map(({ attack }) => attack)),
+    defence: lowerIsBetter(attributes.map(({ defence }) => defence)),
+    consistency: lowerIsBetter(
+      attributes.map(({ consistency }) => consistency)
+    ),
+    clutch: attributes.map(({ clutch }) => clutch),
+  };
+  return attributes.map((_, index) => ({
+    attack: scaled.attack[index],
+    defence: scaled.defence[index],
+    consistency: scaled.consistency[index],
+    clutch: scaled.clutch[index],
+  }));
+}
@@ -0,0 +1,51 @@
+/**
+ * Offline data status
+ *
+ * When the API is unreachable the service worker (public/sw.js) answers reads
+ * from its cache and marks those responses with an `X-SW-Cached-At` header.
+ * The shared API client reports every response here so the UI can show that
+ * it is displaying cached data and when that data was last updated.
+ */
+
+const DATA_CACHE_PREFIX = 'fifa-tracker-data-';
+
+// ISO time the oldest cached response currently in use was fetched, or null
+// while responses come from the network
+let cachedAt: string | null = null;
+
+const listeners = new Set<() => void>();
+
+export const subscribeToConnectivity = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getCachedAt = (): string | null => cachedAt;
+
+export const reportResponseSource = (responseCachedAt: string | null) => {
+  let next: string | null = null;
+  if (responseCachedAt) {
+    next =
+      cachedAt && cachedAt < responseCachedAt ? cachedAt : responseCachedAt;
+  }
+  if (next !== cachedAt) {
+    cachedAt = next;
+    listeners.forEach(listener => listener());
+  }
+};
+
+// Drop the service worker's copies of API responses, e.g. on sign out so the
+// next user of the device cannot read them offline
+export async function clearOfflineData(): Promise<void> {
+  if (typeof caches === 'undefined') {
+    return;
+  }
+  const keys = await caches.keys();
+  await Promise.all(
+    keys
+      .filter(key => key.startsWith(DATA_CACHE_PREFIX))
+      .map(key => caches.delete(key))
+  );
+}
@@ -0,0 +1,65 @@
+import { TeamDraft } from '@/types';
+import { seedPlayers } from './bracket';
+
+/**
+ * Team drafts
+ *
+ * A drafted tournament fixes everyone's teams before it starts. Players pick
+ * in a snake: the first round runs from the lowest to the highest Elo seed,
+ * the next one back again, so the strongest player picks last and then
+ * first. A team can only be drafted once. Each player ends up with `rounds`
+ * teams and plays every match in the tournament with one of them.
+ */
+
+export const DRAFT_ROUND_OPTIONS = [1, 2, 3];
+
+export interface DraftSlot {
+  // Both 1-based
+  round: number;
+  pick: number;
+  player_id: string;
+  // Undefined until the pick is made
+  team?: string;
+}
+
+export function createDraft(
+  player_ids: string[],
+  ratings: Record<string, number | undefined>,
+  rounds: number
+): TeamDraft {
+  return {
+    order: seedPlayers(player_ids, 'elo', ratings).reverse(),
+    rounds,
+    picks: [],
+  };
+}
+
+// Every slot of the draft, in pick order
+export function getDraftSlots(draft: TeamDraft): DraftSlot[] {
+  return Array.from({ length: draft.rounds }, (_, round) =>
+    round % 2 === 0 ? draft.order : [...draft.order].reverse()
+  )
+    .flat()
+    .map((player_id, index) => ({
+      round: Math.floor(index / draft.order.length) + 1,
+      pick: index + 1,
+      player_id,
+      team: draft.picks[index]?.team,
+    }));
+}
+
+// Null once the draft is complete
+export const getNextDraftSlot = (draft: TeamDraft): DraftSlot | null =>
+  getDraftSlots(draft)[draft.picks.length] ?? null;
+
+export const isDraftComplete = (draft: TeamDraft) =>
+  getNextDraftSlot(draft) === null;
+
+export const getDraftedTeams = (draft: TeamDraft, player_id: string) =>
+  draft.picks
+    .filter(pick => pick.player_id === player_id)
+    .map(pick => pick.team);
+
+// Players added to the tournament after the draft pick freely
+export const isDrafted = (draft: TeamDraft, player_id: string) =>
+  draft.order.includes(player_id);
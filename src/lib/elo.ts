@@ -0,0 +1,159 @@
+import { ResolvedMatch } from './results';
+
+/**
+ * Elo ratings
+ *
+ * The backend only returns a player's current elo_rating. Replaying every
+ * completed match in date order, with every player starting from the same
+ * rating, gives the rating after each match and so its history. The replay
+ * will not always end on the backend's number (matches it cannot see, a
+ * different formula), which is why the profile still shows the backend's
+ * rating as the current one.
+ *
+ * With the goal difference multiplier on, a win by two counts one and a half
+ * times, and a win by three or more (11 + margin) / 8 times, as in the World
+ * Football Elo ratings. Home advantage is off by default: both players sit
+ * on the same sofa.
+ */
+
+// What the profile pages show for players without a rating
+export const DEFAULT_ELO = 1200;
+
+export interface EloSettings {
+  k_factor: number;
+  goal_difference_multiplier: boolean;
+  // Rating points added to player 1's rating when computing the expectation
+  home_advantage: number;
+}
+
+export const DEFAULT_ELO_SETTINGS: EloSettings = {
+  k_factor: 32,
+  goal_difference_multiplier: true,
+  home_advantage: 0,
+};
+
+export const K_FACTOR_OPTIONS = [16, 24, 32, 40, 48];
+
+export interface EloMatchChange {
+  match_id: string;
+  date: string;
+  player1_id: string;
+  player2_id: string;
+  player1_before: number;
+  player2_before: number;
+  // player2's change is the opposite
+  delta: number;
+}
+
+export interface EloReplay {
+  // Rating after the last match
+  ratings: Record<string, number>;
+  // Oldest first
+  changes: EloMatchChange[];
+}
+
+export interface RatingPoint {
+  match_id: string;
+  date: string;
+  opponent_id: string;
+  rating: number;
+  delta: number;
+}
+
+const settingsStorageKey = 'fifa-tracker-elo-settings';
+
+export function readEloSettings(): EloSettings {
+  if (typeof window === 'undefined') return DEFAULT_ELO_SETTINGS;
+  try {
+    const stored = JSON.parse(
+      localStorage.getItem(settingsStorageKey) || '{}'
+    ) as Partial<EloSettings>;
+    return { ...DEFAULT_ELO_SETTINGS, ...stored };
+  } catch {
+    return DEFAULT_ELO_SETTINGS;
+  }
+}
+
+export function storeEloSettings(settings: EloSettings) {
+  localStorage.setItem(settingsStorageKey, JSON.stringify(settings));
+}
+
+// Chance that a player rated `rating` beats one rated `opponentRating`
+export const expectedScore = (rating: number, opponentRating: number) =>
+  1 / (1 + Math.pow(10, (opponentRating - rating) / 400));
+
+const goalDifferenceMultiplier = (margin: number) =>
+  margin <= 1 ? 1 : margin === 2 ? 1.5 : (11 + margin) / 8;
+
+export function replayElo(
+  matches: ResolvedMatch[],
+  settings: EloSettings = DEFAULT_ELO_SETTINGS
+): EloReplay {
+  const ratings: Record<string, number> = {};
+  const changes = [...matches]
+    .sort((a, b) => a.match.date.localeCompare(b.match.date))
+    .map(({ player1_id, player2_id, match }) => {
+      const player1_before = ratings[player1_id] ?? DEFAULT_ELO;
+      const player2_before = ratings[player2_id] ?? DEFAULT_ELO;
+      const expected = expectedScore(
+        player1_before + settings.home_advantage,
+        player2_before
+      );
+      const margin = match.player1_goals - match.player2_goals;
+      const actual = margin > 0 ? 1 : margin === 0 ? 0.5 : 0;
+      const multiplier = settings.goal_difference_multiplier
+        ? goalDifferenceMultiplier(Math.abs(margin))
+        : 1;
+      const delta = Math.round(
+        settings.k_factor * multiplier * (actual - expected)
+      );
+
+      ratings[player1_id] = player1_before + delta;
+      ratings[player2_id] = player2_before - delta;
+      return {
+        match_id: match.id,
+        date: match.date,
+        player1_id,
+        player2_id,
+        player1_before,
+        player2_before,
+        delta,
+      };
+    });
+
+  return { ratings, changes };
+}
+
+export const formatRatingDelta = (delta: number) =>
+  delta > 0 ? `+${delta}` : `${delta}`;
+
+// A player's change in a replayed match, from their point of view
+export function getRatingDelta(
+  change: EloMatchChange,
+  player_id: string
+): number {
+  return change.player1_id === player_id ? change.delta : 0 - change.delta;
+}
+
+export function getRatingTimeline(
+  replay: EloReplay,
+  player_id: string
+): RatingPoint[] {
+  return replay.changes.flatMap(change => {
+    if (change.player1_id !== player_id && change.player2_id !== player_id) {
+      return [];
+    }
+    const isPlayer1 = change.player1_id === player_id;
+    const delta = getRatingDelta(change, player_id);
+    return [
+      {
+        match_id: change.match_id,
+        date: change.date,
+        opponent_id: isPlayer1 ? change.player2_id : change.player1_id,
+        rating:
+          (isPlayer1 ? change.player1_before : change.player2_before) + delta,
+        delta,
+      },
+    ];
+  });
+}
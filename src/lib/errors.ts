@@ -0,0 +1,264 @@
+import axios from 'axios';
+
+/**
+ * Typed API errors
+ *
+ * Every function in src/lib rejects with one of these classes instead of
+ * returning null/[] on failure. The response interceptor installed by
+ * the shared API client converts axios errors into the matching class,
+ * so components can branch with `instanceof` and show `error.message`.
+ */
+
+// FastAPI validation errors come back as `detail: [{ loc, msg, type }]`
+interface FastApiValidationItem {
+  loc?: (string | number)[];
+  msg?: string;
+  type?: string;
+}
+
+export type FieldErrors = Record<string, string>;
+
+export interface ApiErrorInit {
+  status?: number;
+  code?: string;
+  detail?: unknown;
+  cause?: unknown;
+}
+
+export class ApiError extends Error {
+  readonly status?: number;
+  readonly code?: string;
+  readonly detail?: unknown;
+  readonly cause?: unknown;
+
+  constructor(message: string, init: ApiErrorInit = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.status = init.status;
+    this.code = init.code;
+    this.detail = init.detail;
+    this.cause = init.cause;
+  }
+}
+
+// The request never got a response (server down, CORS, mixed content, offline)
+export class NetworkError extends ApiError {}
+
+// The request exceeded its timeout (see RequestOptions.timeout)
+export class TimeoutError extends NetworkError {}
+
+// The caller aborted the request through its AbortSignal. Usually not worth
+// showing to the user: the result is simply no longer wanted.
+export class CancelledError extends ApiError {}
+
+// 401 - missing, expired or rejected credentials
+export class AuthError extends ApiError {}
+
+// 400 / 422 - the request was understood but the payload was rejected
+export class ValidationError extends ApiError {
+  readonly fieldErrors: FieldErrors;
+
+  constructor(message: string, init: ApiErrorInit = {}) {
+    super(message, init);
+    this.fieldErrors = parseFieldErrors(init.detail);
+  }
+}
+
+// 403 - authenticated but not allowed (e.g. not the tournament owner)
+export class ForbiddenError extends ApiError {}
+
+// 404
+export class NotFoundError extends ApiError {}
+
+// 409 - duplicate friend request, already-completed tournament, ...
+export class ConflictError extends ApiError {}
+
+const DEFAULT_MESSAGES = {
+  network:
+    'Unable to reach the server. Please check your connection and try again.',
+  timeout: 'The server took too long to respond. Please try again.',
+  cancelled: 'The request was cancelled.',
+  auth: 'Authentication required. Please log in again.',
+  validation: 'Please check your input and try again.',
+  forbidden: 'You do not have permission to perform this action.',
+  notFound: 'The requested resource was not found.',
+  conflict: 'This action conflicts with the current state. Please refresh.',
+  unknown: 'Something went wrong. Please try again.',
+};
+
+function parseFieldErrors(detail: unknown): FieldErrors {
+  const fieldErrors: FieldErrors = {};
+  if (!Array.isArray(detail)) {
+    return fieldErrors;
+  }
+
+  (detail as FastApiValidationItem[]).forEach(item => {
+    // loc looks like ['body', 'player1_goals'] - drop the location prefix
+    const path = (item.loc || []).filter(
+      part => part !== 'body' && part !== 'query' && part !== 'path'
+    );
+    const field = path.length > 0 ? path.join('.') : '_';
+    if (item.msg && !fieldErrors[field]) {
+      fieldErrors[field] = item.msg;
+    }
+  });
+
+  return fieldErrors;
+}
+
+// Extract a human readable message from a FastAPI `detail` payload
+function messageFromDetail(detail: unknown): string | undefined {
+  if (typeof detail === 'string' && detail.trim() !== '') {
+    return detail;
+  }
+  if (Array.isArray(detail) && detail.length > 0) {
+    const first = detail[0] as FastApiValidationItem;
+    if (first?.msg) {
+      const field = (first.loc || []).slice(-1)[0];
+      return field !== undefined ? `${field}: ${first.msg}` : first.msg;
+    }
+  }
+  return undefined;
+}
+
+function errorClassForStatus(status: number | undefined): typeof ApiError {
+  switch (status) {
+    case 400:
+    case 422:
+      return ValidationError;
+    case 401:
+      return AuthError;
+    case 403:
+      return ForbiddenError;
+    case 404:
+      return NotFoundError;
+    case 409:
+      return ConflictError;
+    default:
+      return ApiError;
+  }
+}
+
+function defaultMessageFor(ErrorClass: typeof ApiError): string {
+  switch (ErrorClass) {
+    case NetworkError:
+      return DEFAULT_MESSAGES.network;
+    case AuthError:
+      return DEFAULT_MESSAGES.auth;
+    case ValidationError:
+      return DEFAULT_MESSAGES.validation;
+    case ForbiddenError:
+      return DEFAULT_MESSAGES.forbidden;
+    case NotFoundError:
+      return DEFAULT_MESSAGES.notFound;
+    case ConflictError:
+      return DEFAULT_MESSAGES.conflict;
+    default:
+      return DEFAULT_MESSAGES.unknown;
+  }
+}
+
+/**
+ * Normalize anything thrown by axios (or already normalized) into an ApiError.
+ *
+ * `messages` lets a caller replace the message for specific status codes,
+ * e.g. `{ 404: 'Tournament not found.' }`. The error class is kept.
+ */
+export function toApiError(
+  error: unknown,
+  messages: Partial<Record<number, string>> = {}
+): ApiError {
+  if (error instanceof ApiError) {
+    const override =
+      error.status !== undefined ? messages[error.status] : undefined;
+    if (!override) {
+      return error;
+    }
+    const ErrorClass = error.constructor as typeof ApiError;
+    return new ErrorClass(override, {
+      status: error.status,
+      code: error.code,
+      detail: error.detail,
+      cause: error.cause,
+    });
+  }
+
+  if (axios.isCancel(error)) {
+    return new CancelledError(DEFAULT_MESSAGES.cancelled, {
+      code: 'ERR_CANCELED',
+      cause: error,
+    });
+  }
+
+  if (axios.isAxiosError(error)) {
+    if (
+      !error.response &&
+      (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT')
+    ) {
+      return new TimeoutError(DEFAULT_MESSAGES.timeout, {
+        code: error.code,
+        cause: error,
+      });
+    }
+
+    if (!error.response) {
+      return new NetworkError(DEFAULT_MESSAGES.network, {
+        code: error.code,
+        cause: error,
+      });
+    }
+
+    const status = error.response.status;
+    const detail = (error.response.data as Record<string, unknown> | undefined)
+      ?.detail;
+    const ErrorClass = errorClassForStatus(status);
+    const message =
+      messages[status] ||
+      messageFromDetail(detail) ||
+      defaultMessageFor(ErrorClass);
+
+    return new ErrorClass(message, {
+      status,
+      code: error.code,
+      detail,
+      cause: error,
+    });
+  }
+
+  if (error instanceof Error) {
+    return new ApiError(error.message || DEFAULT_MESSAGES.unknown, {
+      cause: error,
+    });
+  }
+
+  return new ApiError(DEFAULT_MESSAGES.unknown, { cause: error });
+}
+
+// User-facing message for a caught error, with a fallback for non-API errors
+export function getErrorMessage(error: unknown, fallback: string): string {
+  if (error instanceof ApiError) {
+    return error.message;
+  }
+  return fallback;
+}
+
+export function isCancelledError(error: unknown): boolean {
+  return error instanceof CancelledError;
+}
+
+// Either the data of a successful call or the ApiError it failed with
+export type ApiResult<T> =
+  | { ok: true; data: T }
+  | { ok: false; error: ApiError };
+
+/**
+ * Await an API call without try/catch: resolves to an ApiResult instead of
+ * rejecting. Useful in effects that fire several independent requests.
+ */
+export async function settle<T>(promise: Promise<T>): Promise<ApiResult<T>> {
+  try {
+    return { ok: true, data: await promise };
+  } catch (error) {
+    return { ok: false, error: toApiError(error) };
+  }
+}
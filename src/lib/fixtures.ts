@@ -0,0 +1,135 @@
+import { Fixture, RoundRobinFormat, Tournament } from '@/types';
+
+/**
+ * Round-robin fixture generation (circle method)
+ *
+ * One slot stays fixed while the others rotate one position per matchday,
+ * so every player meets every other player exactly once per round. With an
+ * odd number of players the fixed slot is a bye, which keeps home and away
+ * games balanced for everyone. A double round-robin repeats the schedule
+ * with home and away swapped.
+ */
+
+type Slot = string | null;
+
+// Saved on the tournament, so every device plays the same schedule
+export const getFixtureFormat = (
+  tournament?: Pick<Tournament, 'fixture_format'> | null
+): RoundRobinFormat => tournament?.fixture_format ?? 'single';
+
+const fixtureId = (matchday: number, home_id: string, away_id: string) =>
+  `${matchday}:${home_id}:${away_id}`;
+
+export function generateRoundRobin(
+  player_ids: string[],
+  format: RoundRobinFormat = 'single'
+): Fixture[] {
+  const players = Array.from(new Set(player_ids));
+  if (players.length < 2) {
+    return [];
+  }
+
+  let slots: Slot[] = players.length % 2 === 1 ? [null, ...players] : players;
+  const slotCount = slots.length;
+  const matchdays = slotCount - 1;
+  const firstLeg: Fixture[] = [];
+
+  for (let round = 0; round < matchdays; round++) {
+    for (let i = 0; i < slotCount / 2; i++) {
+      const first = slots[i];
+      const second = slots[slotCount - 1 - i];
+      if (first === null || second === null) {
+        continue; // bye
+      }
+
+      // The fixed slot alternates every matchday; the rotating pairs
+      // alternate by position, which balances home and away games
+      const firstAtHome = i === 0 ? round % 2 === 0 : i % 2 === 1;
+      const home_id = firstAtHome ? first : second;
+      const away_id = firstAtHome ? second : first;
+      firstLeg.push({
+        id: fixtureId(round + 1, home_id, away_id),
+        matchday: round + 1,
+        home_id,
+        away_id,
+      });
+    }
+
+    // Keep slot 0 fixed and rotate the rest clockwise
+    slots = [slots[0], slots[slotCount - 1], ...slots.slice(1, slotCount - 1)];
+  }
+
+  if (format === 'single') {
+    return firstLeg;
+  }
+
+  const secondLeg = firstLeg.map(fixture => {
+    const matchday = fixture.matchday + matchdays;
+    return {
+      id: fixtureId(matchday, fixture.away_id, fixture.home_id),
+      matchday,
+      home_id: fixture.away_id,
+      away_id: fixture.home_id,
+    };
+  });
+
+  return [...firstLeg, ...secondLeg];
+}
+
+export interface PlayedFixture<T> extends Fixture {
+  result?: T;
+}
+
+/**
+ * Attach logged matches to fixtures. Each match is used once. Matches logged
+ * with player 1 as the home player are assigned first; matches logged the
+ * other way round fill the remaining fixtures of the same pairing.
+ */
+export function assignResultsToFixtures<
+  T extends { player1_id: string; player2_id: string },
+>(fixtures: Fixture[], matches: T[]): PlayedFixture<T>[] {
+  const unused = [...matches];
+  const assigned: PlayedFixture<T>[] = fixtures.map(fixture => ({
+    ...fixture,
+  }));
+
+  const take = (predicate: (match: T) => boolean): T | undefined => {
+    const index = unused.findIndex(predicate);
+    return index === -1 ? undefined : unused.splice(index, 1)[0];
+  };
+
+  assigned.forEach(fixture => {
+    fixture.result = take(
+      match =>
+        match.player1_id === fixture.home_id &&
+        match.player2_id === fixture.away_id
+    );
+  });
+
+  assigned.forEach(fixture => {
+    if (!fixture.result) {
+      fixture.result = take(
+        match =>
+          match.player1_id === fixture.away_id &&
+          match.player2_id === fixture.home_id
+      );
+    }
+  });
+
+  return assigned;
+}
+
+// Group fixtures by matchday, in matchday order
+export function groupFixturesByMatchday<F extends Fixture>(
+  fixtures: F[]
+): { matchday: number; fixtures: F[] }[] {
+  const groups = new Map<number, F[]>();
+  fixtures.forEach(fixture => {
+    const group = groups.get(fixture.matchday) || [];
+    group.push(fixture);
+    groups.set(fixture.matchday, group);
+  });
+  return Array.from(groups.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([matchday, group]) => ({ matchday, fixtures: group }));
+}
@@ -0,0 +1,180 @@
+import { GroupStageSettings, TournamentRules, User } from '@/types';
+import {
+  Bracket,
+  buildBracket,
+  buildBracketFromEntrants,
+  seedPlayers,
+  shuffle,
+} from './bracket';
+import { assignResultsToFixtures, generateRoundRobin } from './fixtures';
+import { ResolvedMatch } from './results';
+import {
+  compareStandings,
+  computeStandings,
+  DEFAULT_RULES,
+  RankedStanding,
+} from './standings';
+
+/**
+ * Group stage
+ *
+ * Players are split into groups that each play a round-robin; the top K of
+ * every group then go through to a knockout bracket. The draw is stored with
+ * the tournament. Group matches are the ones logged without a bracket slot
+ * between two players of the same group; the knockout stays empty until
+ * every group has played all of its fixtures.
+ */
+
+export interface GroupTable<T extends ResolvedMatch = ResolvedMatch> {
+  // 'A', 'B', ...
+  name: string;
+  player_ids: string[];
+  standings: RankedStanding[];
+  matches: T[];
+  fixtures_played: number;
+  fixtures_total: number;
+  complete: boolean;
+}
+
+export const groupName = (index: number) => String.fromCharCode(65 + index);
+
+/**
+ * Split players into groups. 'random' deals a shuffled list; 'pots' ranks
+ * players by ELO into pots of one player per group and draws one player
+ * from every pot into each group.
+ */
+export function drawGroups(
+  player_ids: string[],
+  groupCount: number,
+  method: 'random' | 'pots',
+  ratings: Record<string, number | undefined> = {}
+): string[][] {
+  const groups: string[][] = Array.from({ length: groupCount }, () => []);
+
+  if (method === 'random') {
+    shuffle(Array.from(new Set(player_ids))).forEach((id, index) => {
+      groups[index % groupCount].push(id);
+    });
+    return groups;
+  }
+
+  const ranked = seedPlayers(player_ids, 'elo', ratings);
+  for (let start = 0; start < ranked.length; start += groupCount) {
+    // A short last pot goes to random groups rather than the first ones
+    const groupOrder = shuffle(groups.map((_, index) => index));
+    shuffle(ranked.slice(start, start + groupCount)).forEach((id, index) => {
+      groups[groupOrder[index]].push(id);
+    });
+  }
+  return groups;
+}
+
+// Adjacent groups can only be paired when the ties fill a whole bracket
+export const canPairAdjacentGroups = (
+  groupCount: number,
+  qualifiers_per_group: number
+) => {
+  const ties = (groupCount / 2) * qualifiers_per_group;
+  return groupCount % 2 === 0 && ties >= 1 && Number.isInteger(Math.log2(ties));
+};
+
+export function buildGroupTables<T extends ResolvedMatch>(
+  settings: GroupStageSettings,
+  players: User[],
+  matches: T[],
+  rules: TournamentRules = DEFAULT_RULES,
+  coinSeed = ''
+): GroupTable<T>[] {
+  const groupMatches = matches.filter(match => !match.match.bracket_slot);
+
+  return settings.groups.map((player_ids, index) => {
+    const members = new Set(player_ids);
+    const played = groupMatches.filter(
+      match => members.has(match.player1_id) && members.has(match.player2_id)
+    );
+    const fixtures = assignResultsToFixtures(
+      generateRoundRobin(player_ids, settings.group_format),
+      played
+    );
+    const fixtures_played = fixtures.filter(fixture => fixture.result).length;
+
+    return {
+      name: groupName(index),
+      player_ids,
+      standings: computeStandings(player_ids, players, played, rules, coinSeed),
+      matches: played,
+      fixtures_played,
+      fixtures_total: fixtures.length,
+      complete: fixtures_played === fixtures.length,
+    };
+  });
+}
+
+// Qualifiers by group and finishing position, e.g. { [id]: 'A1' }
+export function getQualifierLabels(
+  settings: GroupStageSettings,
+  tables: GroupTable[]
+): Record<string, string> {
+  const labels: Record<string, string> = {};
+  tables.forEach(table => {
+    if (!table.complete) return;
+    table.standings
+      .slice(0, settings.qualifiers_per_group)
+      .forEach((row, position) => {
+        labels[row.id] = `${table.name}${position + 1}`;
+      });
+  });
+  return labels;
+}
+
+export function buildGroupStageBracket<T extends ResolvedMatch>(
+  settings: GroupStageSettings,
+  tables: GroupTable[],
+  matches: T[]
+): Bracket<T> {
+  const qualifiers = settings.qualifiers_per_group;
+  // undefined until the group has finished
+  const qualifier = (group: number, position: number) =>
+    tables[group]?.complete
+      ? tables[group].standings[position - 1]?.id
+      : undefined;
+  const knockout = {
+    two_legged: settings.two_legged,
+    away_goals: settings.away_goals,
+  };
+
+  if (
+    settings.crossover === 'adjacent' &&
+    canPairAdjacentGroups(tables.length, qualifiers)
+  ) {
+    // Winners of paired groups go to opposite halves (A1 v B2 in the top
+    // half, B1 v A2 in the bottom half)
+    const entrants: (string | undefined)[] = [];
+    for (let position = 1; position <= qualifiers; position++) {
+      for (let pair = 0; pair < tables.length / 2; pair++) {
+        entrants.push(
+          qualifier(pair * 2, position),
+          qualifier(pair * 2 + 1, qualifiers + 1 - position)
+        );
+      }
+    }
+    return buildBracketFromEntrants(entrants, knockout, matches);
+  }
+
+  // Group winners are seeded first, then runners-up and so on; within a
+  // finishing position the better record is seeded higher
+  const seedCount = tables.length * qualifiers;
+  if (!tables.every(table => table.complete)) {
+    return buildBracket(Array(seedCount).fill(undefined), knockout, matches);
+  }
+  const seeds: string[] = [];
+  for (let position = 0; position < qualifiers; position++) {
+    seeds.push(
+      ...tables
+        .flatMap(table => table.standings[position] ?? [])
+        .sort(compareStandings)
+        .map(row => row.id)
+    );
+  }
+  return buildBracket(seeds, knockout, matches);
+}
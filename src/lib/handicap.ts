@@ -0,0 +1,110 @@
+import { HandicapMode, HandicapSettings, Match, TeamInfo, User } from '@/types';
+import { DEFAULT_ELO } from './elo';
+
+/**
+ * Elo handicaps
+ *
+ * A tournament can even out mismatched players. Every full elo_per_step
+ * points between the two players' ratings is one handicap step, up to
+ * max_steps. In 'team_rating' mode each step takes half a star off the most
+ * the stronger player's team may be rated, relative to the weaker player's
+ * team; in 'head_start' mode each step is a goal the weaker player starts
+ * with.
+ *
+ * Head starts are stored on the match next to the goals actually scored.
+ * Everything worked out from the match history (tables, brackets, Swiss
+ * rounds, the Elo replay, team records and head-to-heads) counts the final
+ * score, since resolveMatchPlayers adds the head start. The backend's own
+ * player totals only know the goals scored, which the profile points out.
+ */
+
+export const DEFAULT_HANDICAP: HandicapSettings = {
+  mode: 'head_start',
+  elo_per_step: 200,
+  max_steps: 3,
+};
+
+export const HANDICAP_MODE_LABELS: Record<HandicapMode, string> = {
+  team_rating: 'Weaker team for the stronger player',
+  head_start: 'Goal head start for the weaker player',
+};
+
+const STAR_STEP = 0.5;
+const MIN_STARS = 0.5;
+
+export interface Handicap {
+  mode: HandicapMode;
+  stronger_id: string;
+  weaker_id: string;
+  elo_gap: number;
+  steps: number;
+}
+
+type HeadStartFields = Pick<
+  Match,
+  | 'player1_goals'
+  | 'player2_goals'
+  | 'player1_head_start'
+  | 'player2_head_start'
+>;
+
+// Null when the tournament has no handicap or the players are close enough
+export function getHandicap(
+  settings: HandicapSettings | undefined,
+  player1: Pick<User, 'id' | 'elo_rating'>,
+  player2: Pick<User, 'id' | 'elo_rating'>
+): Handicap | null {
+  if (!settings) return null;
+  const rating1 = player1.elo_rating || DEFAULT_ELO;
+  const rating2 = player2.elo_rating || DEFAULT_ELO;
+  const elo_gap = Math.abs(rating1 - rating2);
+  const steps = Math.min(
+    settings.max_steps,
+    Math.floor(elo_gap / settings.elo_per_step)
+  );
+  if (steps === 0) return null;
+
+  const isPlayer1Stronger = rating1 > rating2;
+  return {
+    mode: settings.mode,
+    stronger_id: isPlayer1Stronger ? player1.id : player2.id,
+    weaker_id: isPlayer1Stronger ? player2.id : player1.id,
+    elo_gap,
+    steps,
+  };
+}
+
+// Goals each player starts with, in match order
+export function getHeadStarts(
+  handicap: Handicap | null,
+  player1_id: string
+): [number, number] {
+  if (!handicap || handicap.mode !== 'head_start') return [0, 0];
+  return handicap.weaker_id === player1_id
+    ? [handicap.steps, 0]
+    : [0, handicap.steps];
+}
+
+// The best star rating the stronger player's team may have; never below
+// the lowest rated teams, so there is always something to pick
+export const getMaxStrongerStars = (handicap: Handicap, weakerTeam: TeamInfo) =>
+  Math.max(MIN_STARS, weakerTeam.stars - handicap.steps * STAR_STEP);
+
+export const isTeamHandicapMet = (
+  handicap: Handicap,
+  strongerTeam: TeamInfo,
+  weakerTeam: TeamInfo
+) => strongerTeam.stars <= getMaxStrongerStars(handicap, weakerTeam);
+
+export const hasHeadStart = (match: HeadStartFields) =>
+  !!match.player1_head_start || !!match.player2_head_start;
+
+// The final score: any head start added to the goals scored
+export const withHeadStart = <T extends HeadStartFields>(match: T): T =>
+  hasHeadStart(match)
+    ? {
+        ...match,
+        player1_goals: match.player1_goals + (match.player1_head_start ?? 0),
+        player2_goals: match.player2_goals + (match.player2_head_start ?? 0),
+      }
+    : match;
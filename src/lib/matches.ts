@@ -1,12 +1,21 @@
-import { Match, MatchResult } from '@/types';
-import axios from 'axios';
+import { Match, MatchDetails, MatchResult } from '@/types';
+import { invalidateQueries, queryKeys } from './cache';
+import { NetworkError, toApiError } from './errors';
 import {
   API_BASE_URL,
-  createAuthenticatedRequest,
   debugError,
+  getApiClient,
+  RequestOptions,
+  requestConfig,
   unwrapListResponse,
 } from './shared';
 
+export interface RecordMatchOptions extends RequestOptions {
+  // Sent as the Idempotency-Key header so a replayed submission (e.g. from
+  // the offline outbox) is only recorded once
+  idempotencyKey?: string;
+}
+
 export async function recordMatch(
   player1_id: string,
   player2_id: string,
@@ -16,12 +25,14 @@ export async function recordMatch(
   player2_goals: number,
   half_length: number,
   completed: boolean,
-  tournament_id?: string
-): Promise<Match | null> {
+  tournament_id?: string,
+  { bracket_slot, ...details }: MatchDetails = {},
+  options: RecordMatchOptions = {}
+): Promise<Match> {
   try {
-    const axiosInstance = createAuthenticatedRequest();
+    const axiosInstance = getApiClient();
 
-    const matchData: {
+    const matchData: MatchDetails & {
       player1_id: string;
       player2_id: string;
       team1: string;
@@ -32,6 +43,7 @@ export async function recordMatch(
       completed: boolean;
       tournament_id?: string;
     } = {
+      ...details,
       player1_id,
       player2_id,
       team1,
@@ -45,16 +57,39 @@ export async function recordMatch(
     // Only include tournament_id if it's provided and not empty
     if (tournament_id && tournament_id.trim() !== '') {
       matchData.tournament_id = tournament_id;
+
+      // A knockout tie only exists inside its tournament
+      if (bracket_slot) {
+        matchData.bracket_slot = bracket_slot;
+      }
     }
 
-    const response = await axiosInstance.post('/matches/', matchData);
+    const response = await axiosInstance.post(
+      '/matches/',
+      matchData,
+      requestConfig(
+        options,
+        options.idempotencyKey
+          ? { headers: { 'Idempotency-Key': options.idempotencyKey } }
+          : {}
+      )
+    );
     const { data } = response.data;
+    invalidateQueries(
+      matchData.tournament_id
+        ? queryKeys.tournament(matchData.tournament_id)
+        : 'tournament',
+      queryKeys.user(player1_id),
+      queryKeys.user(player2_id),
+      queryKeys.allUsersStats(),
+      queryKeys.matchHistory()
+    );
     return data;
   } catch (error) {
     debugError('Error recording match:', error);
 
     // Check for mixed content error specifically
-    if (axios.isAxiosError(error) && error.code === 'ERR_NETWORK') {
+    if (error instanceof NetworkError) {
       debugError('Network error detected. This might be due to:');
       debugError(
         '1. Mixed content: HTTPS frontend trying to connect to HTTP backend'
@@ -79,18 +114,25 @@ export async function recordMatch(
       }
     }
 
-    return null;
+    throw toApiError(error, {
+      409: 'This tournament is completed. The match was not recorded.',
+    });
   }
 }
 
-export async function getMatchHistory(): Promise<MatchResult[]> {
+export async function getMatchHistory(
+  options: RequestOptions = {}
+): Promise<MatchResult[]> {
   try {
-    const axiosInstance = createAuthenticatedRequest();
-    const response = await axiosInstance.get('/matches/');
+    const axiosInstance = getApiClient();
+    const response = await axiosInstance.get(
+      '/matches/',
+      requestConfig(options)
+    );
     return unwrapListResponse(response.data);
   } catch (error) {
     debugError('Error fetching match history:', error);
-    return [];
+    throw toApiError(error);
   }
 }
 
@@ -101,40 +143,69 @@ export async function updateMatch(
   team1: string,
   team2: string,
   half_length: number,
-  completed: boolean
+  completed: boolean,
+  options: RequestOptions = {}
 ): Promise<void> {
   try {
-    const axiosInstance = createAuthenticatedRequest();
-    await axiosInstance.put(`/matches/${match_id}`, {
-      team1,
-      team2,
-      player1_goals,
-      player2_goals,
-      half_length,
-      completed,
-    } as Match);
+    const axiosInstance = getApiClient();
+    await axiosInstance.put(
+      `/matches/${match_id}`,
+      {
+        team1,
+        team2,
+        player1_goals,
+        player2_goals,
+        half_length,
+        completed,
+      } as Match,
+      requestConfig(options)
+    );
+    // The match id does not tell which tournament or players it belongs to
+    invalidateQueries(
+      'tournament',
+      'user',
+      queryKeys.allUsersStats(),
+      queryKeys.matchHistory()
+    );
   } catch (error) {
     debugError('Error updating match:', error);
+    throw toApiError(error, { 404: 'Match not found.' });
   }
 }
 
-export async function getMatchById(match_id: string): Promise<Match | null> {
+export async function getMatchById(
+  match_id: string,
+  options: RequestOptions = {}
+): Promise<Match> {
   try {
-    const axiosInstance = createAuthenticatedRequest();
-    const response = await axiosInstance.get(`/matches/${match_id}`);
+    const axiosInstance = getApiClient();
+    const response = await axiosInstance.get(
+      `/matches/${match_id}`,
+      requestConfig(options)
+    );
     const { data } = response.data;
     return data;
   } catch (error) {
     debugError('Error fetching match by ID:', error);
-    return null;
+    throw toApiError(error, { 404: 'Match not found.' });
   }
 }
 
-export async function deleteMatch(match_id: string): Promise<void> {
+export async function deleteMatch(
+  match_id: string,
+  options: RequestOptions = {}
+): Promise<void> {
   try {
-    const axiosInstance = createAuthenticatedRequest();
-    await axiosInstance.delete(`/matches/${match_id}`);
+    const axiosInstance = getApiClient();
+    await axiosInstance.delete(`/matches/${match_id}`, requestConfig(options));
+    invalidateQueries(
+      'tournament',
+      'user',
+      queryKeys.allUsersStats(),
+      queryKeys.matchHistory()
+    );
   } catch (error) {
     debugError('Error deleting match:', error);
+    throw toApiError(error, { 404: 'Match not found.' });
   }
 }
@@ -0,0 +1,241 @@
+import { PendingMatch } from '@/types';
+import { AuthError, ConflictError, NetworkError, toApiError } from './errors';
+import { recordMatch } from './matches';
+import { debugError, debugLog } from './shared';
+
+/**
+ * Offline match outbox
+ *
+ * When recordMatch fails because the backend cannot be reached, LogMatch
+ * stores the match here (IndexedDB) instead of losing it. Stored matches are
+ * replayed oldest first, each with the idempotency key it was created with,
+ * so a submission that did reach the server before the connection dropped
+ * is not recorded twice. Replay stops at the first network failure to keep
+ * the order; a 409 (tournament completed in the meantime) marks the match as
+ * a conflict for the user to resolve.
+ */
+
+const DB_NAME = 'fifa-tracker-offline';
+const DB_VERSION = 1;
+const OUTBOX_STORE = 'match-outbox';
+
+export interface OutboxSyncResult {
+  synced: number;
+  conflicts: PendingMatch[];
+  failed: PendingMatch[];
+  // True when replay stopped because the backend is still unreachable
+  offline: boolean;
+}
+
+export type NewPendingMatch = Omit<
+  PendingMatch,
+  'created_at' | 'status' | 'error'
+>;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+          db.createObjectStore(OUTBOX_STORE, { keyPath: 'idempotency_key' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch(error => {
+      // Allow a later call to try again
+      dbPromise = null;
+      throw error;
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(OUTBOX_STORE, mode);
+    const request = operation(transaction.objectStore(OUTBOX_STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+const listeners = new Set<() => void>();
+
+// Listen for changes to the outbox. Returns an unsubscribe.
+export const subscribeToOutbox = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const notify = () => {
+  listeners.forEach(listener => listener());
+};
+
+// crypto.randomUUID is only available in secure contexts, and the app is
+// also opened over plain http on the local network
+export const createIdempotencyKey = (): string => {
+  if (typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// Whether a failed recordMatch should be queued instead of reported
+export const isOfflineError = (error: unknown): boolean =>
+  error instanceof NetworkError;
+
+export async function getPendingMatches(): Promise<PendingMatch[]> {
+  if (typeof indexedDB === 'undefined') {
+    return [];
+  }
+  const matches = await runRequest<PendingMatch[]>('readonly', store =>
+    store.getAll()
+  );
+  return matches.sort((a, b) => a.created_at.localeCompare(b.created_at));
+}
+
+export async function enqueueMatch(
+  match: NewPendingMatch
+): Promise<PendingMatch> {
+  const pending: PendingMatch = {
+    ...match,
+    created_at: new Date().toISOString(),
+    status: 'pending',
+  };
+  await runRequest('readwrite', store => store.put(pending));
+  debugLog('Match queued for sync:', pending.idempotency_key);
+  notify();
+  return pending;
+}
+
+export async function discardPendingMatch(
+  idempotency_key: string
+): Promise<void> {
+  await runRequest('readwrite', store => store.delete(idempotency_key));
+  notify();
+}
+
+// Resolve a conflict by recording the match without its (now completed)
+// tournament, the same way LogMatch handles completed tournaments
+export async function retryPendingMatchAsStandalone(
+  idempotency_key: string
+): Promise<void> {
+  const match = await runRequest<PendingMatch | undefined>('readonly', store =>
+    store.get(idempotency_key)
+  );
+  if (!match) {
+    return;
+  }
+  await runRequest('readwrite', store =>
+    store.put({
+      ...match,
+      tournament_id: undefined,
+      bracket_slot: undefined,
+      status: 'pending',
+      error: undefined,
+    } as PendingMatch)
+  );
+  notify();
+}
+
+const replayPendingMatches = async (): Promise<OutboxSyncResult> => {
+  const result: OutboxSyncResult = {
+    synced: 0,
+    conflicts: [],
+    failed: [],
+    offline: false,
+  };
+
+  const queue = (await getPendingMatches()).filter(
+    match => match.status === 'pending'
+  );
+
+  for (const match of queue) {
+    try {
+      await recordMatch(
+        match.player1_id,
+        match.player2_id,
+        match.team1,
+        match.team2,
+        match.player1_goals,
+        match.player2_goals,
+        match.half_length,
+        match.completed,
+        match.tournament_id,
+        {
+          bracket_slot: match.bracket_slot,
+          surprise_factor: match.surprise_factor,
+          team_roll: match.team_roll,
+          player1_head_start: match.player1_head_start,
+          player2_head_start: match.player2_head_start,
+        },
+        { idempotencyKey: match.idempotency_key }
+      );
+      await runRequest('readwrite', store =>
+        store.delete(match.idempotency_key)
+      );
+      result.synced += 1;
+    } catch (error) {
+      if (isOfflineError(error)) {
+        // Keep this and every later match queued, in order
+        result.offline = true;
+        break;
+      }
+      if (error instanceof AuthError) {
+        // Signed out; replay again after the next sign in
+        break;
+      }
+
+      const apiError = toApiError(error);
+      debugError('Error syncing queued match:', apiError);
+      const rejected: PendingMatch = {
+        ...match,
+        status: apiError instanceof ConflictError ? 'conflict' : 'failed',
+        error: apiError.message,
+      };
+      await runRequest('readwrite', store => store.put(rejected));
+      if (rejected.status === 'conflict') {
+        result.conflicts.push(rejected);
+      } else {
+        result.failed.push(rejected);
+      }
+    }
+  }
+
+  if (
+    result.synced > 0 ||
+    result.conflicts.length > 0 ||
+    result.failed.length > 0
+  ) {
+    notify();
+  }
+  return result;
+};
+
+let syncPromise: Promise<OutboxSyncResult> | null = null;
+
+/**
+ * Replay queued matches. Only one replay runs at a time; concurrent callers
+ * share its result.
+ */
+export function syncPendingMatches(): Promise<OutboxSyncResult> {
+  if (!syncPromise) {
+    syncPromise = replayPendingMatches().finally(() => {
+      syncPromise = null;
+    });
+  }
+  return syncPromise;
+}
@@ -1,108 +1,132 @@
-import { Player, User, UserDetailedStats } from '@/types';
-import axios, { AxiosError } from 'axios';
+import { CustomTeam, Player, User, UserDetailedStats } from '@/types';
+import { invalidateQueries, queryKeys } from './cache';
+import { isCancelledError, NetworkError, settle, toApiError } from './errors';
 import {
-  createAuthenticatedRequest,
   debugError,
   debugLog,
+  getApiClient,
+  RequestOptions,
+  requestConfig,
   unwrapListResponse,
 } from './shared';
 
-export async function getPlayers(): Promise<User[]> {
+export async function getPlayers(
+  options: RequestOptions = {}
+): Promise<User[]> {
   try {
-    const axiosInstance = createAuthenticatedRequest();
-    const response = await axiosInstance.get('/user/');
+    const axiosInstance = getApiClient();
+    const response = await axiosInstance.get('/user/', requestConfig(options));
     return unwrapListResponse(response.data);
   } catch (error) {
-    if (axios.isAxiosError(error)) {
-      const axiosError = error as AxiosError;
-      debugError('Error fetching players:', {
-        message: axiosError.message,
-        code: axiosError.code,
-        config: axiosError.config,
-      });
-      if (axiosError.code === 'ECONNREFUSED') {
-        debugError(
-          'Unable to connect to the API server. Please check if the server is running.'
-        );
-      }
-    } else {
-      debugError('Unexpected error:', error);
+    debugError('Error fetching players:', error);
+    if (error instanceof NetworkError) {
+      debugError(
+        'Unable to connect to the API server. Please check if the server is running.'
+      );
     }
-    return [];
+    throw toApiError(error);
   }
 }
 
-export async function createPlayer(name: string): Promise<Player | null> {
+export async function createPlayer(
+  name: string,
+  options: RequestOptions = {}
+): Promise<Player> {
   try {
-    const axiosInstance = createAuthenticatedRequest();
-    const response = await axiosInstance.post('/user/register', { name });
+    const axiosInstance = getApiClient();
+    const response = await axiosInstance.post(
+      '/user/register',
+      { name },
+      requestConfig(options)
+    );
     const { data } = response.data;
     return data;
   } catch (error) {
     debugError('Error creating player:', error);
-    return null;
+    throw toApiError(error);
   }
 }
 
-export async function deletePlayer(player_id: string): Promise<void> {
+export async function deletePlayer(
+  player_id: string,
+  options: RequestOptions = {}
+): Promise<void> {
   try {
-    const axiosInstance = createAuthenticatedRequest();
-    await axiosInstance.delete(`/user/${player_id}`);
+    const axiosInstance = getApiClient();
+    await axiosInstance.delete(`/user/${player_id}`, requestConfig(options));
   } catch (error) {
     debugError('Error deleting player:', error);
+    throw toApiError(error, { 404: 'Player not found.' });
   }
 }
 
 export async function updatePlayer(
   player_id: string,
-  newName: string
+  newName: string,
+  options: RequestOptions = {}
 ): Promise<void> {
   try {
-    const axiosInstance = createAuthenticatedRequest();
-    await axiosInstance.put(`/user/${player_id}`, { name: newName });
+    const axiosInstance = getApiClient();
+    await axiosInstance.put(
+      `/user/${player_id}`,
+      { name: newName },
+      requestConfig(options)
+    );
   } catch (error) {
     debugError('Error updating player:', error);
+    throw toApiError(error, { 404: 'Player not found.' });
   }
 }
 
 export async function getPlayerStats(
-  player_id: string
-): Promise<UserDetailedStats | null> {
+  player_id: string,
+  options: RequestOptions = {}
+): Promise<UserDetailedStats> {
   try {
     debugLog('getPlayerStats called with player_id:', player_id);
-    const axiosInstance = createAuthenticatedRequest();
+    const axiosInstance = getApiClient();
     debugLog(
       'getPlayerStats axios instance baseURL:',
       axiosInstance.defaults.baseURL
     );
-    const response = await axiosInstance.get(`/user/${player_id}/stats`);
+    const response = await axiosInstance.get(
+      `/user/${player_id}/stats`,
+      requestConfig(options)
+    );
     const { data } = response.data;
     return data;
   } catch (error) {
     debugError('Error fetching player stats:', error);
-    if (axios.isAxiosError(error)) {
-      debugError('getPlayerStats Axios error details:', {
-        message: error.message,
-        code: error.code,
-        status: error.response?.status,
-        statusText: error.response?.statusText,
-        config: {
-          url: error.config?.url,
-          method: error.config?.method,
-          baseURL: error.config?.baseURL,
-          headers: error.config?.headers,
-        },
-      });
-    }
-    return null;
+    throw toApiError(error, { 404: 'Player not found.' });
   }
 }
 
+// Stats of several players at once. Players whose stats cannot be loaded are
+// left out rather than failing the whole request.
+export async function getPlayersStats(
+  player_ids: string[],
+  options: RequestOptions = {}
+): Promise<Record<string, UserDetailedStats>> {
+  const results = await Promise.all(
+    player_ids.map(player_id => settle(getPlayerStats(player_id, options)))
+  );
+  const stats: Record<string, UserDetailedStats> = {};
+  results.forEach((result, index) => {
+    if (result.ok) {
+      stats[player_ids[index]] = result.data;
+    } else if (isCancelledError(result.error)) {
+      throw result.error;
+    }
+  });
+  return stats;
+}
+
 export async function getCurrentUserStats(
-  player_id: string
+  player_id: string,
+  options: RequestOptions = {}
 ): Promise<UserDetailedStats | null> {
   try {
-    const axiosInstance = createAuthenticatedRequest();
+    const axiosInstance = getApiClient();
     if (player_id == '') {
       return null;
     }
@@ -114,7 +138,8 @@ export async function getCurrentUserStats(
     // Add cache-busting parameter to avoid browser caching issues
     const timestamp = Date.now();
     const response = await axiosInstance.get(
-      `/user/${player_id}/stats?_t=${timestamp}`
+      `/user/${player_id}/stats?_t=${timestamp}`,
+      requestConfig(options)
     );
 
     // The API returns a single UserDetailedStats object, not an array
@@ -122,51 +147,84 @@ export async function getCurrentUserStats(
     return data || null;
   } catch (error) {
     debugError('Error fetching current user stats:', error);
-
-    // Additional error logging for debugging
-    if (axios.isAxiosError(error)) {
-      debugError('getCurrentUserStats Axios error details:', {
-        message: error.message,
-        code: error.code,
-        status: error.response?.status,
-        statusText: error.response?.statusText,
-        config: {
-          url: error.config?.url,
-          method: error.config?.method,
-          baseURL: error.config?.baseURL,
-          headers: error.config?.headers,
-        },
-      });
-    }
-
-    return null;
+    throw toApiError(error);
   }
 }
 
+// PUT /user/:id replaces the whole profile, so every update sends all of it
+interface UserProfilePayload {
+  id: string;
+  first_name?: string;
+  last_name?: string;
+  email?: string;
+  username?: string;
+  custom_teams?: CustomTeam[];
+}
+
+const putUserProfile = async (
+  payload: UserProfilePayload,
+  options: RequestOptions
+): Promise<User> => {
+  const axiosInstance = getApiClient();
+  const response = await axiosInstance.put(
+    `/user/${payload.id}`,
+    payload,
+    requestConfig(options)
+  );
+  const { data } = response.data;
+  return data;
+};
+
 export async function updateUserProfile(
   id: string,
   first_name?: string,
   last_name?: string,
   email?: string,
-  username?: string
+  username?: string,
+  // Sent back as they are so the update keeps them
+  custom_teams?: CustomTeam[],
+  options: RequestOptions = {}
 ): Promise<User | null> {
   try {
-    const axiosInstance = createAuthenticatedRequest();
-    const payload: {
-      id: string;
-      first_name?: string;
-      last_name?: string;
-      email?: string;
-      username?: string;
-    } = { id, first_name, last_name, email, username };
     if (id == '') {
       return null;
     }
-    const response = await axiosInstance.put(`/user/${id}`, payload);
-    const { data } = response.data;
-    return data;
+    return await putUserProfile(
+      { id, first_name, last_name, email, username, custom_teams },
+      options
+    );
   } catch (error) {
     debugError('Error updating user profile:', error);
-    return null;
+    throw toApiError(error, {
+      409: 'That username or email is already in use.',
+    });
+  }
+}
+
+// Custom teams are stored on the user, so they follow the account to every
+// device and show up for the other players in a match. The rest of the
+// user's profile is sent back unchanged.
+export async function updateCustomTeams(
+  user: User,
+  custom_teams: CustomTeam[],
+  options: RequestOptions = {}
+): Promise<User> {
+  try {
+    const data = await putUserProfile(
+      {
+        id: user.id,
+        first_name: user.first_name ?? undefined,
+        last_name: user.last_name ?? undefined,
+        email: user.email,
+        username: user.username,
+        custom_teams,
+      },
+      options
+    );
+    invalidateQueries(queryKeys.players(), 'tournament');
+    return data;
+  } catch (error) {
+    debugError('Error updating custom teams:', error);
+    throw toApiError(error);
   }
 }
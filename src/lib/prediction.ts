@@ -0,0 +1,162 @@
+import { User, UserDetailedStats } from '@/types';
+import { DEFAULT_ELO } from './elo';
+import { hashString } from './standings';
+
+/**
+ * Match prediction
+ *
+ * Used for the pre-match card in LogMatch and for the title odds. Goals are
+ * modelled as two independent Poisson variables. A player's expected goals
+ * start from the average of their own scoring rate and the opponent's
+ * conceding rate, then shift with the Elo difference: a 400 point advantage
+ * makes the ratio between the two sides' expected goals ten times larger.
+ * Player 1 gets no home advantage.
+ */
+
+// Goals per match assumed for players without a match history
+const DEFAULT_GOALS = 1.5;
+
+const MIN_EXPECTED_GOALS = 0.1;
+const MAX_EXPECTED_GOALS = 8;
+
+export interface PlayerStrength {
+  player_id: string;
+  elo: number;
+  // Goals per match
+  scored: number;
+  conceded: number;
+}
+
+export function getPlayerStrength(
+  player: Pick<User, 'id' | 'elo_rating'>,
+  stats?: UserDetailedStats
+): PlayerStrength {
+  const hasHistory = !!stats && stats.total_matches > 0;
+  return {
+    player_id: player.id,
+    elo: stats?.elo_rating || player.elo_rating || DEFAULT_ELO,
+    scored: hasHistory ? stats.average_goals_scored : DEFAULT_GOALS,
+    conceded: hasHistory ? stats.average_goals_conceded : DEFAULT_GOALS,
+  };
+}
+
+const clampGoals = (goals: number) =>
+  Math.min(MAX_EXPECTED_GOALS, Math.max(MIN_EXPECTED_GOALS, goals));
+
+// Expected goals of each side when player1 meets player2
+export function expectedGoals(
+  player1: PlayerStrength,
+  player2: PlayerStrength
+): [number, number] {
+  const eloFactor = Math.pow(10, (player1.elo - player2.elo) / 800);
+  return [
+    clampGoals(((player1.scored + player2.conceded) / 2) * eloFactor),
+    clampGoals((player2.scored + player1.conceded) / 2 / eloFactor),
+  ];
+}
+
+// Seeded (mulberry32), so a simulation gives the same numbers on every render
+export function createRandom(seed: string): () => number {
+  let state = hashString(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Knuth's method; fine for the small means of a football score
+export function samplePoisson(mean: number, random: () => number): number {
+  const limit = Math.exp(-mean);
+  let goals = 0;
+  let product = random();
+  while (product > limit) {
+    goals += 1;
+    product *= random();
+  }
+  return goals;
+}
+
+// Scores up to this many goals a side are counted; the rest is negligible
+const MAX_GOALS = 10;
+
+export interface Scoreline {
+  player1_goals: number;
+  player2_goals: number;
+  probability: number;
+}
+
+export interface MatchPrediction {
+  // Player 1's point of view
+  win: number;
+  draw: number;
+  loss: number;
+  expected_goals: [number, number];
+  // Most likely first
+  scorelines: Scoreline[];
+}
+
+const poissonProbability = (goals: number, mean: number) => {
+  let probability = Math.exp(-mean);
+  for (let i = 1; i <= goals; i++) {
+    probability *= mean / i;
+  }
+  return probability;
+};
+
+export function predictMatch(
+  player1: PlayerStrength,
+  player2: PlayerStrength
+): MatchPrediction {
+  const expected_goals = expectedGoals(player1, player2);
+  const scorelines: Scoreline[] = [];
+  let win = 0;
+  let draw = 0;
+  let loss = 0;
+
+  for (let goals1 = 0; goals1 <= MAX_GOALS; goals1++) {
+    for (let goals2 = 0; goals2 <= MAX_GOALS; goals2++) {
+      const probability =
+        poissonProbability(goals1, expected_goals[0]) *
+        poissonProbability(goals2, expected_goals[1]);
+      scorelines.push({
+        player1_goals: goals1,
+        player2_goals: goals2,
+        probability,
+      });
+      if (goals1 > goals2) win += probability;
+      else if (goals1 === goals2) draw += probability;
+      else loss += probability;
+    }
+  }
+
+  // Spread what is left beyond MAX_GOALS so the outcomes add up to 1
+  const total = win + draw + loss;
+  return {
+    win: win / total,
+    draw: draw / total,
+    loss: loss / total,
+    expected_goals,
+    scorelines: scorelines.sort((a, b) => b.probability - a.probability),
+  };
+}
+
+/**
+ * How unexpected a result was: 1 minus the probability the prediction gave
+ * its outcome. A draw between equals scores around 0.7, a heavy favourite
+ * losing close to 1.
+ */
+export function getSurpriseFactor(
+  prediction: MatchPrediction,
+  player1_goals: number,
+  player2_goals: number
+): number {
+  const probability =
+    player1_goals > player2_goals
+      ? prediction.win
+      : player1_goals === player2_goals
+        ? prediction.draw
+        : prediction.loss;
+  return Math.round((1 - probability) * 100) / 100;
+}
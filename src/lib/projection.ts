@@ -0,0 +1,148 @@
+import { Fixture, PlayerStats, TournamentRules, User } from '@/types';
+import {
+  createRandom,
+  expectedGoals,
+  PlayerStrength,
+  samplePoisson,
+} from './prediction';
+import { ResolvedMatch } from './results';
+import { applyRules, computeStandings, DEFAULT_RULES } from './standings';
+
+/**
+ * Title odds
+ *
+ * Plays the remaining fixtures many times with scores drawn from the
+ * prediction model and ranks every simulated season with the tournament's
+ * own rules and tiebreakers. The random numbers are seeded with the results
+ * so far, so the odds only move when a match is logged.
+ */
+
+const DEFAULT_SIMULATIONS = 2000;
+
+const record = (
+  rows: PlayerStats[],
+  player_id: string,
+  goalsFor: number,
+  goalsAgainst: number
+) => {
+  const row = rows.find(other => other.id === player_id);
+  if (!row) return;
+  row.total_matches += 1;
+  row.total_goals_scored += goalsFor;
+  row.total_goals_conceded += goalsAgainst;
+  row.goal_difference += goalsFor - goalsAgainst;
+  if (goalsFor > goalsAgainst) row.wins += 1;
+  else if (goalsFor === goalsAgainst) row.draws += 1;
+  else row.losses += 1;
+};
+
+export interface ProjectionRow {
+  player_id: string;
+  // Chance of finishing in each position, index 0 being first
+  positions: number[];
+  title: number;
+  last: number;
+  average_points: number;
+  average_position: number;
+}
+
+export interface Projection {
+  rows: ProjectionRow[];
+  simulations: number;
+  remaining: number;
+}
+
+export function projectStandings(
+  player_ids: string[],
+  players: User[],
+  matches: ResolvedMatch[],
+  remaining: Fixture[],
+  strengths: PlayerStrength[],
+  rules: TournamentRules = DEFAULT_RULES,
+  simulations = DEFAULT_SIMULATIONS
+): Projection {
+  const strengthById = new Map(
+    strengths.map(strength => [strength.player_id, strength])
+  );
+  const fixtures = remaining.flatMap(fixture => {
+    const home = strengthById.get(fixture.home_id);
+    const away = strengthById.get(fixture.away_id);
+    return home && away ? [{ fixture, means: expectedGoals(home, away) }] : [];
+  });
+  const random = createRandom(
+    matches
+      .map(({ match }) => match.id)
+      .sort()
+      .join(',')
+  );
+
+  const base = computeStandings(player_ids, players, matches, rules);
+  const positionCounts = new Map(
+    player_ids.map(id => [id, Array<number>(player_ids.length).fill(0)])
+  );
+  const pointTotals = new Map(player_ids.map(id => [id, 0]));
+  // With nothing left to play there is only one outcome
+  const runs = fixtures.length === 0 ? 1 : simulations;
+
+  for (let run = 0; run < runs; run++) {
+    const simulated: ResolvedMatch[] = fixtures.map(
+      ({ fixture, means }, index) => ({
+        player1_id: fixture.home_id,
+        player2_id: fixture.away_id,
+        match: {
+          id: `simulation:${fixture.id}`,
+          player1_name: '',
+          player2_name: '',
+          player1_goals: samplePoisson(means[0], random),
+          player2_goals: samplePoisson(means[1], random),
+          team1: '',
+          team2: '',
+          // After every real match, in fixture order
+          date: `~${String(index).padStart(4, '0')}`,
+          half_length: 0,
+          completed: true,
+        },
+      })
+    );
+
+    // Only the counting columns change; a fresh coin for every run splits
+    // coin toss ties evenly
+    const rows = base.map(row => ({ ...row }));
+    simulated.forEach(({ player1_id, player2_id, match }) => {
+      record(rows, player1_id, match.player1_goals, match.player2_goals);
+      record(rows, player2_id, match.player2_goals, match.player1_goals);
+    });
+    applyRules(rows, [...matches, ...simulated], rules, String(run)).forEach(
+      (row, position) => {
+        const counts = positionCounts.get(row.id);
+        if (counts) {
+          counts[position] += 1;
+        }
+        pointTotals.set(row.id, (pointTotals.get(row.id) ?? 0) + row.points);
+      }
+    );
+  }
+
+  const rows = player_ids
+    .map(id => {
+      const positions = (positionCounts.get(id) ?? []).map(
+        count => count / runs
+      );
+      return {
+        player_id: id,
+        positions,
+        title: positions[0] ?? 0,
+        last: positions[positions.length - 1] ?? 0,
+        average_points: (pointTotals.get(id) ?? 0) / runs,
+        average_position: positions.reduce(
+          (sum, chance, index) => sum + chance * (index + 1),
+          0
+        ),
+      };
+    })
+    .sort(
+      (a, b) => a.average_position - b.average_position || b.title - a.title
+    );
+
+  return { rows, simulations: runs, remaining: fixtures.length };
+}
@@ -0,0 +1,61 @@
+import { MatchResult, PendingMatch, User } from '@/types';
+import { withHeadStart } from './handicap';
+
+// A completed match with its players resolved to ids. Its goals are the
+// final score, with any handicap head start added
+export interface ResolvedMatch {
+  player1_id: string;
+  player2_id: string;
+  match: MatchResult;
+}
+
+/**
+ * Match history only carries display names; map them back to player ids the
+ * same way the Matches tab does when a match is opened for editing. Matches
+ * that are not completed or whose players cannot be found are dropped.
+ */
+export function resolveMatchPlayers(
+  matches: MatchResult[],
+  players: User[]
+): ResolvedMatch[] {
+  const findPlayerId = (name: string) =>
+    players.find(p => p.first_name === name || p.username === name)?.id;
+
+  return matches.flatMap(match => {
+    const player1_id = findPlayerId(match.player1_name);
+    const player2_id = findPlayerId(match.player2_name);
+    return player1_id && player2_id && match.completed
+      ? [{ player1_id, player2_id, match: withHeadStart(match) }]
+      : [];
+  });
+}
+
+/**
+ * Matches still waiting in the offline outbox already carry player ids.
+ * Conflicts and rejected matches will not reach the server as they are, so
+ * only matches that are still pending are included.
+ */
+export function resolvePendingMatches(
+  pendingMatches: PendingMatch[]
+): ResolvedMatch[] {
+  return pendingMatches
+    .filter(pending => pending.status === 'pending' && pending.completed)
+    .map(withHeadStart)
+    .map(pending => ({
+      player1_id: pending.player1_id,
+      player2_id: pending.player2_id,
+      match: {
+        id: pending.idempotency_key,
+        player1_name: pending.player1_name,
+        player2_name: pending.player2_name,
+        player1_goals: pending.player1_goals,
+        player2_goals: pending.player2_goals,
+        team1: pending.team1,
+        team2: pending.team2,
+        date: pending.created_at,
+        half_length: pending.half_length,
+        completed: pending.completed,
+        bracket_slot: pending.bracket_slot,
+      },
+    }));
+}
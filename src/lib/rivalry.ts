@@ -0,0 +1,219 @@
+import { ResolvedMatch } from './results';
+
+/**
+ * Head-to-head rivalries
+ *
+ * /stats/head-to-head only returns totals. Everything here is derived from
+ * the meetings themselves, always from player 1's point of view regardless
+ * of how each match was logged.
+ */
+
+export interface RivalryMatch extends ResolvedMatch {
+  // Undefined for matches logged outside a tournament
+  tournament_id?: string;
+  tournament_name?: string;
+}
+
+// A meeting seen from player 1's side
+export interface RivalryMeeting {
+  match: RivalryMatch;
+  player1_goals: number;
+  player2_goals: number;
+  player1_team: string;
+  player2_team: string;
+  // Undefined for a draw
+  winner_id?: string;
+}
+
+export interface RivalryRecord {
+  played: number;
+  player1_wins: number;
+  player2_wins: number;
+  draws: number;
+  player1_goals: number;
+  player2_goals: number;
+}
+
+export interface CumulativePoint extends RivalryRecord {
+  date: string;
+}
+
+export interface TeamUsage {
+  team: string;
+  played: number;
+  wins: number;
+}
+
+export interface TournamentSplit extends RivalryRecord {
+  tournament_id?: string;
+  tournament_name: string;
+}
+
+export interface Rivalry extends RivalryRecord {
+  // Oldest first
+  meetings: RivalryMeeting[];
+  cumulative: CumulativePoint[];
+  biggest_win: { player1?: RivalryMeeting; player2?: RivalryMeeting };
+  // Run of identical results up to the latest meeting; winner_id is
+  // undefined for a run of draws
+  streak?: { winner_id?: string; length: number };
+  longest_streak: { player1: number; player2: number };
+  teams: { player1: TeamUsage[]; player2: TeamUsage[] };
+  tournaments: TournamentSplit[];
+}
+
+export const FRIENDLY_LABEL = 'Friendlies';
+
+const emptyRecord = (): RivalryRecord => ({
+  played: 0,
+  player1_wins: 0,
+  player2_wins: 0,
+  draws: 0,
+  player1_goals: 0,
+  player2_goals: 0,
+});
+
+const addMeeting = (
+  record: RivalryRecord,
+  meeting: RivalryMeeting,
+  player1_id: string
+): RivalryRecord => ({
+  played: record.played + 1,
+  player1_wins:
+    record.player1_wins + (meeting.winner_id === player1_id ? 1 : 0),
+  player2_wins:
+    record.player2_wins +
+    (meeting.winner_id && meeting.winner_id !== player1_id ? 1 : 0),
+  draws: record.draws + (meeting.winner_id ? 0 : 1),
+  player1_goals: record.player1_goals + meeting.player1_goals,
+  player2_goals: record.player2_goals + meeting.player2_goals,
+});
+
+const toMeeting = (
+  match: RivalryMatch,
+  player1_id: string,
+  player2_id: string
+): RivalryMeeting => {
+  const asLogged = match.player1_id === player1_id;
+  const { player1_goals, player2_goals, team1, team2 } = match.match;
+  const goals1 = asLogged ? player1_goals : player2_goals;
+  const goals2 = asLogged ? player2_goals : player1_goals;
+  return {
+    match,
+    player1_goals: goals1,
+    player2_goals: goals2,
+    player1_team: asLogged ? team1 : team2,
+    player2_team: asLogged ? team2 : team1,
+    winner_id:
+      goals1 > goals2 ? player1_id : goals2 > goals1 ? player2_id : undefined,
+  };
+};
+
+const countTeams = (
+  meetings: RivalryMeeting[],
+  side: 'player1' | 'player2',
+  player_id: string
+): TeamUsage[] => {
+  const usage = new Map<string, TeamUsage>();
+  meetings.forEach(meeting => {
+    const team =
+      side === 'player1' ? meeting.player1_team : meeting.player2_team;
+    if (!team) return;
+    const entry = usage.get(team) ?? { team, played: 0, wins: 0 };
+    usage.set(team, {
+      team,
+      played: entry.played + 1,
+      wins: entry.wins + (meeting.winner_id === player_id ? 1 : 0),
+    });
+  });
+  return Array.from(usage.values()).sort(
+    (a, b) => b.played - a.played || b.wins - a.wins
+  );
+};
+
+// Bigger margin first, then more goals scored
+const isBiggerWin = (
+  meeting: RivalryMeeting,
+  current: RivalryMeeting | undefined
+) => {
+  if (!current) return true;
+  const margin = Math.abs(meeting.player1_goals - meeting.player2_goals);
+  const currentMargin = Math.abs(current.player1_goals - current.player2_goals);
+  return (
+    margin > currentMargin ||
+    (margin === currentMargin &&
+      Math.max(meeting.player1_goals, meeting.player2_goals) >
+        Math.max(current.player1_goals, current.player2_goals))
+  );
+};
+
+export function buildRivalry(
+  player1_id: string,
+  player2_id: string,
+  matches: RivalryMatch[]
+): Rivalry {
+  const meetings = matches
+    .filter(
+      ({ player1_id: a, player2_id: b }) =>
+        (a === player1_id && b === player2_id) ||
+        (a === player2_id && b === player1_id)
+    )
+    .sort((a, b) => a.match.date.localeCompare(b.match.date))
+    .map(match => toMeeting(match, player1_id, player2_id));
+
+  let record = emptyRecord();
+  const cumulative: CumulativePoint[] = [];
+  const biggest_win: Rivalry['biggest_win'] = {};
+  const longest_streak = { player1: 0, player2: 0 };
+  let streak: Rivalry['streak'];
+  const splits = new Map<string, TournamentSplit>();
+
+  meetings.forEach(meeting => {
+    record = addMeeting(record, meeting, player1_id);
+    cumulative.push({ ...record, date: meeting.match.match.date });
+
+    if (meeting.winner_id === player1_id) {
+      if (isBiggerWin(meeting, biggest_win.player1)) {
+        biggest_win.player1 = meeting;
+      }
+    } else if (meeting.winner_id === player2_id) {
+      if (isBiggerWin(meeting, biggest_win.player2)) {
+        biggest_win.player2 = meeting;
+      }
+    }
+
+    streak =
+      streak && streak.winner_id === meeting.winner_id
+        ? { winner_id: streak.winner_id, length: streak.length + 1 }
+        : { winner_id: meeting.winner_id, length: 1 };
+    if (streak.winner_id === player1_id) {
+      longest_streak.player1 = Math.max(longest_streak.player1, streak.length);
+    } else if (streak.winner_id === player2_id) {
+      longest_streak.player2 = Math.max(longest_streak.player2, streak.length);
+    }
+
+    const key = meeting.match.tournament_id ?? '';
+    const split = splits.get(key) ?? {
+      ...emptyRecord(),
+      tournament_id: meeting.match.tournament_id,
+      tournament_name: meeting.match.tournament_name ?? FRIENDLY_LABEL,
+    };
+    splits.set(key, { ...split, ...addMeeting(split, meeting, player1_id) });
+  });
+
+  return {
+    ...record,
+    meetings,
+    cumulative,
+    biggest_win,
+    streak,
+    longest_streak,
+    teams: {
+      player1: countTeams(meetings, 'player1', player1_id),
+      player2: countTeams(meetings, 'player2', player2_id),
+    },
+    tournaments: Array.from(splits.values()).sort(
+      (a, b) => b.played - a.played
+    ),
+  };
+}
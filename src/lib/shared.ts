@@ -1,5 +1,11 @@
 import { PaginatedResponse } from '@/types';
-import axios from 'axios';
+import axios, {
+  AxiosInstance,
+  AxiosRequestConfig,
+  InternalAxiosRequestConfig,
+} from 'axios';
+import { reportResponseSource } from './connectivity';
+import { AuthError, NetworkError, toApiError } from './errors';
 
 /**
  * Debug Configuration
@@ -134,10 +140,31 @@ export const getAccessToken = (): string | null => {
   return null;
 };
 
-// Helper function to create authenticated axios instance
-export const createAuthenticatedRequest = () => {
-  const token = getAccessToken();
+// Default per-request timeout; callers can override it through RequestOptions
+export const DEFAULT_REQUEST_TIMEOUT = 15000;
 
+// Per-call options accepted by every exported API function
+export interface RequestOptions {
+  // Abort the request, e.g. when the selected tournament changes or a
+  // component unmounts. Aborted calls reject with a CancelledError.
+  signal?: AbortSignal;
+  // Timeout in milliseconds (defaults to DEFAULT_REQUEST_TIMEOUT)
+  timeout?: number;
+}
+
+// Translate RequestOptions into the axios config for a single call
+export const requestConfig = (
+  options: RequestOptions = {},
+  config: AxiosRequestConfig = {}
+): AxiosRequestConfig => ({
+  ...config,
+  signal: options.signal,
+  timeout: options.timeout ?? DEFAULT_REQUEST_TIMEOUT,
+});
+
+// Resolve the API base URL for the current request, forcing HTTPS outside
+// localhost to avoid mixed content errors
+const resolveBaseUrl = (): string => {
   // Get fresh API base URL to avoid caching issues
   const freshApiBaseUrl = getApiBaseUrl();
 
@@ -172,119 +199,250 @@ export const createAuthenticatedRequest = () => {
     finalBaseUrl = finalBaseUrl.replace('http://', 'https://');
   }
 
-  debugLog('Creating authenticated request:', {
-    hasToken: !!token,
-    tokenLength: token?.length,
-    baseURL: finalBaseUrl,
-    originalBaseUrl: freshApiBaseUrl,
+  return finalBaseUrl;
+};
+
+// Request interceptor shared by both clients: resolve the base URL, log the
+// actual request URL and add cache-busting headers
+const prepareRequest = (config: InternalAxiosRequestConfig) => {
+  config.baseURL = resolveBaseUrl();
+  config.headers.set('Content-Type', 'application/json');
+
+  // Log the actual request URL being made
+  const fullUrl = (config.baseURL || '') + (config.url || '');
+  debugLog('Making request to:', {
+    method: config.method,
+    url: config.url,
+    baseURL: config.baseURL,
+    fullUrl: fullUrl,
+    timeout: config.timeout,
     protocol:
       typeof window !== 'undefined' ? window.location.protocol : 'server',
   });
 
-  const config: {
-    baseURL: string;
-    headers?: {
-      Authorization: string;
-      'Content-Type': string;
-    };
-  } = {
-    baseURL: finalBaseUrl,
+  // Add cache-busting headers for production
+  if (typeof window !== 'undefined' && window.location.protocol === 'https:') {
+    config.headers.set('Cache-Control', 'no-cache, no-store, must-revalidate');
+    config.headers.set('Pragma', 'no-cache');
+    config.headers.set('Expires', '0');
+  }
+
+  return config;
+};
+
+let apiClient: AxiosInstance | null = null;
+let publicClient: AxiosInstance | null = null;
+
+// Shared client for endpoints that do not need a session (login, register,
+// token refresh). Failures are still normalized into ApiErrors.
+export const getPublicClient = (): AxiosInstance => {
+  if (publicClient) {
+    return publicClient;
+  }
+
+  publicClient = axios.create({ timeout: DEFAULT_REQUEST_TIMEOUT });
+  publicClient.interceptors.request.use(prepareRequest, error =>
+    Promise.reject(toApiError(error))
+  );
+  publicClient.interceptors.response.use(
+    response => response,
+    error => Promise.reject(toApiError(error))
+  );
+
+  return publicClient;
+};
+
+// Refresh the access token this long before its `exp` so requests do not
+// leave with a token that expires in flight
+const TOKEN_REFRESH_MARGIN_MS = 60 * 1000;
+
+export type SessionEvent =
+  | { type: 'refreshed'; accessToken: string }
+  | { type: 'expired' };
+
+type SessionListener = (event: SessionEvent) => void;
+
+const sessionListeners = new Set<SessionListener>();
+
+// Subscribe to token refreshes and session expiry. AuthProvider listens so it
+// can sign out when the refresh token is rejected. Returns an unsubscribe.
+export const subscribeToSession = (listener: SessionListener) => {
+  sessionListeners.add(listener);
+  return () => {
+    sessionListeners.delete(listener);
   };
+};
 
-  if (token) {
-    config.headers = {
-      Authorization: `Bearer ${token}`,
-      'Content-Type': 'application/json',
-    };
+const emitSessionEvent = (event: SessionEvent) => {
+  sessionListeners.forEach(listener => listener(event));
+};
+
+// Read the `exp` claim of a JWT (in ms). The signature is not verified; this
+// is only used to decide when to refresh.
+export const getTokenExpiry = (token: string): number | null => {
+  try {
+    const payload = token.split('.')[1];
+    if (!payload) {
+      return null;
+    }
+    const claims = JSON.parse(
+      atob(payload.replace(/-/g, '+').replace(/_/g, '/'))
+    );
+    return typeof claims.exp === 'number' ? claims.exp * 1000 : null;
+  } catch {
+    return null;
   }
+};
 
-  const axiosInstance = axios.create(config);
+const isTokenExpiring = (token: string): boolean => {
+  const expiry = getTokenExpiry(token);
+  return expiry !== null && expiry - Date.now() < TOKEN_REFRESH_MARGIN_MS;
+};
+
+// Clear the stored session and let AuthProvider sign the user out
+const expireSession = () => {
+  localStorage.removeItem('fifa-tracker-token');
+  localStorage.removeItem('fifa-tracker-user');
+  localStorage.removeItem('fifa-tracker-refresh-token');
+  emitSessionEvent({ type: 'expired' });
+};
+
+const performTokenRefresh = async (): Promise<string> => {
+  const refreshTokenValue = localStorage.getItem('fifa-tracker-refresh-token');
+  if (!refreshTokenValue) {
+    expireSession();
+    throw new AuthError('Your session has expired. Please log in again.');
+  }
+
+  try {
+    const response = await getPublicClient().post('/auth/refresh', {
+      refresh_token: refreshTokenValue,
+    });
+    const { data } = response.data;
+    if (!data?.access_token) {
+      throw new AuthError('Your session has expired. Please log in again.');
+    }
+
+    localStorage.setItem('fifa-tracker-token', data.access_token);
+    // The backend may rotate the refresh token as well
+    if (data.refresh_token) {
+      localStorage.setItem('fifa-tracker-refresh-token', data.refresh_token);
+    }
+    emitSessionEvent({ type: 'refreshed', accessToken: data.access_token });
+    return data.access_token;
+  } catch (error) {
+    debugError('Error refreshing token:', error);
+    const apiError = toApiError(error);
+    // A network failure says nothing about the refresh token, so keep the
+    // session and let the caller retry once the connection is back
+    if (!(apiError instanceof NetworkError)) {
+      expireSession();
+    }
+    throw apiError;
+  }
+};
+
+let refreshPromise: Promise<string> | null = null;
+
+/**
+ * Exchange the refresh token for a new access token.
+ *
+ * Single-flight: while a refresh is running every caller awaits the same
+ * promise, so parallel 401s trigger exactly one /auth/refresh call and are
+ * replayed once it settles. If the refresh token is rejected the session is
+ * cleared and subscribers receive an `expired` event.
+ */
+export const refreshAccessToken = (): Promise<string> => {
+  if (!refreshPromise) {
+    refreshPromise = performTokenRefresh().finally(() => {
+      refreshPromise = null;
+    });
+  }
+  return refreshPromise;
+};
+
+interface RetriableRequestConfig extends InternalAxiosRequestConfig {
+  _retried?: boolean;
+}
+
+// Shared authenticated client. The access token is read on every request so
+// a single instance survives logins, logouts and token refreshes.
+export const getApiClient = (): AxiosInstance => {
+  if (apiClient) {
+    return apiClient;
+  }
+
+  const axiosInstance = axios.create({ timeout: DEFAULT_REQUEST_TIMEOUT });
 
-  // Add request interceptor to log the actual request URL and add cache-busting
   axiosInstance.interceptors.request.use(
-    config => {
-      // Log the actual request URL being made
-      const fullUrl = (config.baseURL || '') + (config.url || '');
-      debugLog('Making request to:', {
-        method: config.method,
-        url: config.url,
-        baseURL: config.baseURL,
-        fullUrl: fullUrl,
-        headers: config.headers,
-      });
+    async config => {
+      let token = getAccessToken();
 
-      // Add cache-busting headers for production
+      // Refresh proactively instead of waiting for the request to fail
       if (
-        typeof window !== 'undefined' &&
-        window.location.protocol === 'https:'
+        token &&
+        isTokenExpiring(token) &&
+        localStorage.getItem('fifa-tracker-refresh-token')
       ) {
-        if (config.headers) {
-          config.headers['Cache-Control'] =
-            'no-cache, no-store, must-revalidate';
-          config.headers['Pragma'] = 'no-cache';
-          config.headers['Expires'] = '0';
+        try {
+          token = await refreshAccessToken();
+        } catch {
+          // Send the request anyway; the 401 handler below takes over
+          token = getAccessToken();
         }
       }
 
-      return config;
+      if (token) {
+        config.headers.set('Authorization', `Bearer ${token}`);
+      }
+      return prepareRequest(config);
     },
     error => {
-      return Promise.reject(error);
+      return Promise.reject(toApiError(error));
     }
   );
 
-  // Add response interceptor to handle authentication errors
+  // Add response interceptor to handle authentication errors and normalize
+  // every failure into a typed ApiError
   axiosInstance.interceptors.response.use(
-    response => response,
+    response => {
+      // Set by the service worker when it answers from its offline cache
+      reportResponseSource(response.headers['x-sw-cached-at'] ?? null);
+      return response;
+    },
     async error => {
-      if (error.response?.status === 401) {
-        // Try to refresh the token
-        const refreshTokenValue = localStorage.getItem(
-          'fifa-tracker-refresh-token'
-        );
-        if (refreshTokenValue) {
-          try {
-            const response = await axios.post(`${API_BASE_URL}/auth/refresh`, {
-              refresh_token: refreshTokenValue,
-            });
-
-            const { data } = response.data;
-            if (data?.access_token) {
-              localStorage.setItem('fifa-tracker-token', data.access_token);
-              // Retry the original request with the new token
-              error.config.headers.Authorization = `Bearer ${data.access_token}`;
-              return axiosInstance.request(error.config);
-            }
-          } catch (_refreshError) {
-            // Token refresh failed, clear everything and redirect to login
-            localStorage.removeItem('fifa-tracker-token');
-            localStorage.removeItem('fifa-tracker-user');
-            localStorage.removeItem('fifa-tracker-refresh-token');
-
-            // Redirect to login page if we're in a browser environment
-            if (typeof window !== 'undefined') {
-              window.location.href = '/auth';
-            }
-          }
-        } else {
-          // No refresh token, clear everything and redirect to login
-          localStorage.removeItem('fifa-tracker-token');
-          localStorage.removeItem('fifa-tracker-user');
-          localStorage.removeItem('fifa-tracker-refresh-token');
-
-          // Redirect to login page if we're in a browser environment
-          if (typeof window !== 'undefined') {
-            window.location.href = '/auth';
-          }
+      const config = error.config as RetriableRequestConfig | undefined;
+
+      if (error.response?.status === 401 && config && !config._retried) {
+        config._retried = true;
+
+        // Another request may already have refreshed the token while this
+        // one was in flight; replay with the new token without refreshing
+        const currentToken = getAccessToken();
+        const sentAuthorization = config.headers.get('Authorization');
+        if (currentToken && sentAuthorization !== `Bearer ${currentToken}`) {
+          return axiosInstance.request(config);
+        }
+
+        try {
+          await refreshAccessToken();
+          // The request interceptor attaches the refreshed token
+          return axiosInstance.request(config);
+        } catch {
+          // Refresh failed; reject with the original 401 below
         }
       }
-      return Promise.reject(error);
+      return Promise.reject(toApiError(error));
     }
   );
 
+  apiClient = axiosInstance;
   return axiosInstance;
 };
 
+// Kept for backward compatibility: returns the shared authenticated client
+export const createAuthenticatedRequest = getApiClient;
+
 // Response unwrapping utilities
 export function unwrapResponse<T>(response: {
   success: boolean;
@@ -0,0 +1,344 @@
+import {
+  MatchResult,
+  PlayerStats,
+  TiebreakRule,
+  TournamentRules,
+  User,
+} from '@/types';
+import { resolveMatchPlayers, ResolvedMatch } from './results';
+
+/**
+ * Client-side standings
+ *
+ * Builds the same rows the backend returns from /tournaments/:id/stats, for
+ * tables the backend does not know about (e.g. a single group of a group
+ * stage, or a table that includes matches still in the offline outbox), and
+ * ranks rows by a tournament's rules: points per result, then its
+ * tiebreakers in order. Every row that finishes directly above a player on
+ * the same points says which tiebreaker put it there.
+ *
+ * Everything here is pure, so the same rows can be computed for results that
+ * have not happened yet.
+ */
+
+// What the backend uses
+export const DEFAULT_RULES: TournamentRules = {
+  points_for_win: 3,
+  points_for_draw: 1,
+  points_for_loss: 0,
+  tiebreakers: ['goal_difference', 'goals_scored'],
+};
+
+export const TIEBREAK_LABELS: Record<TiebreakRule, string> = {
+  goal_difference: 'goal difference',
+  goals_scored: 'goals scored',
+  head_to_head: 'head-to-head',
+  away_goals: 'away goals',
+  coin_toss: 'coin toss',
+};
+
+export interface RankedStanding extends PlayerStats {
+  // e.g. "Ahead of Sam on head-to-head"
+  tiebreak_note?: string;
+}
+
+const FORM_LENGTH = 5;
+
+const emptyRow = (player_id: string, players: User[]): PlayerStats => {
+  const player = players.find(p => p.id === player_id);
+  return {
+    id: player_id,
+    username: player?.username || 'Unknown player',
+    email: player?.email || '',
+    first_name: player?.first_name,
+    last_name: player?.last_name,
+    total_matches: 0,
+    total_goals_scored: 0,
+    total_goals_conceded: 0,
+    goal_difference: 0,
+    wins: 0,
+    losses: 0,
+    draws: 0,
+    points: 0,
+    last_5_matches: [],
+  };
+};
+
+export const compareStandings = (a: PlayerStats, b: PlayerStats) =>
+  b.points - a.points ||
+  b.goal_difference - a.goal_difference ||
+  b.total_goals_scored - a.total_goals_scored;
+
+export const pointsForResult = (
+  rules: TournamentRules,
+  goalsFor: number,
+  goalsAgainst: number
+) =>
+  goalsFor > goalsAgainst
+    ? rules.points_for_win
+    : goalsFor === goalsAgainst
+      ? rules.points_for_draw
+      : rules.points_for_loss;
+
+// FNV-1a, so the coin toss gives the same order on every render
+export const hashString = (value: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+interface RankingContext {
+  rules: TournamentRules;
+  matches: ResolvedMatch[];
+  coinSeed: string;
+}
+
+const tiebreakValue = (
+  rule: TiebreakRule,
+  row: PlayerStats,
+  tied: PlayerStats[],
+  { rules, matches, coinSeed }: RankingContext
+): number => {
+  switch (rule) {
+    case 'goal_difference':
+      return row.goal_difference;
+    case 'goals_scored':
+      return row.total_goals_scored;
+    case 'head_to_head': {
+      const tiedIds = new Set(tied.map(other => other.id));
+      return matches.reduce((points, { player1_id, player2_id, match }) => {
+        if (!tiedIds.has(player1_id) || !tiedIds.has(player2_id)) {
+          return points;
+        }
+        if (player1_id === row.id) {
+          return (
+            points +
+            pointsForResult(rules, match.player1_goals, match.player2_goals)
+          );
+        }
+        if (player2_id === row.id) {
+          return (
+            points +
+            pointsForResult(rules, match.player2_goals, match.player1_goals)
+          );
+        }
+        return points;
+      }, 0);
+    }
+    case 'away_goals':
+      // Goals scored as player 2
+      return matches
+        .filter(match => match.player2_id === row.id)
+        .reduce((goals, match) => goals + match.match.player2_goals, 0);
+    case 'coin_toss':
+      return hashString(`${coinSeed}:${row.id}`);
+  }
+};
+
+const playerName = (row: PlayerStats) => row.first_name || row.username;
+
+// Order players level on points, noting what separated each from the next
+const rankTied = (
+  tied: RankedStanding[],
+  tiebreakers: TiebreakRule[],
+  context: RankingContext
+): RankedStanding[] => {
+  if (tied.length < 2) {
+    return tied;
+  }
+  if (tiebreakers.length === 0) {
+    return tied.map((row, index) =>
+      index < tied.length - 1
+        ? {
+            ...row,
+            tiebreak_note: `Level with ${playerName(tied[index + 1])} on every tiebreaker`,
+          }
+        : row
+    );
+  }
+
+  const [rule, ...remaining] = tiebreakers;
+  const values = new Map(
+    tied.map(row => [row.id, tiebreakValue(rule, row, tied, context)])
+  );
+  const buckets: RankedStanding[][] = [];
+  [...tied]
+    .sort((a, b) => (values.get(b.id) ?? 0) - (values.get(a.id) ?? 0))
+    .forEach(row => {
+      const bucket = buckets[buckets.length - 1];
+      if (bucket && values.get(bucket[0].id) === values.get(row.id)) {
+        bucket.push(row);
+      } else {
+        buckets.push([row]);
+      }
+    });
+
+  const ranked = buckets.map(bucket => rankTied(bucket, remaining, context));
+  return ranked.flatMap((bucket, index) => {
+    const next = ranked[index + 1];
+    if (!next) {
+      return bucket;
+    }
+    const last = bucket[bucket.length - 1];
+    return [
+      ...bucket.slice(0, -1),
+      {
+        ...last,
+        tiebreak_note: `Ahead of ${playerName(next[0])} on ${TIEBREAK_LABELS[rule]}`,
+      },
+    ];
+  });
+};
+
+/**
+ * Re-score rows with the rules' points and rank them. matches are needed for
+ * the head-to-head and away goals tiebreakers; coinSeed (e.g. the tournament
+ * id) fixes the coin toss.
+ */
+export function applyRules(
+  rows: PlayerStats[],
+  matches: ResolvedMatch[],
+  rules: TournamentRules = DEFAULT_RULES,
+  coinSeed = ''
+): RankedStanding[] {
+  const rescored = rows.map(row => ({
+    ...row,
+    points:
+      row.wins * rules.points_for_win +
+      row.draws * rules.points_for_draw +
+      row.losses * rules.points_for_loss,
+    tiebreak_note: undefined,
+  }));
+  const context = { rules, matches, coinSeed };
+
+  const byPoints = new Map<number, RankedStanding[]>();
+  rescored.forEach(row => {
+    byPoints.set(row.points, [...(byPoints.get(row.points) || []), row]);
+  });
+  return Array.from(byPoints.entries())
+    .sort(([a], [b]) => b - a)
+    .flatMap(([, tied]) => rankTied(tied, rules.tiebreakers, context));
+}
+
+// Only matches between the given players count
+export function computeStandings(
+  player_ids: string[],
+  players: User[],
+  matches: ResolvedMatch[],
+  rules: TournamentRules = DEFAULT_RULES,
+  coinSeed = ''
+): RankedStanding[] {
+  const rows = new Map(
+    player_ids.map(id => [id, emptyRow(id, players)] as const)
+  );
+
+  const record = (row: PlayerStats, goalsFor: number, goalsAgainst: number) => {
+    const result =
+      goalsFor > goalsAgainst ? 'W' : goalsFor < goalsAgainst ? 'L' : 'D';
+    row.total_matches += 1;
+    row.total_goals_scored += goalsFor;
+    row.total_goals_conceded += goalsAgainst;
+    row.goal_difference = row.total_goals_scored - row.total_goals_conceded;
+    row.wins += result === 'W' ? 1 : 0;
+    row.draws += result === 'D' ? 1 : 0;
+    row.losses += result === 'L' ? 1 : 0;
+    // Most recent first, like the backend
+    row.last_5_matches = [result, ...row.last_5_matches];
+  };
+
+  // Matches between the given players, for the head-to-head tiebreakers
+  const counted: ResolvedMatch[] = [];
+  [...matches]
+    .sort((a, b) => a.match.date.localeCompare(b.match.date))
+    .forEach(resolved => {
+      const row1 = rows.get(resolved.player1_id);
+      const row2 = rows.get(resolved.player2_id);
+      if (!row1 || !row2) {
+        return;
+      }
+      const { player1_goals, player2_goals } = resolved.match;
+      record(row1, player1_goals, player2_goals);
+      record(row2, player2_goals, player1_goals);
+      counted.push(resolved);
+    });
+
+  return applyRules(
+    Array.from(rows.values()).map(row => ({
+      ...row,
+      last_5_matches: [
+        ...row.last_5_matches.slice(0, FORM_LENGTH),
+        ...Array(Math.max(0, FORM_LENGTH - row.last_5_matches.length)).fill(
+          '-'
+        ),
+      ],
+    })),
+    counted,
+    rules,
+    coinSeed
+  );
+}
+
+// Standings of every given player straight from the match history
+export function computeStandingsFromResults(
+  matches: MatchResult[],
+  players: User[],
+  rules: TournamentRules = DEFAULT_RULES,
+  coinSeed = ''
+): RankedStanding[] {
+  return computeStandings(
+    players.map(player => player.id),
+    players,
+    resolveMatchPlayers(matches, players),
+    rules,
+    coinSeed
+  );
+}
+
+const CHECKED_FIELDS = [
+  'total_matches',
+  'wins',
+  'draws',
+  'losses',
+  'total_goals_scored',
+  'total_goals_conceded',
+  'points',
+] as const;
+
+export interface StandingsMismatch {
+  player_id: string;
+  username: string;
+  field: (typeof CHECKED_FIELDS)[number] | 'missing';
+  server?: number;
+  computed?: number;
+}
+
+/**
+ * Differences between the backend's standings and ones computed from the
+ * match history. Only players in both tables are compared field by field;
+ * a player missing from the server table is reported as 'missing'.
+ */
+export function diffStandings(
+  server: PlayerStats[],
+  computed: PlayerStats[]
+): StandingsMismatch[] {
+  return computed.flatMap((row): StandingsMismatch[] => {
+    const serverRow = server.find(other => other.id === row.id);
+    if (!serverRow) {
+      return row.total_matches > 0
+        ? [{ player_id: row.id, username: row.username, field: 'missing' }]
+        : [];
+    }
+    return CHECKED_FIELDS.filter(field => serverRow[field] !== row[field]).map(
+      field => ({
+        player_id: row.id,
+        username: row.username,
+        field,
+        server: serverRow[field],
+        computed: row[field],
+      })
+    );
+  });
+}
@@ -1,12 +1,24 @@
-import { PlayerStats } from '@/types';
-import axios from 'axios';
-import { createAuthenticatedRequest, debugError, debugLog } from './shared';
+import { MatchResult, PlayerStats } from '@/types';
+import { toApiError } from './errors';
+import { getPlayerStats } from './players';
+import { resolveMatchPlayers } from './results';
+import { RivalryMatch } from './rivalry';
+import {
+  debugError,
+  debugLog,
+  getApiClient,
+  RequestOptions,
+  requestConfig,
+  unwrapListResponse,
+} from './shared';
 
-export async function getTable(): Promise<PlayerStats[]> {
+export async function getTable(
+  options: RequestOptions = {}
+): Promise<PlayerStats[]> {
   try {
-    const axiosInstance = createAuthenticatedRequest();
+    const axiosInstance = getApiClient();
     debugLog('getTable: Making request to /stats/');
-    const response = await axiosInstance.get('/stats/');
+    const response = await axiosInstance.get('/stats/', requestConfig(options));
     debugLog('getTable: Response received:', response.data);
 
     // Ensure the response data is an array
@@ -20,26 +32,14 @@ export async function getTable(): Promise<PlayerStats[]> {
     }
   } catch (error) {
     debugError('Error fetching table:', error);
-    if (axios.isAxiosError(error)) {
-      debugError('Axios error details:', {
-        message: error.message,
-        code: error.code,
-        status: error.response?.status,
-        statusText: error.response?.statusText,
-        config: {
-          url: error.config?.url,
-          method: error.config?.method,
-          timeout: error.config?.timeout,
-        },
-      });
-    }
-    return [];
+    throw toApiError(error);
   }
 }
 
 export async function getHeadToHead(
   player1_id: string,
-  player2_id: string
+  player2_id: string,
+  options: RequestOptions = {}
 ): Promise<{
   player1_id: string;
   player2_id: string;
@@ -57,29 +57,58 @@ export async function getHeadToHead(
   player2_avg_goals: number;
 }> {
   try {
-    const axiosInstance = createAuthenticatedRequest();
+    const axiosInstance = getApiClient();
     const response = await axiosInstance.get(
-      `/stats/head-to-head/${player1_id}/${player2_id}`
+      `/stats/head-to-head/${player1_id}/${player2_id}`,
+      requestConfig(options)
     );
     const { data } = response.data;
     return data;
   } catch (error) {
     debugError('Error fetching head-to-head stats:', error);
-    return {
-      player1_id: player1_id,
-      player2_id: player2_id,
-      player1_name: '',
-      player2_name: '',
-      total_matches: 0,
-      player1_wins: 0,
-      player2_wins: 0,
-      draws: 0,
-      player1_goals: 0,
-      player2_goals: 0,
-      player1_win_rate: 0,
-      player2_win_rate: 0,
-      player1_avg_goals: 0,
-      player2_avg_goals: 0,
-    };
+    throw toApiError(error, { 404: 'Player not found.' });
+  }
+}
+
+// A meeting as returned by /stats/head-to-head/:a/:b/matches; friendlies
+// have no tournament
+type HeadToHeadMatchResult = MatchResult & {
+  tournament_id?: string | null;
+  tournament_name?: string | null;
+};
+
+// Every completed meeting between two players, tournament matches and
+// friendlies alike, from the pair-filtered endpoint. The two players' stats
+// are only needed to map the display names back to ids.
+export async function getHeadToHeadMatches(
+  player1_id: string,
+  player2_id: string,
+  options: RequestOptions = {}
+): Promise<RivalryMatch[]> {
+  try {
+    const axiosInstance = getApiClient();
+    const [player1, player2, response] = await Promise.all([
+      getPlayerStats(player1_id, options),
+      getPlayerStats(player2_id, options),
+      axiosInstance.get(
+        `/stats/head-to-head/${player1_id}/${player2_id}/matches`,
+        requestConfig(options)
+      ),
+    ]);
+    const meetings: HeadToHeadMatchResult[] = unwrapListResponse(response.data);
+
+    const players = [player1, player2];
+    return meetings.flatMap(({ tournament_id, tournament_name, ...match }) =>
+      resolveMatchPlayers([match], players)
+        .filter(resolved => resolved.player1_id !== resolved.player2_id)
+        .map(resolved => ({
+          ...resolved,
+          tournament_id: tournament_id ?? undefined,
+          tournament_name: tournament_name ?? undefined,
+        }))
+    );
+  } catch (error) {
+    debugError('Error fetching head-to-head matches:', error);
+    throw toApiError(error, { 404: 'Player not found.' });
   }
 }
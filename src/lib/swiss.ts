@@ -0,0 +1,307 @@
+import {
+  Fixture,
+  PlayerStats,
+  SwissSettings,
+  TournamentRules,
+  User,
+} from '@/types';
+import { assignResultsToFixtures, PlayedFixture } from './fixtures';
+import { ResolvedMatch } from './results';
+import { computeStandings, DEFAULT_RULES, pointsForResult } from './standings';
+
+/**
+ * Swiss system
+ *
+ * Every round pairs players on equal points against each other (top half of
+ * a score group against the bottom half), never pairs the same players
+ * twice and gives the home side to whoever has played fewer home games.
+ * With an odd number of players the lowest ranked player without a bye sits
+ * the round out and gets a win's points. Points follow the tournament's
+ * rules.
+ *
+ * Pairings are not stored: they are recomputed from the stored seed order
+ * and the results, and the algorithm is deterministic, so a round always
+ * comes out the same. Because nobody meets twice, a logged match between two
+ * players identifies the round it belongs to. The next round is only paired
+ * once every match of the current one has been logged.
+ */
+
+export interface SwissRound<T extends ResolvedMatch = ResolvedMatch> {
+  round: number;
+  // matchday is the round number
+  pairings: PlayedFixture<T>[];
+  bye?: string;
+  complete: boolean;
+}
+
+export interface SwissStanding extends PlayerStats {
+  // Sum of the opponents' points
+  buchholz: number;
+  // Points of the opponents beaten plus half the points of those drawn
+  sonneborn_berger: number;
+  byes: number;
+}
+
+export interface SwissState<T extends ResolvedMatch = ResolvedMatch> {
+  // Rounds paired so far; the last one may still be in progress
+  rounds: SwissRound<T>[];
+  standings: SwissStanding[];
+  finished: boolean;
+}
+
+// Enough rounds to separate a single winner
+export const recommendedSwissRounds = (playerCount: number) =>
+  Math.max(1, Math.ceil(Math.log2(Math.max(playerCount, 2))));
+
+// Beyond this someone has no new opponent left, which forces rematches and
+// leaves the pairing search trying every combination
+export const maxSwissRounds = (playerCount: number) =>
+  Math.max(1, playerCount - 1);
+
+const pairKey = (a: string, b: string) => (a < b ? `${a}:${b}` : `${b}:${a}`);
+
+interface PairingState {
+  points: Map<string, number>;
+  // Home games minus away games
+  homeBalance: Map<string, number>;
+  lastHome: Map<string, boolean>;
+  played: Set<string>;
+  byes: Set<string>;
+}
+
+/**
+ * Pair the ranked players, first trying to avoid rematches. Candidates for
+ * the top remaining player start with the player half a score group below
+ * (1 v 5, 2 v 6, ... in a group of eight), then the rest of the group,
+ * then lower groups.
+ */
+const pairPlayers = (
+  ranked: string[],
+  points: Map<string, number>,
+  allowed: (a: string, b: string) => boolean
+): [string, string][] | null => {
+  if (ranked.length === 0) {
+    return [];
+  }
+
+  const [first, ...rest] = ranked;
+  const group = rest.filter(id => points.get(id) === points.get(first));
+  const half = Math.floor((group.length + 1) / 2);
+  const candidates = [
+    ...group.slice(half - 1),
+    ...group.slice(0, half - 1).reverse(),
+    ...rest.filter(id => points.get(id) !== points.get(first)),
+  ];
+
+  for (const opponent of candidates) {
+    if (!allowed(first, opponent)) continue;
+    const pairs = pairPlayers(
+      rest.filter(id => id !== opponent),
+      points,
+      allowed
+    );
+    if (pairs) {
+      return [[first, opponent], ...pairs];
+    }
+  }
+  return null;
+};
+
+const pairRound = (
+  round: number,
+  seeds: string[],
+  state: PairingState
+): { pairings: Fixture[]; bye?: string } => {
+  // Points first, then seed order
+  const ranked = [...seeds].sort(
+    (a, b) =>
+      (state.points.get(b) ?? 0) - (state.points.get(a) ?? 0) ||
+      seeds.indexOf(a) - seeds.indexOf(b)
+  );
+
+  let bye: string | undefined;
+  if (ranked.length % 2 === 1) {
+    bye =
+      [...ranked].reverse().find(id => !state.byes.has(id)) ??
+      ranked[ranked.length - 1];
+    ranked.splice(ranked.indexOf(bye), 1);
+  }
+
+  // Rematches only when there is no other way to pair the round
+  const pairs =
+    pairPlayers(
+      ranked,
+      state.points,
+      (a, b) => !state.played.has(pairKey(a, b))
+    ) ??
+    pairPlayers(ranked, state.points, () => true) ??
+    [];
+
+  const pairings = pairs.map(([a, b]) => {
+    const balanceA = state.homeBalance.get(a) ?? 0;
+    const balanceB = state.homeBalance.get(b) ?? 0;
+    // Fewer home games, then whoever was away last time, then the higher
+    // ranked player
+    const aAtHome =
+      balanceA !== balanceB
+        ? balanceA < balanceB
+        : state.lastHome.get(a) !== state.lastHome.get(b)
+          ? !state.lastHome.get(a)
+          : true;
+    const home_id = aAtHome ? a : b;
+    const away_id = aAtHome ? b : a;
+    return {
+      id: `${round}:${home_id}:${away_id}`,
+      matchday: round,
+      home_id,
+      away_id,
+    };
+  });
+
+  return { pairings, bye };
+};
+
+const computeSwissStandings = (
+  seeds: string[],
+  players: User[],
+  rounds: SwissRound[],
+  counted: ResolvedMatch[],
+  rules: TournamentRules
+): SwissStanding[] => {
+  const byes = new Map<string, number>();
+  rounds.forEach(({ bye, complete }) => {
+    // A bye is only awarded once its round is complete
+    if (bye && complete) {
+      byes.set(bye, (byes.get(bye) ?? 0) + 1);
+    }
+  });
+
+  const rows = computeStandings(seeds, players, counted, rules).map(row => ({
+    ...row,
+    points: row.points + (byes.get(row.id) ?? 0) * rules.points_for_win,
+    tiebreak_note: undefined,
+  }));
+  const pointsById = new Map(rows.map(row => [row.id, row.points]));
+
+  return rows
+    .map(row => {
+      let buchholz = 0;
+      let sonneborn_berger = 0;
+      counted.forEach(({ player1_id, player2_id, match }) => {
+        if (player1_id !== row.id && player2_id !== row.id) return;
+        const isPlayer1 = player1_id === row.id;
+        const opponentPoints =
+          pointsById.get(isPlayer1 ? player2_id : player1_id) ?? 0;
+        const goalsFor = isPlayer1 ? match.player1_goals : match.player2_goals;
+        const goalsAgainst = isPlayer1
+          ? match.player2_goals
+          : match.player1_goals;
+        buchholz += opponentPoints;
+        if (goalsFor > goalsAgainst) {
+          sonneborn_berger += opponentPoints;
+        } else if (goalsFor === goalsAgainst) {
+          sonneborn_berger += opponentPoints / 2;
+        }
+      });
+      return {
+        ...row,
+        buchholz,
+        sonneborn_berger,
+        byes: byes.get(row.id) ?? 0,
+      };
+    })
+    .sort(
+      (a, b) =>
+        b.points - a.points ||
+        b.buchholz - a.buchholz ||
+        b.sonneborn_berger - a.sonneborn_berger ||
+        b.goal_difference - a.goal_difference ||
+        b.total_goals_scored - a.total_goals_scored
+    );
+};
+
+export function buildSwiss<T extends ResolvedMatch>(
+  settings: SwissSettings,
+  players: User[],
+  matches: T[],
+  rules: TournamentRules = DEFAULT_RULES
+): SwissState<T> {
+  const seeds = settings.seeds;
+  const state: PairingState = {
+    points: new Map(),
+    homeBalance: new Map(),
+    lastHome: new Map(),
+    played: new Set(),
+    byes: new Set(),
+  };
+  const rounds: SwissRound<T>[] = [];
+  const counted: T[] = [];
+  let unused = [...matches].sort((a, b) =>
+    a.match.date.localeCompare(b.match.date)
+  );
+
+  if (seeds.length >= 2) {
+    for (let round = 1; round <= settings.rounds; round++) {
+      const { pairings, bye } = pairRound(round, seeds, state);
+      const played = assignResultsToFixtures<T>(pairings, unused);
+      const complete = played.every(pairing => pairing.result);
+      rounds.push({ round, pairings: played, bye, complete });
+
+      played.forEach(pairing => {
+        if (pairing.result) {
+          unused = unused.filter(match => match !== pairing.result);
+          counted.push(pairing.result);
+        }
+      });
+
+      if (!complete) {
+        break;
+      }
+
+      // Results feed the pairing of the next round. Home and away follow
+      // how the match was logged, in case the players swapped.
+      played.forEach(({ result }) => {
+        if (!result) return;
+        const { player1_id, player2_id, match } = result;
+        const award = (player_id: string, points: number, home: boolean) => {
+          state.points.set(
+            player_id,
+            (state.points.get(player_id) ?? 0) + points
+          );
+          state.homeBalance.set(
+            player_id,
+            (state.homeBalance.get(player_id) ?? 0) + (home ? 1 : -1)
+          );
+          state.lastHome.set(player_id, home);
+        };
+        award(
+          player1_id,
+          pointsForResult(rules, match.player1_goals, match.player2_goals),
+          true
+        );
+        award(
+          player2_id,
+          pointsForResult(rules, match.player2_goals, match.player1_goals),
+          false
+        );
+        state.played.add(pairKey(player1_id, player2_id));
+      });
+      if (bye) {
+        state.points.set(
+          bye,
+          (state.points.get(bye) ?? 0) + rules.points_for_win
+        );
+        state.byes.add(bye);
+      }
+    }
+  }
+
+  const finished =
+    rounds.length === settings.rounds && rounds.every(round => round.complete);
+
+  return {
+    rounds,
+    standings: computeSwissStandings(seeds, players, rounds, counted, rules),
+    finished,
+  };
+}
@@ -0,0 +1,145 @@
+import { NATIONAL_TEAM_LEAGUE } from '@/constants/teams';
+import { TeamInfo, TeamRollConstraints } from '@/types';
+import { shuffle } from './bracket';
+
+/**
+ * Random team picker
+ *
+ * Draws a team for each player in LogMatch. Each team has to pass the
+ * player's filters (national teams, recently used teams, leagues) and the
+ * two have to be balanced: no more than max_rating_gap apart overall and,
+ * if asked for, on the same star rating. A reroll swaps one player's team
+ * for another that is still balanced against the opponent's.
+ *
+ * Under a team-rating handicap the pair is balanced by the handicap instead:
+ * the stronger player's team is drawn from at most half a star below the
+ * most it may be rated against the weaker player's team.
+ */
+
+export const DEFAULT_TEAM_ROLL_CONSTRAINTS: TeamRollConstraints = {
+  same_stars: true,
+  max_rating_gap: 3,
+  exclude_national_teams: true,
+  exclude_recent_teams: false,
+  leagues: [],
+  reroll_budget: 2,
+};
+
+const constraintsStorageKey = 'fifa-tracker-team-roll';
+
+export function readTeamRollConstraints(): TeamRollConstraints {
+  if (typeof window === 'undefined') return DEFAULT_TEAM_ROLL_CONSTRAINTS;
+  try {
+    const stored = JSON.parse(
+      localStorage.getItem(constraintsStorageKey) || '{}'
+    ) as Partial<TeamRollConstraints>;
+    return { ...DEFAULT_TEAM_ROLL_CONSTRAINTS, ...stored };
+  } catch {
+    return DEFAULT_TEAM_ROLL_CONSTRAINTS;
+  }
+}
+
+export function storeTeamRollConstraints(constraints: TeamRollConstraints) {
+  localStorage.setItem(constraintsStorageKey, JSON.stringify(constraints));
+}
+
+// A 'team_rating' handicap, from the point of view of the two teams
+export interface RollHandicap {
+  // The team of the stronger player
+  stronger: 1 | 2;
+  // The best star rating the stronger player's team may have
+  getMaxStars: (weakerTeam: TeamInfo) => number;
+}
+
+const pickRandom = <T>(items: T[]): T | undefined =>
+  items[Math.floor(Math.random() * items.length)];
+
+export const isBalancedPair = (
+  team: TeamInfo,
+  opponent: TeamInfo,
+  constraints: TeamRollConstraints
+) =>
+  team.name !== opponent.name &&
+  (!constraints.same_stars || team.stars === opponent.stars) &&
+  Math.abs(team.overall - opponent.overall) <= constraints.max_rating_gap;
+
+const isFairPair = (
+  team1: TeamInfo,
+  team2: TeamInfo,
+  constraints: TeamRollConstraints,
+  handicap?: RollHandicap
+) => {
+  if (!handicap) return isBalancedPair(team1, team2, constraints);
+  const [stronger, weaker] =
+    handicap.stronger === 1 ? [team1, team2] : [team2, team1];
+  const maxStars = handicap.getMaxStars(weaker);
+  return (
+    team1.name !== team2.name &&
+    stronger.stars <= maxStars &&
+    stronger.stars >= maxStars - 0.5
+  );
+};
+
+// The teams a player can be given, before balancing against the opponent
+export function getRollCandidates(
+  teams: TeamInfo[],
+  constraints: TeamRollConstraints,
+  recent_teams: string[] = []
+): TeamInfo[] {
+  return teams.filter(
+    team =>
+      !(
+        constraints.exclude_national_teams &&
+        team.league === NATIONAL_TEAM_LEAGUE
+      ) &&
+      !(constraints.exclude_recent_teams && recent_teams.includes(team.name)) &&
+      (constraints.leagues.length === 0 ||
+        constraints.leagues.includes(team.league))
+  );
+}
+
+// Null when no pair of teams fits the constraints
+export function rollTeams(
+  teams: TeamInfo[],
+  constraints: TeamRollConstraints,
+  player1_recent_teams: string[] = [],
+  player2_recent_teams: string[] = [],
+  handicap?: RollHandicap
+): [TeamInfo, TeamInfo] | null {
+  const opponents = getRollCandidates(teams, constraints, player2_recent_teams);
+  // Player 1's candidates are tried in random order until one has a
+  // balanced opponent, so a pair is found whenever one exists
+  for (const team of shuffle(
+    getRollCandidates(teams, constraints, player1_recent_teams)
+  )) {
+    const opponent = pickRandom(
+      opponents.filter(other => isFairPair(team, other, constraints, handicap))
+    );
+    if (opponent) return [team, opponent];
+  }
+  return null;
+}
+
+// Null when the opponent's team leaves nothing else to draw
+export function rerollTeam(
+  teams: TeamInfo[],
+  constraints: TeamRollConstraints,
+  // Which of the two teams is rerolled
+  team_number: 1 | 2,
+  current_team: string,
+  opponent: TeamInfo,
+  recent_teams: string[] = [],
+  handicap?: RollHandicap
+): TeamInfo | null {
+  return (
+    pickRandom(
+      getRollCandidates(teams, constraints, recent_teams).filter(
+        team =>
+          team.name !== current_team &&
+          (team_number === 1
+            ? isFairPair(team, opponent, constraints, handicap)
+            : isFairPair(opponent, team, constraints, handicap))
+      )
+    ) ?? null
+  );
+}
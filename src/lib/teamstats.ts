@@ -0,0 +1,153 @@
+import { CustomTeam } from '@/types';
+import { CUSTOM_TEAM_LEAGUE, findCustomTeam, findTeam } from './catalogue';
+import { ResolvedMatch } from './results';
+
+/**
+ * Team usage analytics
+ *
+ * The backend only knows a player's last five teams. Going through the match
+ * history gives every team a player has used with their record, which also
+ * drives the comfort picks at the top of LogMatch's team dropdown.
+ */
+
+export interface TeamRecord {
+  team: string;
+  // Undefined for teams that are not in the catalogue
+  league?: string;
+  played: number;
+  wins: number;
+  draws: number;
+  losses: number;
+  goals_for: number;
+  goals_against: number;
+  win_rate: number;
+  points_per_match: number;
+}
+
+export interface LeagueUsage {
+  league: string;
+  played: number;
+}
+
+export interface TeamAnalytics {
+  // Most played first
+  teams: TeamRecord[];
+  // Only teams with at least MIN_RANKED_MATCHES matches are ranked
+  best?: TeamRecord;
+  worst?: TeamRecord;
+  favourite_league?: LeagueUsage;
+}
+
+export const MIN_RANKED_MATCHES = 3;
+export const COMFORT_PICKS = 3;
+
+// Comfort picks are ranked as if every team had two more matches at an
+// average 1.5 points, so one lucky win does not outrank a long good run
+const PRIOR_MATCHES = 2;
+const PRIOR_POINTS = 1.5;
+
+export const getTeamLeague = (team: string, customTeams: CustomTeam[] = []) =>
+  findCustomTeam(team, customTeams)
+    ? CUSTOM_TEAM_LEAGUE
+    : findTeam(team)?.league;
+
+// customTeams are the player's own, so their matches count under the
+// custom teams league
+export function getTeamRecords(
+  matches: ResolvedMatch[],
+  player_id: string,
+  customTeams: CustomTeam[] = []
+): TeamRecord[] {
+  const records = new Map<string, TeamRecord>();
+
+  matches.forEach(({ player1_id, player2_id, match }) => {
+    if (player1_id !== player_id && player2_id !== player_id) return;
+    const isPlayer1 = player1_id === player_id;
+    const team = isPlayer1 ? match.team1 : match.team2;
+    if (!team) return;
+    const scored = isPlayer1 ? match.player1_goals : match.player2_goals;
+    const conceded = isPlayer1 ? match.player2_goals : match.player1_goals;
+
+    const record = records.get(team) ?? {
+      team,
+      league: getTeamLeague(team, customTeams),
+      played: 0,
+      wins: 0,
+      draws: 0,
+      losses: 0,
+      goals_for: 0,
+      goals_against: 0,
+      win_rate: 0,
+      points_per_match: 0,
+    };
+    const wins = record.wins + (scored > conceded ? 1 : 0);
+    const draws = record.draws + (scored === conceded ? 1 : 0);
+    const played = record.played + 1;
+    records.set(team, {
+      ...record,
+      played,
+      wins,
+      draws,
+      losses: record.losses + (scored < conceded ? 1 : 0),
+      goals_for: record.goals_for + scored,
+      goals_against: record.goals_against + conceded,
+      win_rate: wins / played,
+      points_per_match: (3 * wins + draws) / played,
+    });
+  });
+
+  return Array.from(records.values()).sort(
+    (a, b) => b.played - a.played || b.points_per_match - a.points_per_match
+  );
+}
+
+const comparePerformance = (a: TeamRecord, b: TeamRecord) =>
+  b.points_per_match - a.points_per_match ||
+  b.goals_for - b.goals_against - (a.goals_for - a.goals_against) ||
+  b.played - a.played;
+
+export function getTeamAnalytics(
+  matches: ResolvedMatch[],
+  player_id: string,
+  customTeams: CustomTeam[] = []
+): TeamAnalytics {
+  const teams = getTeamRecords(matches, player_id, customTeams);
+  const ranked = teams
+    .filter(record => record.played >= MIN_RANKED_MATCHES)
+    .sort(comparePerformance);
+
+  const leagueCounts = new Map<string, number>();
+  teams.forEach(({ league, played }) => {
+    if (league) {
+      leagueCounts.set(league, (leagueCounts.get(league) ?? 0) + played);
+    }
+  });
+  const [favourite] = Array.from(leagueCounts.entries()).sort(
+    (a, b) => b[1] - a[1]
+  );
+
+  return {
+    teams,
+    best: ranked[0],
+    // With a single ranked team there is nothing worse to point at
+    worst: ranked.length > 1 ? ranked[ranked.length - 1] : undefined,
+    favourite_league: favourite
+      ? { league: favourite[0], played: favourite[1] }
+      : undefined,
+  };
+}
+
+// The teams a player has done best with, however long ago they used them
+export function getComfortPicks(
+  records: TeamRecord[],
+  limit = COMFORT_PICKS
+): TeamRecord[] {
+  const score = ({ played, wins, draws }: TeamRecord) =>
+    (3 * wins + draws + PRIOR_MATCHES * PRIOR_POINTS) /
+    (played + PRIOR_MATCHES);
+
+  return records
+    .filter(record => score(record) > PRIOR_POINTS)
+    .sort((a, b) => score(b) - score(a) || b.played - a.played)
+    .slice(0, limit);
+}
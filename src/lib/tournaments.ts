@@ -3,56 +3,59 @@ import {
   PaginatedResponse,
   PlayerStats,
   Tournament,
+  TournamentDetails,
   User,
 } from '@/types';
-import axios, { AxiosError } from 'axios';
+import { getNextDraftSlot } from './draft';
+import { ConflictError, toApiError } from './errors';
 import {
-  createAuthenticatedRequest,
   debugError,
   debugLog,
   debugWarn,
+  getApiClient,
+  RequestOptions,
+  requestConfig,
   unwrapListResponse,
   unwrapPaginatedResponse,
 } from './shared';
 
-export async function getTournaments(): Promise<Tournament[]> {
+const TOURNAMENT_NOT_FOUND = { 404: 'Tournament not found.' };
+const DRAFT_PICK_TAKEN =
+  'This pick has already been made. Please refresh the draft.';
+
+export async function getTournaments(
+  options: RequestOptions = {}
+): Promise<Tournament[]> {
   try {
-    const axiosInstance = createAuthenticatedRequest();
+    const axiosInstance = getApiClient();
     debugLog('Making request to tournaments endpoint...');
-    const response = await axiosInstance.get('/tournaments/');
+    const response = await axiosInstance.get(
+      '/tournaments/',
+      requestConfig(options)
+    );
     debugLog('Tournaments response:', response.data);
     return unwrapListResponse(response.data);
   } catch (error) {
     debugError('Error fetching tournaments:', error);
-    if (axios.isAxiosError(error)) {
-      debugError('Axios error details:', {
-        message: error.message,
-        code: error.code,
-        status: error.response?.status,
-        statusText: error.response?.statusText,
-        config: {
-          url: error.config?.url,
-          method: error.config?.method,
-          baseURL: error.config?.baseURL,
-          headers: error.config?.headers,
-        },
-      });
-    }
-    return [];
+    throw toApiError(error);
   }
 }
 
 export async function getTournament(
-  tournament_id: string
-): Promise<Tournament | null> {
+  tournament_id: string,
+  options: RequestOptions = {}
+): Promise<Tournament> {
   try {
-    const axiosInstance = createAuthenticatedRequest();
-    const response = await axiosInstance.get(`/tournaments/${tournament_id}/`);
+    const axiosInstance = getApiClient();
+    const response = await axiosInstance.get(
+      `/tournaments/${tournament_id}/`,
+      requestConfig(options)
+    );
     const { data } = response.data;
     return data;
   } catch (error) {
     debugError('Error fetching tournament:', error);
-    return null;
+    throw toApiError(error, TOURNAMENT_NOT_FOUND);
   }
 }
 
@@ -63,11 +66,13 @@ export async function updateTournament(
   player_ids?: string[],
   completed?: boolean,
   start_date?: string,
-  end_date?: string
-): Promise<Tournament | null> {
+  end_date?: string,
+  details: TournamentDetails = {},
+  options: RequestOptions = {}
+): Promise<Tournament> {
   try {
-    const axiosInstance = createAuthenticatedRequest();
-    const payload: Record<string, unknown> = {};
+    const axiosInstance = getApiClient();
+    const payload: Record<string, unknown> = { ...details };
     if (name !== undefined) payload.name = name;
     if (description !== undefined) payload.description = description;
     if (player_ids !== undefined) payload.player_ids = player_ids;
@@ -77,93 +82,154 @@ export async function updateTournament(
 
     const response = await axiosInstance.put(
       `/tournaments/${tournament_id}/`,
-      payload
+      payload,
+      requestConfig(options)
     );
     const { data } = response.data;
     return data;
   } catch (error) {
     debugError('Error updating tournament:', error);
-    return null;
+    throw toApiError(error, {
+      ...TOURNAMENT_NOT_FOUND,
+      403: 'You do not have permission to edit this tournament. Only the tournament owner can edit it.',
+    });
+  }
+}
+
+// The server adds the pick only while it is still pick number `pick`, and
+// answers 409 otherwise, so two people drafting at once cannot both save a
+// pick for the same slot. The tournament is read back afterwards and the pick
+// is only reported as made if it is the one that landed in that slot.
+export async function draftTeam(
+  tournament_id: string,
+  player_id: string,
+  team: string,
+  options: RequestOptions = {}
+): Promise<Tournament> {
+  const { draft } = await getTournament(tournament_id, options);
+  if (!draft || getNextDraftSlot(draft)?.player_id !== player_id) {
+    throw new ConflictError(DRAFT_PICK_TAKEN);
+  }
+  if (draft.picks.some(pick => pick.team === team)) {
+    throw new ConflictError(`${team} has already been drafted.`);
+  }
+  const pick = draft.picks.length + 1;
+
+  try {
+    const axiosInstance = getApiClient();
+    await axiosInstance.post(
+      `/tournaments/${tournament_id}/draft/picks`,
+      { pick, player_id, team },
+      requestConfig(options)
+    );
+  } catch (error) {
+    debugError('Error saving draft pick:', error);
+    throw toApiError(error, {
+      ...TOURNAMENT_NOT_FOUND,
+      403: 'Only the tournament owner can enter draft picks.',
+      409: DRAFT_PICK_TAKEN,
+    });
+  }
+
+  const updated = await getTournament(tournament_id, options);
+  const saved = updated.draft?.picks[pick - 1];
+  if (saved?.player_id !== player_id || saved.team !== team) {
+    throw new ConflictError(DRAFT_PICK_TAKEN);
   }
+  return updated;
 }
 
 export async function createTournament(
   name: string,
   description: string,
-  player_ids: string[]
-): Promise<Tournament | null> {
+  player_ids: string[],
+  details: TournamentDetails = {},
+  options: RequestOptions = {}
+): Promise<Tournament> {
   try {
-    const axiosInstance = createAuthenticatedRequest();
-    const response = await axiosInstance.post('/tournaments/', {
-      name,
-      description,
-      player_ids,
-    });
+    const axiosInstance = getApiClient();
+    const response = await axiosInstance.post(
+      '/tournaments/',
+      {
+        name,
+        description,
+        player_ids,
+        ...details,
+      },
+      requestConfig(options)
+    );
     const { data } = response.data;
     return data;
   } catch (error) {
     debugError('Error creating tournament:', error);
-    return null;
+    throw toApiError(error);
   }
 }
 
-export async function deleteTournament(tournament_id: string): Promise<void> {
+export async function deleteTournament(
+  tournament_id: string,
+  options: RequestOptions = {}
+): Promise<void> {
   try {
-    const axiosInstance = createAuthenticatedRequest();
-    await axiosInstance.delete(`/tournaments/${tournament_id}`);
+    const axiosInstance = getApiClient();
+    await axiosInstance.delete(
+      `/tournaments/${tournament_id}`,
+      requestConfig(options)
+    );
   } catch (error) {
     debugError('Error deleting tournament:', error);
-    if (axios.isAxiosError(error)) {
-      const axiosError = error as AxiosError;
-      if (axiosError.response?.status === 403) {
-        throw new Error(
-          'You do not have permission to delete this tournament. Only the tournament owner can delete it.'
-        );
-      } else if (axiosError.response?.status === 404) {
-        throw new Error('Tournament not found.');
-      } else if (axiosError.response?.status === 401) {
-        throw new Error('Authentication required. Please log in again.');
-      } else {
-        const errorData = axiosError.response?.data as Record<string, unknown>;
-        throw new Error(
-          `Failed to delete tournament: ${errorData?.detail || axiosError.message}`
-        );
-      }
-    }
-    throw new Error('Failed to delete tournament. Please try again.');
+    throw toApiError(error, {
+      ...TOURNAMENT_NOT_FOUND,
+      403: 'You do not have permission to delete this tournament. Only the tournament owner can delete it.',
+    });
   }
 }
 
 export async function addPlayerToTournament(
   tournament_id: string,
-  player_id: string
+  player_id: string,
+  options: RequestOptions = {}
 ): Promise<void> {
   try {
-    const axiosInstance = createAuthenticatedRequest();
-    await axiosInstance.post(`/tournaments/${tournament_id}/players`, {
-      player_id,
-    });
+    const axiosInstance = getApiClient();
+    await axiosInstance.post(
+      `/tournaments/${tournament_id}/players`,
+      { player_id },
+      requestConfig(options)
+    );
   } catch (error) {
     debugError('Error adding player to tournament:', error);
+    throw toApiError(error, {
+      ...TOURNAMENT_NOT_FOUND,
+      403: 'Only the tournament owner can add players.',
+      409: 'This player is already in the tournament.',
+    });
   }
 }
 
 export async function removePlayerFromTournament(
   tournament_id: string,
-  player_id: string
+  player_id: string,
+  options: RequestOptions = {}
 ): Promise<void> {
   try {
-    const axiosInstance = createAuthenticatedRequest();
+    const axiosInstance = getApiClient();
     await axiosInstance.delete(
-      `/tournaments/${tournament_id}/players/${player_id}`
+      `/tournaments/${tournament_id}/players/${player_id}`,
+      requestConfig(options)
     );
   } catch (error) {
     debugError('Error removing player from tournament:', error);
+    throw toApiError(error, {
+      ...TOURNAMENT_NOT_FOUND,
+      403: 'Only the tournament owner can remove players.',
+    });
   }
 }
 
 export async function getTournamentPlayers(
-  tournament_id: string
+  tournament_id: string,
+  options: RequestOptions = {}
 ): Promise<User[]> {
   try {
     // Guard against empty tournament ID
@@ -174,22 +240,24 @@ export async function getTournamentPlayers(
       return [];
     }
 
-    const axiosInstance = createAuthenticatedRequest();
+    const axiosInstance = getApiClient();
     const response = await axiosInstance.get(
-      `/tournaments/${tournament_id}/players`
+      `/tournaments/${tournament_id}/players`,
+      requestConfig(options)
     );
     // This endpoint returns unwrapped array directly
     return response.data;
   } catch (error) {
     debugError('Error fetching tournament players:', error);
-    return [];
+    throw toApiError(error, TOURNAMENT_NOT_FOUND);
   }
 }
 
 export async function getTournamentMatches(
   tournament_id: string,
   page: number = 1,
-  page_size: number = 50
+  page_size: number = 50,
+  options: RequestOptions = {}
 ): Promise<PaginatedResponse<MatchResult>> {
   try {
     // Guard against empty tournament ID
@@ -208,33 +276,51 @@ export async function getTournamentMatches(
       };
     }
 
-    const axiosInstance = createAuthenticatedRequest();
+    const axiosInstance = getApiClient();
     const response = await axiosInstance.get(
       `/tournaments/${tournament_id}/matches`,
-      {
+      requestConfig(options, {
         params: {
           page,
           page_size,
         },
-      }
+      })
     );
     return unwrapPaginatedResponse<MatchResult>(response.data);
   } catch (error) {
     debugError('Error fetching tournament matches:', error);
-    return {
-      items: [],
-      total: 0,
-      page: 1,
-      page_size: page_size,
-      total_pages: 0,
-      has_next: false,
-      has_previous: false,
-    };
+    throw toApiError(error, TOURNAMENT_NOT_FOUND);
   }
 }
 
+// Walk every page of a tournament's matches (the fixture list and
+// client-side standings need the complete history)
+export async function getAllTournamentMatches(
+  tournament_id: string,
+  options: RequestOptions = {}
+): Promise<MatchResult[]> {
+  const matches: MatchResult[] = [];
+  let page = 1;
+  let hasNext = true;
+
+  while (hasNext) {
+    const response = await getTournamentMatches(
+      tournament_id,
+      page,
+      100,
+      options
+    );
+    matches.push(...response.items);
+    hasNext = response.has_next;
+    page += 1;
+  }
+
+  return matches;
+}
+
 export async function getTournamentStandings(
-  tournament_id: string
+  tournament_id: string,
+  options: RequestOptions = {}
 ): Promise<PlayerStats[]> {
   try {
     // Guard against empty tournament ID
@@ -245,14 +331,15 @@ export async function getTournamentStandings(
       return [];
     }
 
-    const axiosInstance = createAuthenticatedRequest();
+    const axiosInstance = getApiClient();
     const response = await axiosInstance.get(
-      `/tournaments/${tournament_id}/stats`
+      `/tournaments/${tournament_id}/stats`,
+      requestConfig(options)
     );
     // This endpoint returns unwrapped array directly
     return response.data;
   } catch (error) {
     debugError('Error fetching tournament standings:', error);
-    return [];
+    throw toApiError(error, TOURNAMENT_NOT_FOUND);
   }
 }
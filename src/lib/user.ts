@@ -5,199 +5,148 @@ import {
   NonFriendPlayer,
   UserSearchResult,
 } from '@/types';
-import axios, { AxiosError } from 'axios';
+import { toApiError } from './errors';
 import {
-  createAuthenticatedRequest,
   debugError,
+  getApiClient,
+  RequestOptions,
+  requestConfig,
   unwrapListResponse,
 } from './shared';
 
 export async function sendFriendRequest(
-  friend_id: string
-): Promise<FriendResponse | null> {
+  friend_id: string,
+  options: RequestOptions = {}
+): Promise<FriendResponse> {
   try {
-    const axiosInstance = createAuthenticatedRequest();
-    const response = await axiosInstance.post('/user/send-friend-request', {
-      friend_id,
-    });
+    const axiosInstance = getApiClient();
+    const response = await axiosInstance.post(
+      '/user/send-friend-request',
+      { friend_id },
+      requestConfig(options)
+    );
     const { data } = response.data;
     return data;
   } catch (error) {
     debugError('Error sending friend request:', error);
-    if (axios.isAxiosError(error)) {
-      const axiosError = error as AxiosError;
-      if (axiosError.response?.status === 400) {
-        throw new Error(
-          'Cannot send friend request to yourself or to an existing friend.'
-        );
-      } else if (axiosError.response?.status === 404) {
-        throw new Error('User not found.');
-      } else if (axiosError.response?.status === 409) {
-        throw new Error('Friend request already sent or received.');
-      } else if (axiosError.response?.status === 401) {
-        throw new Error('Authentication required. Please log in again.');
-      } else {
-        const errorData = axiosError.response?.data as Record<string, unknown>;
-        throw new Error(
-          `Failed to send friend request: ${errorData?.detail || axiosError.message}`
-        );
-      }
-    }
-    throw new Error('Failed to send friend request. Please try again.');
+    throw toApiError(error, {
+      400: 'Cannot send friend request to yourself or to an existing friend.',
+      404: 'User not found.',
+      409: 'Friend request already sent or received.',
+    });
   }
 }
 
-export async function getFriendRequests(): Promise<FriendRequestsResponse> {
+export async function getFriendRequests(
+  options: RequestOptions = {}
+): Promise<FriendRequestsResponse> {
   try {
-    const axiosInstance = createAuthenticatedRequest();
-    const response = await axiosInstance.get('/user/friend-requests');
+    const axiosInstance = getApiClient();
+    const response = await axiosInstance.get(
+      '/user/friend-requests',
+      requestConfig(options)
+    );
     const { data } = response.data;
     return data;
   } catch (error) {
     debugError('Error fetching friend requests:', error);
-    if (axios.isAxiosError(error)) {
-      const axiosError = error as AxiosError;
-      if (axiosError.response?.status === 401) {
-        throw new Error('Authentication required. Please log in again.');
-      }
-    }
-    return { sent_requests: [], received_requests: [] };
+    throw toApiError(error);
   }
 }
 
-export async function getFriends(): Promise<Friend[]> {
+export async function getFriends(
+  options: RequestOptions = {}
+): Promise<Friend[]> {
   try {
-    const axiosInstance = createAuthenticatedRequest();
-    const response = await axiosInstance.get('/user/friends');
+    const axiosInstance = getApiClient();
+    const response = await axiosInstance.get(
+      '/user/friends',
+      requestConfig(options)
+    );
     return unwrapListResponse(response.data);
   } catch (error) {
     debugError('Error fetching friends:', error);
-    if (axios.isAxiosError(error)) {
-      const axiosError = error as AxiosError;
-      if (axiosError.response?.status === 401) {
-        throw new Error('Authentication required. Please log in again.');
-      }
-    }
-    return [];
+    throw toApiError(error);
   }
 }
 
-export async function getRecentNonFriendOpponents(): Promise<
-  NonFriendPlayer[]
-> {
+export async function getRecentNonFriendOpponents(
+  options: RequestOptions = {}
+): Promise<NonFriendPlayer[]> {
   try {
-    const axiosInstance = createAuthenticatedRequest();
+    const axiosInstance = getApiClient();
     const response = await axiosInstance.get(
-      '/user/recent-non-friend-opponents'
+      '/user/recent-non-friend-opponents',
+      requestConfig(options)
     );
     return unwrapListResponse(response.data);
   } catch (error) {
     debugError('Error fetching recent non-friend opponents:', error);
-    if (axios.isAxiosError(error)) {
-      const axiosError = error as AxiosError;
-      if (axiosError.response?.status === 401) {
-        throw new Error('Authentication required. Please log in again.');
-      }
-    }
-    return [];
+    throw toApiError(error);
   }
 }
 
 export async function acceptFriendRequest(
-  friend_id: string
-): Promise<FriendResponse | null> {
+  friend_id: string,
+  options: RequestOptions = {}
+): Promise<FriendResponse> {
   try {
-    const axiosInstance = createAuthenticatedRequest();
-    const response = await axiosInstance.post('/user/accept-friend-request', {
-      friend_id,
-    });
+    const axiosInstance = getApiClient();
+    const response = await axiosInstance.post(
+      '/user/accept-friend-request',
+      { friend_id },
+      requestConfig(options)
+    );
     const { data } = response.data;
     return data;
   } catch (error) {
     debugError('Error accepting friend request:', error);
-    if (axios.isAxiosError(error)) {
-      const axiosError = error as AxiosError;
-      if (axiosError.response?.status === 404) {
-        throw new Error('Friend request not found.');
-      } else if (axiosError.response?.status === 400) {
-        throw new Error('Cannot accept this friend request.');
-      } else if (axiosError.response?.status === 401) {
-        throw new Error('Authentication required. Please log in again.');
-      } else {
-        const errorData = axiosError.response?.data as Record<string, unknown>;
-        throw new Error(
-          `Failed to accept friend request: ${errorData?.detail || axiosError.message}`
-        );
-      }
-    }
-    throw new Error('Failed to accept friend request. Please try again.');
+    throw toApiError(error, {
+      400: 'Cannot accept this friend request.',
+      404: 'Friend request not found.',
+    });
   }
 }
 
 export async function rejectFriendRequest(
-  friend_id: string
-): Promise<FriendResponse | null> {
+  friend_id: string,
+  options: RequestOptions = {}
+): Promise<FriendResponse> {
   try {
-    const axiosInstance = createAuthenticatedRequest();
-    const response = await axiosInstance.post('/user/reject-friend-request', {
-      friend_id,
-    });
+    const axiosInstance = getApiClient();
+    const response = await axiosInstance.post(
+      '/user/reject-friend-request',
+      { friend_id },
+      requestConfig(options)
+    );
     const { data } = response.data;
     return data;
   } catch (error) {
     debugError('Error rejecting friend request:', error);
-    if (axios.isAxiosError(error)) {
-      const axiosError = error as AxiosError;
-      if (axiosError.response?.status === 404) {
-        throw new Error('Friend request not found.');
-      } else if (axiosError.response?.status === 400) {
-        throw new Error('Cannot reject this friend request.');
-      } else if (axiosError.response?.status === 401) {
-        throw new Error('Authentication required. Please log in again.');
-      } else {
-        const errorData = axiosError.response?.data as Record<string, unknown>;
-        throw new Error(
-          `Failed to reject friend request: ${errorData?.detail || axiosError.message}`
-        );
-      }
-    }
-    throw new Error('Failed to reject friend request. Please try again.');
+    throw toApiError(error, {
+      400: 'Cannot reject this friend request.',
+      404: 'Friend request not found.',
+    });
   }
 }
 
 export async function searchUsers(
   query: string,
-  limit?: number
+  limit?: number,
+  options: RequestOptions = {}
 ): Promise<UserSearchResult[]> {
   try {
-    const axiosInstance = createAuthenticatedRequest();
-    const response = await axiosInstance.post('/user/search', {
-      query,
-      limit,
-    });
+    const axiosInstance = getApiClient();
+    const response = await axiosInstance.post(
+      '/user/search',
+      { query, limit },
+      requestConfig(options)
+    );
     return unwrapListResponse(response.data);
   } catch (error) {
     debugError('Error searching users:', error);
-    if (axios.isAxiosError(error)) {
-      const axiosError = error as AxiosError;
-      if (axiosError.response?.status === 401) {
-        throw new Error('Authentication required. Please log in again.');
-      } else if (axiosError.response?.status === 403) {
-        const errorData = axiosError.response?.data as Record<string, unknown>;
-        const errorMessage = errorData?.detail as string | undefined;
-        throw new Error(
-          errorMessage ||
-            'Access forbidden: You do not have permission to search users. Please check the backend API documentation at http://localhost:8000/docs#/ to verify the endpoint requirements, or contact support if you believe this is an error.'
-        );
-      } else if (axiosError.response?.status === 422) {
-        throw new Error('Invalid search query. Please check your input.');
-      } else {
-        const errorData = axiosError.response?.data as Record<string, unknown>;
-        throw new Error(
-          `Failed to search users: ${errorData?.detail || axiosError.message}`
-        );
-      }
-    }
-    throw new Error('Failed to search users. Please try again.');
+    throw toApiError(error, {
+      422: 'Invalid search query. Please check your input.',
+    });
   }
 }
@@ -0,0 +1,229 @@
+import { Fixture, RoundRobinFormat, TournamentRules, User } from '@/types';
+import { assignResultsToFixtures, generateRoundRobin } from './fixtures';
+import { ResolvedMatch } from './results';
+import {
+  computeStandings,
+  DEFAULT_RULES,
+  pointsForResult,
+  RankedStanding,
+} from './standings';
+
+/**
+ * "What if" scenarios for a league
+ *
+ * Hypothetical scores for the fixtures that have not been played yet are
+ * turned into matches and run through the client-side standings engine
+ * together with the real results, so the simulated table is ranked exactly
+ * like the real one.
+ *
+ * The position calculator works on points only: a player level on points
+ * with another could finish either side of them, since goals are not
+ * bounded. With few fixtures left every win/draw/loss combination is tried;
+ * beyond that the range is estimated from the most and fewest points each
+ * player can still reach, which can only make it wider than the truth.
+ */
+
+export interface HypotheticalScore {
+  home_goals: number;
+  away_goals: number;
+}
+
+export interface PositionRange {
+  player_id: string;
+  best: number;
+  worst: number;
+  // False when the range is an estimate (too many fixtures left)
+  exact: boolean;
+}
+
+// 3^9 = 19683 combinations
+const MAX_EXACT_FIXTURES = 9;
+
+// After every real match, in matchday order
+const hypotheticalDate = (matchday: number) =>
+  new Date(Date.UTC(9999, 0, matchday)).toISOString();
+
+// Fixtures of the league that no logged match has been assigned to
+export function getRemainingFixtures(
+  player_ids: string[],
+  format: RoundRobinFormat,
+  matches: ResolvedMatch[]
+): Fixture[] {
+  return assignResultsToFixtures(
+    generateRoundRobin(player_ids, format),
+    matches
+  )
+    .filter(fixture => !fixture.result)
+    .map(({ id, matchday, home_id, away_id }) => ({
+      id,
+      matchday,
+      home_id,
+      away_id,
+    }));
+}
+
+// Matches for the fixtures that have a hypothetical score, home player first
+export function toHypotheticalMatches(
+  fixtures: Fixture[],
+  scores: Record<string, HypotheticalScore>,
+  players: User[]
+): ResolvedMatch[] {
+  const getPlayerName = (playerId: string) => {
+    const player = players.find(p => p.id === playerId);
+    return player?.first_name || player?.username || 'Unknown player';
+  };
+
+  return fixtures.flatMap(fixture => {
+    const score = scores[fixture.id];
+    if (!score) {
+      return [];
+    }
+    return [
+      {
+        player1_id: fixture.home_id,
+        player2_id: fixture.away_id,
+        match: {
+          id: `whatif:${fixture.id}`,
+          player1_name: getPlayerName(fixture.home_id),
+          player2_name: getPlayerName(fixture.away_id),
+          player1_goals: score.home_goals,
+          player2_goals: score.away_goals,
+          team1: '',
+          team2: '',
+          date: hypotheticalDate(fixture.matchday),
+          half_length: 0,
+          completed: true,
+        },
+      },
+    ];
+  });
+}
+
+export function simulateStandings(
+  player_ids: string[],
+  players: User[],
+  matches: ResolvedMatch[],
+  fixtures: Fixture[],
+  scores: Record<string, HypotheticalScore>,
+  rules: TournamentRules = DEFAULT_RULES,
+  coinSeed = ''
+): RankedStanding[] {
+  return computeStandings(
+    player_ids,
+    players,
+    [...matches, ...toHypotheticalMatches(fixtures, scores, players)],
+    rules,
+    coinSeed
+  );
+}
+
+/**
+ * Best and worst final position of every player, given the results so far
+ * and the fixtures still to play. A player whose worst position is 1 has
+ * clinched the league; one whose best position is below 1 can no longer win
+ * it.
+ */
+export function computePositionRanges(
+  player_ids: string[],
+  players: User[],
+  matches: ResolvedMatch[],
+  remaining: Fixture[],
+  rules: TournamentRules = DEFAULT_RULES
+): PositionRange[] {
+  const points = new Map(
+    computeStandings(player_ids, players, matches, rules).map(row => [
+      row.id,
+      row.points,
+    ])
+  );
+  const fixtures = remaining.filter(
+    fixture => points.has(fixture.home_id) && points.has(fixture.away_id)
+  );
+  const ranges = new Map(
+    player_ids.map(id => [id, { best: player_ids.length, worst: 1 }])
+  );
+
+  if (fixtures.length <= MAX_EXACT_FIXTURES) {
+    // The three outcomes as (home, away) points
+    const outcomes: [number, number][] = [
+      [pointsForResult(rules, 1, 0), pointsForResult(rules, 0, 1)],
+      [pointsForResult(rules, 0, 0), pointsForResult(rules, 0, 0)],
+      [pointsForResult(rules, 0, 1), pointsForResult(rules, 1, 0)],
+    ];
+
+    const record = () => {
+      player_ids.forEach(id => {
+        const own = points.get(id) ?? 0;
+        let above = 0;
+        let level = 0;
+        points.forEach((other, otherId) => {
+          if (otherId === id) return;
+          if (other > own) above += 1;
+          else if (other === own) level += 1;
+        });
+        const range = ranges.get(id);
+        if (range) {
+          range.best = Math.min(range.best, above + 1);
+          range.worst = Math.max(range.worst, above + level + 1);
+        }
+      });
+    };
+
+    const play = (index: number) => {
+      if (index === fixtures.length) {
+        record();
+        return;
+      }
+      const { home_id, away_id } = fixtures[index];
+      outcomes.forEach(([home, away]) => {
+        points.set(home_id, (points.get(home_id) ?? 0) + home);
+        points.set(away_id, (points.get(away_id) ?? 0) + away);
+        play(index + 1);
+        points.set(home_id, (points.get(home_id) ?? 0) - home);
+        points.set(away_id, (points.get(away_id) ?? 0) - away);
+      });
+    };
+
+    play(0);
+    return player_ids.map(id => ({
+      player_id: id,
+      best: ranges.get(id)?.best ?? 1,
+      worst: ranges.get(id)?.worst ?? player_ids.length,
+      exact: true,
+    }));
+  }
+
+  const perMatch = [
+    rules.points_for_win,
+    rules.points_for_draw,
+    rules.points_for_loss,
+  ];
+  const most = Math.max(...perMatch);
+  const fewest = Math.min(...perMatch);
+  const gamesLeft = (id: string) =>
+    fixtures.filter(fixture => fixture.home_id === id || fixture.away_id === id)
+      .length;
+  const reach = new Map(
+    player_ids.map(id => {
+      const current = points.get(id) ?? 0;
+      const games = gamesLeft(id);
+      return [
+        id,
+        { max: current + games * most, min: current + games * fewest },
+      ];
+    })
+  );
+
+  return player_ids.map(id => {
+    const own = reach.get(id) ?? { max: 0, min: 0 };
+    const others = player_ids
+      .filter(other => other !== id)
+      .map(other => reach.get(other) ?? { max: 0, min: 0 });
+    return {
+      player_id: id,
+      best: 1 + others.filter(other => other.min > own.max).length,
+      worst: 1 + others.filter(other => other.max >= own.min).length,
+      exact: false,
+    };
+  });
+}
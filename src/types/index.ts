@@ -58,6 +58,7 @@ export interface User {
   tournament_ids?: string[];
   access_token?: string;
   last_5_teams?: string[];
+  custom_teams?: CustomTeam[];
 }
 
 export interface Match {
@@ -72,6 +73,170 @@ export interface Match {
   half_length: number;
   completed: boolean;
   tournament_id?: string;
+  // Knockout tie this match belongs to, e.g. 'R1-M2' (see lib/bracket)
+  bracket_slot?: string;
+  // 1 minus the pre-match probability of the result (see lib/prediction)
+  surprise_factor?: number;
+  // Only set when the teams came from the random team picker
+  team_roll?: TeamRoll;
+  // Goals a player started with under a handicap (see lib/handicap). The
+  // goals fields above only count goals actually scored.
+  player1_head_start?: number;
+  player2_head_start?: number;
+}
+
+// Optional match fields sent alongside the result
+export type MatchDetails = Partial<
+  Pick<
+    Match,
+    | 'bracket_slot'
+    | 'surprise_factor'
+    | 'team_roll'
+    | 'player1_head_start'
+    | 'player2_head_start'
+  >
+>;
+
+export type TournamentFormat = 'league' | 'knockout' | 'groups' | 'swiss';
+
+export type KnockoutSeeding = 'random' | 'elo';
+
+export interface KnockoutSettings {
+  seeding: KnockoutSeeding;
+  // Every round but the final is played home and away
+  two_legged: boolean;
+  // Level aggregates are decided by goals scored away from home
+  away_goals: boolean;
+  // Player ids in seed order (seed 1 first), fixed when the tournament is
+  // created so the bracket never reshuffles
+  seeds: string[];
+}
+
+export type GroupDrawMethod = 'random' | 'pots' | 'manual';
+
+// How group qualifiers meet in the first knockout round: 'adjacent' pairs
+// groups A/B, C/D, ... (A1 v B2, B1 v A2); 'seeded' ranks every qualifier
+// and seeds the bracket
+export type GroupCrossover = 'adjacent' | 'seeded';
+
+export interface GroupStageSettings {
+  draw: GroupDrawMethod;
+  // Player ids per group (group A first), fixed when the tournament is
+  // created
+  groups: string[][];
+  group_format: RoundRobinFormat;
+  // Top K of every group go through to the knockout
+  qualifiers_per_group: number;
+  crossover: GroupCrossover;
+  two_legged: boolean;
+  away_goals: boolean;
+}
+
+export interface SwissSettings {
+  rounds: number;
+  seeding: KnockoutSeeding;
+  // Player ids in seed order; round 1 pairs the top half against the bottom
+  // half
+  seeds: string[];
+}
+
+export type TiebreakRule =
+  | 'goal_difference'
+  | 'goals_scored'
+  // Points in the matches between the tied players only
+  | 'head_to_head'
+  | 'away_goals'
+  // Fair coin: a fixed pseudo-random order per tournament
+  | 'coin_toss';
+
+export interface TournamentRules {
+  points_for_win: number;
+  points_for_draw: number;
+  points_for_loss: number;
+  // Applied in order to players level on points
+  tiebreakers: TiebreakRule[];
+}
+
+// FIFA / EA Sports FC release a team list belongs to. 'custom' offers every
+// team in the catalogue.
+export type GameEdition = 'fifa23' | 'fc24' | 'fc25' | 'custom';
+
+export interface TeamInfo {
+  name: string;
+  code: string;
+  league: string;
+  country: string;
+  // 0-99 ratings as shown on the team select screen
+  overall: number;
+  attack: number;
+  midfield: number;
+  defence: number;
+  // 0.5-5 in half stars, derived from the overall rating
+  stars: number;
+  // Primary kit colour, for crests and badges
+  color: string;
+}
+
+// A team a user made themselves, e.g. an Ultimate Team or Pro Clubs squad.
+// Matches store its name like any other team.
+export interface CustomTeam {
+  id: string;
+  name: string;
+  code: string;
+  // Home kit colours
+  color: string;
+  secondary_color: string;
+  // 0-99 overall; unrated teams show no stars
+  overall?: number;
+}
+
+// Rules for LogMatch's random team picker (see lib/teampicker)
+export interface TeamRollConstraints {
+  // Both teams have the same star rating
+  same_stars: boolean;
+  // Largest allowed difference between the two overall ratings
+  max_rating_gap: number;
+  exclude_national_teams: boolean;
+  // Leave out each player's last_5_teams
+  exclude_recent_teams: boolean;
+  // Empty allows every league
+  leagues: string[];
+  // Rerolls each player may use per match
+  reroll_budget: number;
+}
+
+// How a match's teams were drawn by the random team picker
+export interface TeamRoll {
+  constraints: TeamRollConstraints;
+  player1_rerolls: number;
+  player2_rerolls: number;
+}
+
+// 'team_rating' - the stronger player has to pick a lower rated team
+// 'head_start' - the weaker player starts with a goal lead
+export type HandicapMode = 'team_rating' | 'head_start';
+
+export interface HandicapSettings {
+  mode: HandicapMode;
+  // Each full step of Elo difference between the two players is worth half
+  // a star or one goal
+  elo_per_step: number;
+  max_steps: number;
+}
+
+export interface DraftPick {
+  player_id: string;
+  team: string;
+}
+
+// Teams drafted before a tournament starts (see lib/draft)
+export interface TeamDraft {
+  // Pick order of the first round; every other round runs backwards
+  order: string[];
+  // Teams each player drafts
+  rounds: number;
+  // In the order they were made
+  picks: DraftPick[];
 }
 
 export interface Tournament {
@@ -83,8 +248,39 @@ export interface Tournament {
   start_date: string;
   end_date: string;
   owner_id?: string;
+  // Tournaments created before formats existed are leagues
+  format?: TournamentFormat;
+  knockout?: KnockoutSettings;
+  group_stage?: GroupStageSettings;
+  swiss?: SwissSettings;
+  // Tournaments without rules use the backend's 3/1/0 and goal difference
+  rules?: TournamentRules;
+  // Tournaments created before editions existed were played on FIFA 23
+  edition?: GameEdition;
+  // Tournaments without a handicap are played level
+  handicap?: HandicapSettings;
+  // Players in a drafted tournament can only use the teams they drafted
+  draft?: TeamDraft;
+  // Leagues without a fixture format play a single round-robin
+  fixture_format?: RoundRobinFormat;
 }
 
+// Optional tournament fields sent alongside name/description/player_ids
+export type TournamentDetails = Partial<
+  Pick<
+    Tournament,
+    | 'format'
+    | 'knockout'
+    | 'group_stage'
+    | 'swiss'
+    | 'rules'
+    | 'edition'
+    | 'handicap'
+    | 'draft'
+    | 'fixture_format'
+  >
+>;
+
 export interface MatchResult {
   id: string;
   player1_name: string;
@@ -96,6 +292,49 @@ export interface MatchResult {
   date: string;
   half_length: number;
   completed: boolean;
+  bracket_slot?: string;
+  surprise_factor?: number;
+  team_roll?: TeamRoll;
+  player1_head_start?: number;
+  player2_head_start?: number;
+}
+
+export type RoundRobinFormat = 'single' | 'double';
+
+// A scheduled pairing generated from a tournament's player_ids. The home
+// player is logged as player 1.
+export interface Fixture {
+  id: string;
+  matchday: number;
+  home_id: string;
+  away_id: string;
+}
+
+// A match logged while the backend was unreachable, waiting in the offline
+// outbox to be replayed
+export interface PendingMatch {
+  idempotency_key: string;
+  player1_id: string;
+  player2_id: string;
+  player1_name: string;
+  player2_name: string;
+  team1: string;
+  team2: string;
+  player1_goals: number;
+  player2_goals: number;
+  half_length: number;
+  completed: boolean;
+  tournament_id?: string;
+  bracket_slot?: string;
+  surprise_factor?: number;
+  team_roll?: TeamRoll;
+  player1_head_start?: number;
+  player2_head_start?: number;
+  created_at: string;
+  // 'conflict' - the tournament was completed before the match synced
+  // 'failed' - the backend rejected the match for another reason
+  status: 'pending' | 'conflict' | 'failed';
+  error?: string;
 }
 
 export interface PlayerStats {